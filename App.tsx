@@ -7,10 +7,19 @@ import {
   AnalysisInputType,
   Restaurant,
   AnalysisHistoryEntry,
+  AllergySeverities,
+  KitchenRiskNote,
+  MenuDocument,
+  SecurityWarning,
+  UsageSummary,
+  VisitChecklist,
 } from './types';
-import { analyzeMenu, startMenuChat, continueChat, summarizeSafeOptions } from './services/geminiService';
+import { analyzeMenuStream, startMenuChat, continueChat, summarizeSafeOptions, isPdfFile } from './services/geminiService';
 import * as authService from './services/authService';
 import { findNearbyRestaurants } from './services/placesService';
+import { ApiRequestError, QuotaExceededError } from './services/apiClient';
+import { DEFAULT_OUTPUT_LANGUAGE } from './services/languages';
+import { EMPTY_DIET_PROFILE } from './services/diets';
 import AllergyInput from './components/AllergyInput';
 import MenuInput from './components/MenuInput';
 import ResultsDisplay from './components/ResultsDisplay';
@@ -25,6 +34,7 @@ import { UserIcon } from './components/icons/UserIcon';
 import ProfileSettings from './components/ProfileManager';
 import UserSettingsDisplay from './components/UserSettingsDisplay';
 import { AnalysisHistoryModal } from './components/AnalysisHistoryModal';
+import ChefCardModal from './components/ChefCardModal';
 import WelcomeHero from './components/WelcomeHero';
 import { XCircleIcon } from './components/icons/XCircleIcon';
 import { initSupabase, getSupabaseClient } from './services/supabaseClient';
@@ -49,34 +59,55 @@ const App: React.FC = () => {
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
   const [isProfileSettingsOpen, setIsProfileSettingsOpen] = useState(false);
   const [isHistoryModalOpen, setIsHistoryModalOpen] = useState(false);
+  const [isChefCardOpen, setIsChefCardOpen] = useState(false);
 
   // Guest Allergy State
   const [guestAllergies, setGuestAllergies] = useState<string>('');
+  const [guestAllergySeverities, setGuestAllergySeverities] = useState<AllergySeverities>({});
+  const [guestOutputLanguage, setGuestOutputLanguage] = useState<string>(DEFAULT_OUTPUT_LANGUAGE);
 
   // Core App State
   const [menuText, setMenuText] = useState<string>('');
-  const [menuImage, setMenuImage] = useState<File | null>(null);
+  const [menuFiles, setMenuFiles] = useState<File[]>([]);
   const [menuUrl, setMenuUrl] = useState<string>('');
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[] | null>(null);
+  const [kitchenRisks, setKitchenRisks] = useState<KitchenRiskNote[]>([]);
+  // Instruction-like text the server found in the menu source.
+  const [securityWarnings, setSecurityWarnings] = useState<SecurityWarning[]>([]);
+  const [menuDocument, setMenuDocument] = useState<MenuDocument | null>(null);
   const [isLoadingAnalysis, setIsLoadingAnalysis] = useState<boolean>(false);
   const [analysisTarget, setAnalysisTarget] = useState<string | null>(null);
   const [analysisInputType, setAnalysisInputType] = useState<AnalysisInputType>(null);
+  // Items classified so far while results stream in; kept after a cancel to say how far it got.
+  const [analysisProgress, setAnalysisProgress] = useState<{ classified: number; total: number } | null>(null);
+  // When the current results came from the analysis cache, the time they were first analyzed.
+  const [analysisCachedAt, setAnalysisCachedAt] = useState<string | null>(null);
+  // Server-side count of this month's analyses for the signed-in user.
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Set when the last analysis failed in a way that may pass, e.g. the model timed out: what to send again.
+  const [retryableAnalysis, setRetryableAnalysis] = useState<{ bypassCache: boolean } | null>(null);
   const [isScannerOpen, setIsScannerOpen] = useState<boolean>(false);
 
   // Nearby Restaurants State
   const [restaurants, setRestaurants] = useState<Restaurant[] | null>(null);
   const [isFindingRestaurants, setIsFindingRestaurants] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
+  const [canRetryNearby, setCanRetryNearby] = useState(false);
 
   // Results State
   const [analysisSummary, setAnalysisSummary] = useState<string | null>(null);
   const [searchGroundingSources, setSearchGroundingSources] = useState<GroundingSource[] | null>(null);
-  const [menuContextForSuggestions, setMenuContextForSuggestions] = useState<{ text: string; url: string } | null>(null);
 
   // Chat State
   const [conversationHistory, setConversationHistory] = useState<ChatMessage[] | null>(null);
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
+  // Staff questions and answers for the current results, and the history entry they are saved with.
+  const [visitChecklist, setVisitChecklist] = useState<VisitChecklist | null>(null);
+  const [historyEntryId, setHistoryEntryId] = useState<number | null>(null);
   const [isChatLoading, setIsChatLoading] = useState<boolean>(false);
+  const [isChatExpired, setIsChatExpired] = useState<boolean>(false);
 
   // Auto-analysis trigger
   const [autoAnalysisTrigger, setAutoAnalysisTrigger] = useState<number>(0);
@@ -85,7 +116,10 @@ const App: React.FC = () => {
   const profileRef = useRef<HTMLDivElement>(null);
 
   const currentAllergies = currentUser?.allergies || guestAllergies;
-  const currentPreferences = currentUser?.is_pro ? (currentUser?.preferences || '') : '';
+  const currentAllergySeverities = currentUser ? currentUser.allergySeverities : guestAllergySeverities;
+  const currentOutputLanguage = currentUser ? currentUser.outputLanguage : guestOutputLanguage;
+  // Diets are a Pro feature; everyone else is analyzed for allergies only.
+  const currentDietProfile = currentUser?.is_pro ? currentUser.dietProfile : EMPTY_DIET_PROFILE;
 
   // Step 1: Fetch config and initialize services on load
   useEffect(() => {
@@ -127,6 +161,8 @@ const App: React.FC = () => {
         );
 
         setGuestAllergies(authService.loadGuestAllergies());
+        setGuestAllergySeverities(authService.loadGuestAllergySeverities());
+        setGuestOutputLanguage(authService.loadGuestOutputLanguage());
         setInitError(null);
 
         return () => subscription?.unsubscribe();
@@ -141,82 +177,147 @@ const App: React.FC = () => {
     initializeApp();
   }, []);
 
-  const handleAnalyze = useCallback(async () => {
+  const refreshUsage = useCallback(() => {
+    authService.getMonthlyUsage()
+      .then(setUsage)
+      .catch(err => console.warn('Could not load usage:', err));
+  }, []);
+
+  // Usage is counted on the server; reload it whenever a different user signs in.
+  useEffect(() => {
+    if (currentUser?.id) refreshUsage();
+    else setUsage(null);
+  }, [currentUser?.id, refreshUsage]);
+
+  // `bypassCache` re-runs the model even when this menu and profile were analyzed before.
+  const runAnalysis = useCallback(async (bypassCache: boolean) => {
     if (!currentAllergies.trim()) {
       setError('Please list your allergies first.');
       return;
     }
-    if (!menuText.trim() && !menuImage && !menuUrl.trim()) {
+    if (!menuText.trim() && menuFiles.length === 0 && !menuUrl.trim()) {
       setError('Please provide a menu as text, an image, a URL, or by scanning a QR code.');
       return;
     }
 
-    if (currentUser && !currentUser.is_pro) {
-      const maxAnalyses = currentUser.max_analyses_per_month;
-      if (maxAnalyses != null) {
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
-        const analysesThisMonth = currentUser.analysisHistory?.filter(h => {
-          const historyDate = new Date(h.created_at);
-          return historyDate.getMonth() === currentMonth && historyDate.getFullYear() === currentYear;
-        })?.length || 0;
-
-        if (analysesThisMonth >= maxAnalyses) {
-          setError(`You have reached your monthly analysis limit of ${maxAnalyses}. Upgrade to Pro for unlimited analyses.`);
-          return;
-        }
-      } else {
-        setError('Unable to determine your analysis limit. Please contact support.');
-        return;
-      }
-    }
-
+    // The monthly limit is enforced by the server, which answers with a QuotaExceededError.
     setError(null);
+    setRetryableAnalysis(null);
     setIsLoadingAnalysis(true);
     setAnalysisResults(null);
+    setKitchenRisks([]);
+    setSecurityWarnings([]);
+    setMenuDocument(null);
+    setAnalysisProgress(null);
+    setAnalysisCachedAt(null);
     setAnalysisSummary(null);
-    setMenuContextForSuggestions(null);
     setConversationHistory(null);
+    setAnalysisId(null);
+    setIsChatExpired(false);
+    setVisitChecklist(null);
+    setHistoryEntryId(null);
     setSearchGroundingSources(null);
 
     try {
-      let contextText = menuText;
       let contextUrl = menuUrl;
       let target = 'Pasted Text';
       if (contextUrl.trim()) target = new URL(contextUrl).hostname;
-      else if (menuImage) target = `Image: ${menuImage.name}`;
+      else if (menuFiles.length === 1 && isPdfFile(menuFiles[0])) target = `PDF: ${menuFiles[0].name}`;
+      else if (menuFiles.length === 1) target = `Image: ${menuFiles[0].name}`;
+      else if (menuFiles.length > 1) target = `Photos: ${menuFiles.length} pages`;
 
       setAnalysisTarget(target);
-      setMenuContextForSuggestions({ text: contextText, url: contextUrl });
-      setAnalysisInputType(menuUrl.trim() ? 'url' : menuImage ? 'image' : 'text');
+      setAnalysisInputType(
+        menuUrl.trim() ? 'url'
+          : menuFiles.some(isPdfFile) ? 'pdf'
+          : menuFiles.length > 0 ? 'image'
+          : 'text'
+      );
 
-      const results = await analyzeMenu(currentAllergies, currentPreferences, menuText, menuImage, menuUrl);
+      const controller = new AbortController();
+      analysisAbortRef.current = controller;
+      const { menu, results, kitchenRisks: menuKitchenRisks, cached, cachedAt, securityWarnings: menuSecurityWarnings, analysisId: storedAnalysisId } = await analyzeMenuStream(
+        currentAllergies, currentAllergySeverities, currentOutputLanguage, currentDietProfile, menuText, menuFiles, menuUrl,
+        {
+          onMenu: (streamedMenu, itemCount, streamedWarnings) => {
+            setMenuDocument(streamedMenu);
+            setSecurityWarnings(streamedWarnings);
+            setAnalysisResults([]);
+            setAnalysisProgress({ classified: 0, total: itemCount });
+          },
+          onResults: (batch) => {
+            setAnalysisResults(prev => [...(prev || []), ...batch]);
+            setAnalysisProgress(prev => prev && { ...prev, classified: prev.classified + batch.length });
+          },
+        },
+        controller.signal,
+        bypassCache
+      );
       setAnalysisResults(results);
+      setAnalysisCachedAt(cached ? cachedAt || null : null);
+      setKitchenRisks(menuKitchenRisks);
+      setSecurityWarnings(menuSecurityWarnings || []);
+      setMenuDocument(menu);
+      setAnalysisProgress(null);
+      // Safe swaps and the chat both need the analysis stored on the server.
+      setAnalysisId(storedAnalysisId || null);
+
+      // Only complete analyses are summarized and saved to history.
 
       if (results.length > 0) {
-        const summary = await summarizeSafeOptions(results, currentAllergies, currentPreferences);
-        setAnalysisSummary(summary);
-        const initialHistory = startMenuChat(currentAllergies, currentPreferences, results);
-        setConversationHistory(initialHistory);
+        // The summary is optional: without it the results are still shown and saved.
+        try {
+          setAnalysisSummary(await summarizeSafeOptions(results, currentAllergies, currentDietProfile));
+        } catch (err) {
+          console.warn('Could not summarize the analysis:', err);
+        }
+        if (storedAnalysisId) setConversationHistory(startMenuChat());
 
         if (currentUser) {
-          const updatedUser = await authService.addAnalysisToHistory(currentUser, results, currentAllergies, currentPreferences, target);
+          const updatedUser = await authService.addAnalysisToHistory(currentUser, results, menu, currentAllergies, currentDietProfile, target, !!cached);
           setCurrentUser(updatedUser);
+          setHistoryEntryId(updatedUser.analysisHistory[0]?.id ?? null);
+          refreshUsage();
         }
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during analysis.';
-      if (errorMessage.includes('Monthly analysis limit exceeded')) {
-        setError(errorMessage);
-      } else {
-        setError(errorMessage);
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        // Cancelled by the user: keep the items that already arrived, marked as incomplete.
+        return;
+      }
+      setAnalysisProgress(null);
+      if (err instanceof QuotaExceededError) {
+        setUsage(err.usage);
+      } else if (err instanceof ApiRequestError && err.code === 'unauthorized') {
+        // The session expired or was revoked; the same request would fail again until they log in.
+        setAuthMode('login');
+        setIsAuthModalOpen(true);
+      } else if (err instanceof ApiRequestError && err.code === 'guest_limit_reached') {
+        setAuthMode('signup');
+        setIsAuthModalOpen(true);
       }
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during analysis.';
+      setError(errorMessage);
+      setRetryableAnalysis(err instanceof ApiRequestError && err.retryable ? { bypassCache } : null);
       setAnalysisResults(null);
     } finally {
+      analysisAbortRef.current = null;
       setIsLoadingAnalysis(false);
       setAnalysisTarget(null);
     }
-  }, [currentAllergies, currentPreferences, menuText, menuImage, menuUrl, currentUser]);
+  }, [currentAllergies, currentAllergySeverities, currentOutputLanguage, currentDietProfile, menuText, menuFiles, menuUrl, currentUser, refreshUsage]);
+
+  const handleAnalyze = useCallback(() => runAnalysis(false), [runAnalysis]);
+
+  // Offered next to cached results: analyze the same menu again with a fresh model call.
+  const handleReanalyzeAnyway = useCallback(() => runAnalysis(true), [runAnalysis]);
+
+  const handleCancelAnalysis = () => analysisAbortRef.current?.abort();
+
+  // Only offered for failures the server marked as retryable, such as a model timeout.
+  const handleRetryAnalysis = useCallback(() => {
+    if (retryableAnalysis) runAnalysis(retryableAnalysis.bypassCache);
+  }, [retryableAnalysis, runAnalysis]);
 
   useEffect(() => {
     if (autoAnalysisTrigger > 0) handleAnalyze();
@@ -224,6 +325,7 @@ const App: React.FC = () => {
 
   const handleFindNearby = useCallback(async () => {
     setLocationError(null);
+    setCanRetryNearby(false);
     setIsFindingRestaurants(true);
     setRestaurants(null);
     navigator.geolocation.getCurrentPosition(
@@ -233,6 +335,7 @@ const App: React.FC = () => {
           setRestaurants(foundRestaurants);
         } catch (err) {
           setLocationError(err instanceof Error ? err.message : 'An unknown error occurred.');
+          setCanRetryNearby(err instanceof ApiRequestError && err.retryable);
         } finally {
           setIsFindingRestaurants(false);
         }
@@ -253,10 +356,20 @@ const App: React.FC = () => {
     setIsAuthModalOpen(true);
   };
   const handleLogout = async () => {
-    if (currentUser) authService.saveGuestAllergies(currentUser.allergies || '');
+    if (currentUser) {
+      authService.saveGuestAllergies(currentUser.allergies || '');
+      authService.saveGuestAllergySeverities(currentUser.allergySeverities);
+      authService.saveGuestOutputLanguage(currentUser.outputLanguage);
+    }
     await authService.logout();
     setGuestAllergies(authService.loadGuestAllergies());
+    setGuestAllergySeverities(authService.loadGuestAllergySeverities());
+    setGuestOutputLanguage(authService.loadGuestOutputLanguage());
     setConversationHistory(null);
+    setAnalysisId(null);
+    setIsChatExpired(false);
+    setVisitChecklist(null);
+    setHistoryEntryId(null);
     setAnalysisResults(null);
     setShowProfileDropdown(false);
   };
@@ -272,6 +385,11 @@ const App: React.FC = () => {
     setIsHistoryModalOpen(true);
     setShowProfileDropdown(false);
   };
+  // Open to guests too: the card is drawn from whichever profile is active.
+  const handleChefCardClick = () => {
+    setIsChefCardOpen(true);
+    setShowProfileDropdown(false);
+  };
   const handleHistoryUpdate = (updatedHistory: AnalysisHistoryEntry[]) => {
     if (currentUser) {
       setCurrentUser({ ...currentUser, analysisHistory: updatedHistory });
@@ -291,6 +409,14 @@ const App: React.FC = () => {
     setGuestAllergies(newAllergies);
     authService.saveGuestAllergies(newAllergies);
   };
+  const handleGuestAllergySeveritiesChange = (newSeverities: AllergySeverities) => {
+    setGuestAllergySeverities(newSeverities);
+    authService.saveGuestAllergySeverities(newSeverities);
+  };
+  const handleGuestOutputLanguageChange = (language: string) => {
+    setGuestOutputLanguage(language);
+    authService.saveGuestOutputLanguage(language);
+  };
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (profileRef.current && !profileRef.current.contains(event.target as Node)) setShowProfileDropdown(false);
@@ -299,16 +425,20 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
   const handleSendChatMessage = async (message: string) => {
-    if (!conversationHistory) return;
+    if (!conversationHistory || !analysisId) return;
     setIsChatLoading(true);
     const newUserMessage: ChatMessage = { role: 'user', content: message };
-    const currentHistory = [...conversationHistory, newUserMessage];
-    setConversationHistory(currentHistory);
+    // The history is kept for display; the server has its own copy.
+    setConversationHistory([...conversationHistory, newUserMessage]);
     try {
-      const responseText = await continueChat(currentHistory, message);
-      const modelMessage: ChatMessage = { role: 'model', content: responseText };
+      const modelMessage = await continueChat(analysisId, message, historyEntryId ?? undefined);
       setConversationHistory((prev) => (prev ? [...prev, modelMessage] : [modelMessage]));
     } catch (err) {
+      // The server no longer has this analysis: the chat offers to analyze the menu again instead.
+      if (err instanceof ApiRequestError && err.code === 'not_found') {
+        setIsChatExpired(true);
+        return;
+      }
       const errorMessage = err instanceof Error ? err.message : 'Sorry, I encountered an error.';
       setConversationHistory((prev) =>
         prev ? [...prev, { role: 'model', content: errorMessage }] : [{ role: 'model', content: errorMessage }]
@@ -317,6 +447,17 @@ const App: React.FC = () => {
       setIsChatLoading(false);
     }
   };
+  // Answers are saved with the history entry as they are recorded; guests keep them until the next analysis.
+  const handleChecklistChange = (checklist: VisitChecklist) => {
+    setVisitChecklist(checklist);
+    if (!currentUser || historyEntryId === null) return;
+    authService.saveVisitChecklist(historyEntryId, checklist)
+      .then(() => setCurrentUser(prev => prev && {
+        ...prev,
+        analysisHistory: prev.analysisHistory.map(entry => entry.id === historyEntryId ? { ...entry, visit_checklist: checklist } : entry),
+      }))
+      .catch(err => console.warn('Could not save the visit checklist:', err));
+  };
   const handleScanSuccess = (data: string | null) => {
     if (data) {
       try {
@@ -1,14 +1,20 @@
 import { NextResponse } from 'next/server';
-import { AnalysisInputType } from '@/types/types';
+import { AnalysisInputType, AnalyzeRequestData, ApiErrorBody } from '@/types';
+import { isAnalysisInputType } from '@/services/validation';
+
+type AnalyzeRouteRequest = Pick<AnalyzeRequestData, 'menuText' | 'allergies' | 'dietProfile'> & {
+  inputType: AnalysisInputType;
+};
 
 export async function POST(request: Request) {
   try {
-    const { menuText, inputType, allergies, preferences } = await request.json();
-    if (!menuText || !inputType) {
-      return NextResponse.json({ error: 'Menu text and input type are required' }, { status: 400 });
+    const { menuText, inputType, allergies, dietProfile }: AnalyzeRouteRequest = await request.json();
+    if (!menuText || !isAnalysisInputType(inputType)) {
+      return NextResponse.json<ApiErrorBody>({ error: 'Menu text and input type are required', code: 'validation_error', retryable: false }, { status: 400 });
     }
     return NextResponse.json({ message: 'Analysis endpoint (placeholder)' }, { status: 200 });
-  } catch (error: any) {
-    return NextResponse.json({ error: error.message }, { status: 500 });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Analysis failed';
+    return NextResponse.json<ApiErrorBody>({ error: message, code: 'internal_error', retryable: true }, { status: 500 });
   }
 }
\ No newline at end of file
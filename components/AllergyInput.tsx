@@ -1,11 +1,18 @@
 import React, { useState, useEffect } from 'react';
+import { AllergySeverities } from '../types';
+import AllergySeverityEditor from './AllergySeverityEditor';
+import OutputLanguageSelect from './OutputLanguageSelect';
 
 interface AllergyInputProps {
     allergies: string;
     setAllergies: (allergies: string) => void;
+    allergySeverities: AllergySeverities;
+    setAllergySeverities: (severities: AllergySeverities) => void;
+    outputLanguage: string;
+    setOutputLanguage: (language: string) => void;
 }
 
-const AllergyInput: React.FC<AllergyInputProps> = ({ allergies, setAllergies }) => {
+const AllergyInput: React.FC<AllergyInputProps> = ({ allergies, setAllergies, allergySeverities, setAllergySeverities, outputLanguage, setOutputLanguage }) => {
     // Use local state to avoid re-rendering the parent on every keystroke.
     // This makes the input feel more responsive and prevents layout shifts.
     const [localValue, setLocalValue] = useState(allergies);
@@ -40,6 +47,12 @@ const AllergyInput: React.FC<AllergyInputProps> = ({ allergies, setAllergies })
                 placeholder="e.g., Peanuts, Shellfish, Gluten"
                 className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500 sm:text-sm text-gray-900 placeholder:text-gray-400"
             />
+            <AllergySeverityEditor
+                allergies={allergies}
+                severities={allergySeverities}
+                onChange={setAllergySeverities}
+            />
+            <OutputLanguageSelect value={outputLanguage} onChange={setOutputLanguage} />
         </div>
     );
 };
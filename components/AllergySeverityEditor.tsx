@@ -0,0 +1,69 @@
+import React from 'react';
+import { AllergySeverities, AllergySeverity } from '../types';
+import {
+    parseAllergies,
+    getAllergenLabel,
+    getAllergySeverity,
+    severityKeyForTerm,
+    ALLERGY_SEVERITIES,
+    SEVERITY_LABELS,
+} from '../services/allergens';
+
+interface AllergySeverityEditorProps {
+    allergies: string;
+    severities: AllergySeverities;
+    onChange: (severities: AllergySeverities) => void;
+}
+
+const severityStyles: Record<AllergySeverity, string> = {
+    intolerance: 'border-yellow-300 bg-yellow-50 text-yellow-800',
+    allergy: 'border-orange-300 bg-orange-50 text-orange-800',
+    anaphylactic: 'border-red-300 bg-red-50 text-red-800',
+};
+
+/**
+ * One row per allergen parsed from the allergies string, each with a
+ * severity picker. Severities for allergens no longer in the list are dropped.
+ */
+const AllergySeverityEditor: React.FC<AllergySeverityEditorProps> = ({ allergies, severities, onChange }) => {
+    const parsed = parseAllergies(allergies);
+    const keys = [...parsed.codes, ...parsed.unrecognized.map(severityKeyForTerm)];
+
+    if (keys.length === 0) return null;
+
+    const handleChange = (key: string, severity: AllergySeverity) => {
+        const next: AllergySeverities = {};
+        for (const existingKey of keys) {
+            next[existingKey] = existingKey === key ? severity : getAllergySeverity(severities, existingKey);
+        }
+        onChange(next);
+    };
+
+    return (
+        <div className="mt-3">
+            <p className="text-xs text-gray-500 mb-2">How severe is each reaction? "Anaphylactic" treats even possible traces as unsafe.</p>
+            <ul className="space-y-2">
+                {keys.map(key => {
+                    const severity = getAllergySeverity(severities, key);
+                    return (
+                        <li key={key} className={`flex items-center justify-between px-3 py-1.5 border rounded-md ${severityStyles[severity]}`}>
+                            <span className="text-sm font-medium">{getAllergenLabel(key)}</span>
+                            <select
+                                value={severity}
+                                onChange={(e) => handleChange(key, e.target.value as AllergySeverity)}
+                                className="ml-2 text-sm bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                                aria-label={`Severity for ${getAllergenLabel(key)}`}
+                            >
+                                {ALLERGY_SEVERITIES.map(option => (
+                                    <option key={option} value={option}>{SEVERITY_LABELS[option]}</option>
+                                ))}
+                            </select>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default AllergySeverityEditor;
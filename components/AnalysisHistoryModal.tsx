@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import ReactDOM from 'react-dom';
-import { AppUser, AnalysisHistoryEntry } from '../types'; // ✅ use AppUser now
+import { AppUser, AnalysisHistoryEntry, VisitChecklist } from '../types'; // ✅ use AppUser now
 import * as authService from '../services/authService';
 import { XCircleIcon } from './icons/XCircleIcon';
 import ResultsDisplay from './ResultsDisplay';
@@ -20,7 +20,8 @@ const HistoryItem: React.FC<{
   item: AnalysisHistoryEntry;
   onDelete: (id: number) => void;
   deletingId: number | null;
-}> = ({ item, onDelete, deletingId }) => {
+  onChecklistChange: (id: number, checklist: VisitChecklist) => void;
+}> = ({ item, onDelete, deletingId, onChecklistChange }) => {
   const [isOpen, setIsOpen] = useState(false);
   const date = new Date(item.created_at).toLocaleString(undefined, {
     year: 'numeric',
@@ -53,7 +54,7 @@ const HistoryItem: React.FC<{
               <>
                 <span className="mx-2 text-gray-300">|</span>
                 <span>
-                  Preferences:{' '}
+                  Diets:{' '}
                   <span className="font-medium">{item.preferences}</span>
                 </span>
               </>
@@ -93,10 +94,14 @@ const HistoryItem: React.FC<{
         <div className="p-4 bg-white border-t border-gray-200">
           <ResultsDisplay
             results={item.result}
-            menuContext={null}
-            currentAllergies={item.allergies}
-            currentPreferences={item.preferences}
+            menu={item.menu_document}
             analysisInputType={null}
+            checklist={item.visit_checklist}
+            onChecklistChange={
+              item.visit_checklist
+                ? (checklist) => onChecklistChange(item.id, checklist)
+                : undefined
+            }
           />
         </div>
       )}
@@ -188,6 +193,23 @@ export const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
     }
   };
 
+  // Answers recorded later, e.g. after leaving the restaurant, are saved too.
+  const handleChecklistChange = async (historyId: number, checklist: VisitChecklist) => {
+    setError(null);
+    try {
+      await authService.saveVisitChecklist(historyId, checklist);
+      onHistoryUpdate(
+        user.analysisHistory.map((item) =>
+          item.id === historyId ? { ...item, visit_checklist: checklist } : item
+        )
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Could not save your answers.'
+      );
+    }
+  };
+
   const handleUpgrade = async () => {
     setDeletingId(1); // Use deletingId as a generic "isSaving" state
     setError(null);
@@ -256,6 +278,7 @@ export const AnalysisHistoryModal: React.FC<AnalysisHistoryModalProps> = ({
                     item={item}
                     onDelete={handleDelete}
                     deletingId={deletingId}
+                    onChecklistChange={handleChecklistChange}
                   />
                 ))
               ) : (
@@ -1,17 +1,21 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ChatMessage } from '../types';
 import { SendIcon } from './icons/SendIcon';
+import ChatToolCard from './ChatToolCard';
 
 interface ChatInterfaceProps {
     conversation: ChatMessage[];
     onSendMessage: (message: string) => void;
     isLoading: boolean;
+    /** The server no longer has the analysis; the chat can only be restarted by analyzing again. */
+    isExpired?: boolean;
+    onReanalyze?: () => void;
 }
 
 const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
     const isUser = message.role === 'user';
     return (
-        <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+        <div className={`flex flex-col space-y-2 ${isUser ? 'items-end' : 'items-start'}`}>
             <div
                 className={`max-w-xl lg:max-w-2xl px-4 py-2 rounded-xl whitespace-pre-wrap ${
                     isUser
@@ -21,11 +25,14 @@ const ChatBubble: React.FC<{ message: ChatMessage }> = ({ message }) => {
             >
                 {message.content}
             </div>
+            {message.toolCards?.map((card, index) => (
+                <ChatToolCard key={index} card={card} />
+            ))}
         </div>
     );
 };
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onSendMessage, isLoading }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onSendMessage, isLoading, isExpired = false, onReanalyze }) => {
     const [input, setInput] = useState('');
     const chatContainerRef = useRef<HTMLDivElement>(null);
 
@@ -66,25 +73,42 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onSendMessa
                     </div>
                 )}
             </div>
-            <form onSubmit={handleSend} className="flex items-center space-x-3">
-                <input
-                    type="text"
-                    value={input}
-                    onChange={(e) => setInput(e.target.value)}
-                    placeholder="Ask a follow-up question..."
-                    className="flex-grow w-full px-4 py-2 bg-white border border-gray-300 rounded-full shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 placeholder:text-gray-500"
-                    aria-label="Your message"
-                    disabled={isLoading}
-                />
-                <button
-                    type="submit"
-                    disabled={isLoading || !input.trim()}
-                    className="flex-shrink-0 bg-green-600 text-white rounded-full p-3 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-                    aria-label="Send message"
-                >
-                   <SendIcon className="w-5 h-5" />
-                </button>
-            </form>
+            {isExpired ? (
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 bg-amber-50 border border-amber-200 rounded-lg" role="status">
+                    <p className="flex-grow text-sm text-amber-800">
+                        This chat has expired. Analyze the menu again to keep asking about it.
+                    </p>
+                    {onReanalyze && (
+                        <button
+                            type="button"
+                            onClick={onReanalyze}
+                            className="flex-shrink-0 bg-green-600 text-white font-semibold rounded-full px-4 py-2 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
+                        >
+                            Analyze again
+                        </button>
+                    )}
+                </div>
+            ) : (
+                <form onSubmit={handleSend} className="flex items-center space-x-3">
+                    <input
+                        type="text"
+                        value={input}
+                        onChange={(e) => setInput(e.target.value)}
+                        placeholder="Ask a follow-up question..."
+                        className="flex-grow w-full px-4 py-2 bg-white border border-gray-300 rounded-full shadow-sm focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 placeholder:text-gray-500"
+                        aria-label="Your message"
+                        disabled={isLoading}
+                    />
+                    <button
+                        type="submit"
+                        disabled={isLoading || !input.trim()}
+                        className="flex-shrink-0 bg-green-600 text-white rounded-full p-3 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                        aria-label="Send message"
+                    >
+                       <SendIcon className="w-5 h-5" />
+                    </button>
+                </form>
+            )}
         </div>
     );
 };
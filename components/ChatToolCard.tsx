@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { AnalysisResult, ChatToolCard as ChatToolCardData, SafetyLevel } from '../types';
+
+const levelStyles: Record<SafetyLevel, { label: string; className: string }> = {
+    [SafetyLevel.Safe]: { label: 'Safe', className: 'bg-green-100 text-green-800' },
+    [SafetyLevel.Caution]: { label: 'Caution', className: 'bg-yellow-100 text-yellow-800' },
+    [SafetyLevel.Unsafe]: { label: 'Unsafe', className: 'bg-red-100 text-red-800' },
+};
+
+const LevelBadge: React.FC<{ level: SafetyLevel }> = ({ level }) => (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-xs font-semibold ${levelStyles[level].className}`}>
+        {levelStyles[level].label}
+    </span>
+);
+
+// A compact version of the results list, for verdicts a tool looked up.
+const VerdictTable: React.FC<{ results: AnalysisResult[] }> = ({ results }) => (
+    <table className="w-full text-sm">
+        <tbody>
+            {results.map((result, index) => (
+                <tr key={`${result.itemName}-${index}`} className="border-t border-gray-100 first:border-t-0 align-top">
+                    <td className="py-1.5 pr-2 font-medium text-gray-800">{result.itemName}</td>
+                    <td className="py-1.5 pr-2"><LevelBadge level={result.safetyLevel} /></td>
+                    <td className="py-1.5 text-gray-600">
+                        {result.reasoning}
+                        {result.evidence && <span className="block text-xs italic text-gray-500 mt-0.5">"{result.evidence}"</span>}
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const StaffQuestion: React.FC<{ question: string }> = ({ question }) => {
+    const [copyButtonText, setCopyButtonText] = useState('Copy');
+    const handleCopy = () => {
+        navigator.clipboard.writeText(question).then(() => {
+            setCopyButtonText('Copied!');
+            setTimeout(() => setCopyButtonText('Copy'), 2000);
+        });
+    };
+    return (
+        <div className="flex items-start gap-3">
+            <p className="flex-grow text-sm text-gray-800">"{question}"</p>
+            <button onClick={handleCopy} className="flex-shrink-0 text-xs font-semibold text-green-700 hover:text-green-800">
+                {copyButtonText}
+            </button>
+        </div>
+    );
+};
+
+const cardTitle = (card: ChatToolCardData): string => {
+    switch (card.tool) {
+        case 'lookup_verdict': return 'Stored verdict';
+        case 'reclassify_menu': return `What if you avoid: ${card.allergies || 'nothing'}`;
+        case 'safest_in_section': return `Safest in ${card.section}`;
+        case 'draft_staff_question': return `Ask the staff about ${card.itemName}`;
+    }
+};
+
+/** The result of a tool the chat assistant used, shown under its reply. */
+const ChatToolCard: React.FC<{ card: ChatToolCardData }> = ({ card }) => (
+    <div className="max-w-xl lg:max-w-2xl w-full bg-white border border-gray-200 rounded-xl px-4 py-3 shadow-sm">
+        <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">{cardTitle(card)}</p>
+        {(card.tool === 'lookup_verdict' || card.tool === 'safest_in_section') && (
+            card.results.length > 0
+                ? <VerdictTable results={card.results} />
+                : <p className="text-sm text-gray-600">No items were found.</p>
+        )}
+        {card.tool === 'reclassify_menu' && (
+            <>
+                {card.changes.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                        {card.changes.map(change => (
+                            <li key={change.itemName} className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium text-gray-800">{change.itemName}</span>
+                                <LevelBadge level={change.before} />
+                                <span aria-label="changes to" className="text-gray-400">→</span>
+                                <LevelBadge level={change.after} />
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-gray-600">No verdicts change.</p>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                    {Object.values(SafetyLevel).map(level => `${card.results.filter(result => result.safetyLevel === level).length} ${levelStyles[level].label.toLowerCase()}`).join(' · ')}. Your profile and the results above are unchanged.
+                </p>
+            </>
+        )}
+        {card.tool === 'draft_staff_question' && <StaffQuestion question={card.question} />}
+    </div>
+);
+
+export default ChatToolCard;
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { AppUser, ChefCard } from '../types';
+import * as authService from '../services/authService';
+import { buildChefCard, cacheChefCard, chefCardToPdf, chefCardToPng, describeChefCard, renderChefCard } from '../services/chefCard';
+import { hasPhrasebook } from '../services/phrasebook';
+import { OUTPUT_LANGUAGES } from '../services/languages';
+import { XCircleIcon } from './icons/XCircleIcon';
+import Spinner from './Spinner';
+
+interface ChefCardModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    user: AppUser | null;
+    // Language of the analyzed menu, if known; the card starts in it when the phrasebook has it.
+    menuLanguage?: string;
+}
+
+interface RenderedCard {
+    card: ChefCard;
+    pngUrl: string;
+    pdfUrl: string;
+}
+
+// Printed cards are drawn at twice the screen size so they stay sharp on paper.
+const PRINT_SCALE = 2;
+
+/**
+ * Shows the user's allergy card in a chosen language, ready to download as
+ * PNG or PDF or to print. The card is drawn on the device from the profile
+ * and the bundled phrasebook, and the latest one per language is cached for
+ * offline use.
+ */
+const ChefCardModal: React.FC<ChefCardModalProps> = ({ isOpen, onClose, user, menuLanguage }) => {
+    const [language, setLanguage] = useState<string>('en');
+    const [rendered, setRendered] = useState<RenderedCard | null>(null);
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const modalRef = useRef<HTMLDivElement>(null);
+
+    // Start in the menu's language, since the card is for the staff there.
+    useEffect(() => {
+        if (!isOpen) return;
+        setLanguage(hasPhrasebook(menuLanguage) ? menuLanguage : authService.getChefCardProfile(user).outputLanguage);
+    }, [isOpen, menuLanguage, user]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        let cancelled = false;
+        let urls: string[] = [];
+        const draw = async () => {
+            setIsRendering(true);
+            setError(null);
+            try {
+                const profile = authService.getChefCardProfile(user);
+                const card = buildChefCard(profile.allergies, profile.allergySeverities, language);
+                const canvas = renderChefCard(card, PRINT_SCALE);
+                const [png, pdf] = await Promise.all([chefCardToPng(canvas), chefCardToPdf(canvas)]);
+                if (cancelled) return;
+                urls = [URL.createObjectURL(png), URL.createObjectURL(pdf)];
+                setRendered({ card, pngUrl: urls[0], pdfUrl: urls[1] });
+                await cacheChefCard(card.language, png, pdf);
+            } catch (err) {
+                if (!cancelled) setError(err instanceof Error ? err.message : 'Could not create the card.');
+            } finally {
+                if (!cancelled) setIsRendering(false);
+            }
+        };
+        draw();
+        return () => {
+            cancelled = true;
+            urls.forEach(url => URL.revokeObjectURL(url));
+        };
+    }, [isOpen, language, user]);
+
+    // Accessibility: close on Escape and keep focus inside the modal
+    useEffect(() => {
+        if (!isOpen || !modalRef.current) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                onClose();
+                return;
+            }
+            if (e.key !== 'Tab' || !modalRef.current) return;
+            const focusable = modalRef.current.querySelectorAll<HTMLElement>('button, [href], select, [tabindex]:not([tabindex="-1"])');
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            if (e.shiftKey && document.activeElement === first) {
+                last?.focus();
+                e.preventDefault();
+            } else if (!e.shiftKey && document.activeElement === last) {
+                first?.focus();
+                e.preventDefault();
+            }
+        };
+        modalRef.current.querySelector<HTMLElement>('select')?.focus();
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [isOpen, onClose]);
+
+    if (!isOpen) return null;
+
+    const handlePrint = () => {
+        if (rendered) window.open(rendered.pdfUrl, '_blank', 'noopener');
+    };
+
+    const fileName = `allergy-card-${rendered?.card.language || language}`;
+    const hasAllergies = !!rendered && rendered.card.entries.length > 0;
+
+    const modalContent = (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onMouseDown={onClose}>
+            <div
+                ref={modalRef}
+                className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl"
+                onMouseDown={(e) => e.stopPropagation()}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="chef-card-modal-title"
+            >
+                <div className="p-6">
+                    <div className="flex justify-between items-start mb-4">
+                        <div>
+                            <h2 id="chef-card-modal-title" className="text-2xl font-bold text-gray-900">Chef Card</h2>
+                            <p className="text-sm text-gray-500 mt-1">Show or hand this to the staff. It is made from your allergy profile and works offline.</p>
+                        </div>
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close chef card">
+                            <XCircleIcon className="w-7 h-7" />
+                        </button>
+                    </div>
+
+                    <div className="flex items-center justify-between mb-4">
+                        <label htmlFor="chef-card-language" className="text-sm text-gray-600">Card language</label>
+                        <select
+                            id="chef-card-language"
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value)}
+                            className="ml-2 text-sm bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+                        >
+                            {OUTPUT_LANGUAGES.filter(option => hasPhrasebook(option.code)).map(option => (
+                                <option key={option.code} value={option.code}>{option.nativeLabel}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    {error && <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm mb-4">{error}</div>}
+
+                    <div className="max-h-[55vh] overflow-y-auto border border-gray-200 rounded-lg bg-gray-50 flex items-center justify-center min-h-[12rem]">
+                        {isRendering && !rendered ? (
+                            <Spinner className="w-8 h-8 text-green-600" />
+                        ) : rendered && hasAllergies ? (
+                            <img src={rendered.pngUrl} alt={`Allergy card: ${describeChefCard(rendered.card)}`} className="w-full" />
+                        ) : rendered ? (
+                            <p className="text-sm text-gray-600 p-6 text-center">Add your allergies to your profile to make a card.</p>
+                        ) : null}
+                    </div>
+
+                    <div className="mt-4 flex flex-wrap gap-2 justify-end">
+                        <a
+                            href={hasAllergies ? rendered.pngUrl : undefined}
+                            download={`${fileName}.png`}
+                            aria-disabled={!hasAllergies}
+                            className={`px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 ${hasAllergies ? '' : 'opacity-50 pointer-events-none'}`}
+                        >
+                            Download PNG
+                        </a>
+                        <a
+                            href={hasAllergies ? rendered.pdfUrl : undefined}
+                            download={`${fileName}.pdf`}
+                            aria-disabled={!hasAllergies}
+                            className={`px-4 py-2 text-sm font-semibold rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 ${hasAllergies ? '' : 'opacity-50 pointer-events-none'}`}
+                        >
+                            Download PDF
+                        </a>
+                        <button
+                            onClick={handlePrint}
+                            disabled={!hasAllergies}
+                            className="px-4 py-2 text-sm font-semibold rounded-lg bg-green-600 text-white hover:bg-green-700 disabled:bg-gray-300"
+                        >
+                            Print
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+
+    return ReactDOM.createPortal(modalContent, document.body);
+};
+
+export default ChefCardModal;
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { DietProfile, DietRegime } from '../types';
+import { DIET_REGIMES, DIET_TAXONOMY, parseDislikes } from '../services/diets';
+
+interface DietProfileEditorProps {
+    value: DietProfile;
+    onChange: (profile: DietProfile) => void;
+}
+
+/**
+ * A toggle per diet plus a free list of dislikes. Diets are checked apart
+ * from allergies: they can hide items from the results, but never make an
+ * item less safe.
+ */
+const DietProfileEditor: React.FC<DietProfileEditorProps> = ({ value, onChange }) => {
+    // The dislikes are parsed when the field loses focus, so typing a comma does not reformat it.
+    const [dislikesDraft, setDislikesDraft] = useState(value.dislikes.join(', '));
+    useEffect(() => setDislikesDraft(value.dislikes.join(', ')), [value.dislikes]);
+
+    const toggle = (regime: DietRegime) => {
+        const regimes = value.regimes.includes(regime)
+            ? value.regimes.filter(existing => existing !== regime)
+            : DIET_REGIMES.filter(existing => existing === regime || value.regimes.includes(existing));
+        onChange({ ...value, regimes });
+    };
+
+    return (
+        <div className="mt-3">
+            <p className="text-xs text-gray-500 mb-1">Your diets</p>
+            <div className="flex flex-wrap gap-2" role="group" aria-label="Your diets">
+                {DIET_REGIMES.map(regime => {
+                    const isOn = value.regimes.includes(regime);
+                    return (
+                        <button
+                            key={regime}
+                            type="button"
+                            onClick={() => toggle(regime)}
+                            aria-pressed={isOn}
+                            title={DIET_TAXONOMY[regime].rule}
+                            className={`px-3 py-1 text-xs font-medium rounded-full border ${isOn ? 'bg-green-600 text-white border-green-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                        >
+                            {DIET_TAXONOMY[regime].label}
+                        </button>
+                    );
+                })}
+            </div>
+            <label htmlFor="diet-dislikes" className="block text-xs text-gray-500 mt-3 mb-1">Ingredients you would rather avoid</label>
+            <input
+                id="diet-dislikes"
+                type="text"
+                value={dislikesDraft}
+                onChange={(e) => setDislikesDraft(e.target.value)}
+                onBlur={() => onChange({ ...value, dislikes: parseDislikes(dislikesDraft) })}
+                placeholder="e.g. coriander, olives"
+                className="w-full text-sm bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+            />
+        </div>
+    );
+};
+
+export default DietProfileEditor;
@@ -1,15 +1,18 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { CameraIcon } from './icons/CameraIcon';
 import { UploadIcon } from './icons/UploadIcon';
 import { QrCodeIcon } from './icons/QrCodeIcon';
 import { LocationMarkerIcon } from './icons/LocationMarkerIcon';
 import Spinner from './Spinner';
 import { ClipboardIcon } from './icons/ClipboardIcon';
+import { MAX_MENU_PAGES } from '../config';
+import { isPdfFile } from '../services/geminiService';
 
 interface MenuInputProps {
     menuText: string;
     setMenuText: (text: string) => void;
-    setMenuImage: (file: File | null) => void;
+    menuFiles: File[];
+    setMenuFiles: (files: File[]) => void;
     menuUrl: string;
     setMenuUrl: (url: string) => void;
     onScanClick: () => void;
@@ -18,38 +21,82 @@ interface MenuInputProps {
 }
 
 const MenuInput: React.FC<MenuInputProps> = ({ 
-    menuText, setMenuText, setMenuImage, menuUrl, setMenuUrl, onScanClick,
+    menuText, setMenuText, menuFiles, setMenuFiles, menuUrl, setMenuUrl, onScanClick,
     onFindNearbyClick, isFindingNearby
 }) => {
-    const [fileName, setFileName] = useState<string | null>(null);
+    const [pageError, setPageError] = useState<string | null>(null);
+    const [previewUrls, setPreviewUrls] = useState<string[]>([]);
     const [copyButtonText, setCopyButtonText] = useState('Copy');
     const fileUploadRef = useRef<HTMLInputElement>(null);
     const cameraInputRef = useRef<HTMLInputElement>(null);
 
+    // A PDF is always uploaded on its own; the server splits it into pages.
+    const pdfFile = menuFiles.find(isPdfFile);
+
+    // Object URLs for the page thumbnails, released whenever the pages change.
+    useEffect(() => {
+        const urls = menuFiles.map(file => isPdfFile(file) ? '' : URL.createObjectURL(file));
+        setPreviewUrls(urls);
+        return () => urls.forEach(url => url && URL.revokeObjectURL(url));
+    }, [menuFiles]);
+
+    const resetFileInputs = () => {
+        if(fileUploadRef.current) fileUploadRef.current.value = "";
+        if(cameraInputRef.current) cameraInputRef.current.value = "";
+    }
+
+    // New pages are appended, so a multi-page menu can be photographed one page at a time.
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            setMenuImage(file);
-            setFileName(file.name);
-            // Clear other inputs for clarity
+        const files = Array.from(event.target.files || []);
+        resetFileInputs();
+        if (files.length === 0) return;
+
+        const selectedPdf = files.find(isPdfFile);
+        if (selectedPdf) {
+            setPageError(files.length > 1 ? 'A PDF menu is analyzed on its own, so the other selected files were ignored.' : null);
+            setMenuFiles([selectedPdf]);
             setMenuText('');
             setMenuUrl('');
+            return;
+        }
+
+        // Photos replace a previously chosen PDF rather than being added to it.
+        const combined = [...(pdfFile ? [] : menuFiles), ...files];
+        if (combined.length > MAX_MENU_PAGES) {
+            setPageError(`A menu can have at most ${MAX_MENU_PAGES} pages. Only the first ${MAX_MENU_PAGES} were kept.`);
+        } else {
+            setPageError(null);
         }
+        setMenuFiles(combined.slice(0, MAX_MENU_PAGES));
+        // Clear other inputs for clarity
+        setMenuText('');
+        setMenuUrl('');
     };
-    
-    const handleRemoveImage = () => {
-        setMenuImage(null);
-        setFileName(null);
-        if(fileUploadRef.current) fileUploadRef.current.value = "";
-        if(cameraInputRef.current) cameraInputRef.current.value = "";
+
+    const handleMovePage = (index: number, direction: -1 | 1) => {
+        const target = index + direction;
+        if (target < 0 || target >= menuFiles.length) return;
+        const reordered = [...menuFiles];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        setMenuFiles(reordered);
+    };
+
+    const handleRemovePage = (index: number) => {
+        setMenuFiles(menuFiles.filter((_, i) => i !== index));
+        setPageError(null);
+    };
+
+    const handleRemoveAllPages = () => {
+        setMenuFiles([]);
+        setPageError(null);
+        resetFileInputs();
     }
 
     const handleUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         setMenuUrl(e.target.value);
         if (e.target.value) { // Clear other inputs
             setMenuText('');
-            setMenuImage(null);
-            setFileName(null);
+            setMenuFiles([]);
         }
     }
     
@@ -57,8 +104,7 @@ const MenuInput: React.FC<MenuInputProps> = ({
         setMenuText(e.target.value);
          if (e.target.value) { // Clear other inputs
             setMenuUrl('');
-            setMenuImage(null);
-            setFileName(null);
+            setMenuFiles([]);
         }
     }
 
@@ -75,7 +121,7 @@ const MenuInput: React.FC<MenuInputProps> = ({
             <label className="block text-sm font-medium text-gray-700 mb-1">
                 2. Provide the menu
             </label>
-            <p className="text-xs text-gray-500 mb-2">You can use a URL, scan a QR code, paste text, upload an image, or find nearby restaurants.</p>
+            <p className="text-xs text-gray-500 mb-2">You can use a URL, scan a QR code, paste text, upload photos of each page or a PDF, or find nearby restaurants.</p>
             
             <button
                 type="button"
@@ -161,10 +207,10 @@ const MenuInput: React.FC<MenuInputProps> = ({
                         type="button"
                         onClick={() => fileUploadRef.current?.click()}
                         className="flex items-center justify-center w-full px-4 py-3 border border-gray-300 rounded-lg text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-colors"
-                        aria-label="Upload a menu image from your device"
+                        aria-label="Upload menu images or a PDF from your device"
                     >
                         <UploadIcon className="w-5 h-5 mr-2" />
-                        Upload Image
+                        {menuFiles.length > 0 && !pdfFile ? 'Add Images' : 'Upload Images / PDF'}
                     </button>
                     <button
                         type="button"
@@ -173,21 +219,59 @@ const MenuInput: React.FC<MenuInputProps> = ({
                         aria-label="Take a photo of the menu"
                     >
                         <CameraIcon className="w-5 h-5 mr-2" />
-                        Take Photo
+                        {menuFiles.length > 0 && !pdfFile ? 'Photograph Next Page' : 'Take Photo'}
                     </button>
                 </div>
 
-                <input id="file-upload" ref={fileUploadRef} type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleFileChange} />
+                <input id="file-upload" ref={fileUploadRef} type="file" className="hidden" accept="image/png, image/jpeg, image/webp, application/pdf" multiple onChange={handleFileChange} />
                 <input id="camera-capture" ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFileChange} />
 
-                {fileName && (
+                {pageError && (
+                    <p className="text-xs text-red-600">{pageError}</p>
+                )}
+
+                {pdfFile && (
                     <div className="flex items-center justify-between bg-green-50 p-2 rounded-md border border-green-200">
-                        <span className="text-sm text-green-800 truncate">{fileName}</span>
-                        <button onClick={handleRemoveImage} className="text-red-600 hover:text-red-800 text-sm font-semibold flex-shrink-0 ml-2">
+                        <span className="text-sm text-green-800 truncate">PDF: {pdfFile.name}</span>
+                        <button onClick={handleRemoveAllPages} className="text-red-600 hover:text-red-800 text-sm font-semibold flex-shrink-0 ml-2">
                             Remove
                         </button>
                     </div>
                 )}
+
+                {menuFiles.length > 0 && !pdfFile && (
+                    <div className="bg-green-50 p-2 rounded-md border border-green-200">
+                        <div className="flex items-center justify-between mb-2">
+                            <span className="text-sm text-green-800">
+                                {menuFiles.length === 1 ? '1 page' : `${menuFiles.length} pages`} (max {MAX_MENU_PAGES}) — analyzed in this order
+                            </span>
+                            <button onClick={handleRemoveAllPages} className="text-red-600 hover:text-red-800 text-sm font-semibold flex-shrink-0 ml-2">
+                                Remove all
+                            </button>
+                        </div>
+                        <ol className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+                            {menuFiles.map((file, index) => (
+                                <li key={`${file.name}-${index}`} className="relative bg-white border border-gray-200 rounded-md overflow-hidden">
+                                    {previewUrls[index] && (
+                                        <img src={previewUrls[index]} alt={`Menu page ${index + 1}`} className="w-full h-20 object-cover" />
+                                    )}
+                                    <span className="absolute top-1 left-1 px-1.5 text-xs font-semibold text-white bg-black/60 rounded">{index + 1}</span>
+                                    <div className="flex items-center justify-between px-1 py-0.5 text-xs">
+                                        <button type="button" onClick={() => handleMovePage(index, -1)} disabled={index === 0} className="px-1 text-gray-600 hover:text-gray-900 disabled:opacity-30" aria-label={`Move page ${index + 1} earlier`}>
+                                            &larr;
+                                        </button>
+                                        <button type="button" onClick={() => handleRemovePage(index)} className="px-1 text-red-600 hover:text-red-800" aria-label={`Remove page ${index + 1}`}>
+                                            &times;
+                                        </button>
+                                        <button type="button" onClick={() => handleMovePage(index, 1)} disabled={index === menuFiles.length - 1} className="px-1 text-gray-600 hover:text-gray-900 disabled:opacity-30" aria-label={`Move page ${index + 1} later`}>
+                                            &rarr;
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    </div>
+                )}
             </div>
         </div>
     );
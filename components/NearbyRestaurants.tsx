@@ -9,6 +9,8 @@ interface NearbyRestaurantsProps {
     error: string | null;
     restaurants: Restaurant[] | null;
     onSelectRestaurant: (restaurant: Restaurant) => void;
+    // Shown as a "Try again" button when the error may pass, e.g. the Places API timed out.
+    onRetry?: () => void;
 }
 
 const RestaurantCard: React.FC<{ restaurant: Restaurant, onSelect: () => void }> = ({ restaurant, onSelect }) => {
@@ -51,7 +53,7 @@ const RestaurantCard: React.FC<{ restaurant: Restaurant, onSelect: () => void }>
     )
 }
 
-const NearbyRestaurants: React.FC<NearbyRestaurantsProps> = ({ isLoading, error, restaurants, onSelectRestaurant }) => {
+const NearbyRestaurants: React.FC<NearbyRestaurantsProps> = ({ isLoading, error, restaurants, onSelectRestaurant, onRetry }) => {
     if (isLoading) {
         return (
             <div className="text-center p-8">
@@ -68,6 +70,11 @@ const NearbyRestaurants: React.FC<NearbyRestaurantsProps> = ({ isLoading, error,
             <div className="mt-6 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg" role="alert">
                 <strong className="font-bold">Location Error: </strong>
                 <span>{error}</span>
+                {onRetry && (
+                    <button onClick={onRetry} className="ml-2 font-semibold underline hover:text-red-900">
+                        Try again
+                    </button>
+                )}
             </div>
         );
     }
@@ -0,0 +1,29 @@
+import React from 'react';
+import { OUTPUT_LANGUAGES } from '../services/languages';
+
+interface OutputLanguageSelectProps {
+    value: string;
+    onChange: (language: string) => void;
+}
+
+/**
+ * Picks the language results are written in. Item names are translated into
+ * it, while the name printed on the menu is kept alongside.
+ */
+const OutputLanguageSelect: React.FC<OutputLanguageSelectProps> = ({ value, onChange }) => (
+    <div className="mt-3 flex items-center justify-between">
+        <label htmlFor="output-language" className="text-xs text-gray-500">Show results in</label>
+        <select
+            id="output-language"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="ml-2 text-sm bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+        >
+            {OUTPUT_LANGUAGES.map(language => (
+                <option key={language.code} value={language.code}>{language.nativeLabel}</option>
+            ))}
+        </select>
+    </div>
+);
+
+export default OutputLanguageSelect;
@@ -1,10 +1,18 @@
 import React, { useState } from 'react';
 import authService from '../services/authService';
+import { AllergySeverities, DietProfile } from '../types';
+import AllergySeverityEditor from './AllergySeverityEditor';
+import OutputLanguageSelect from './OutputLanguageSelect';
+import DietProfileEditor from './DietProfileEditor';
+import { DEFAULT_OUTPUT_LANGUAGE } from '../services/languages';
+import { EMPTY_DIET_PROFILE } from '../services/diets';
 
 type User = {
   username: string;
   allergies: string;
-  preferences?: string;
+  allergySeverities?: AllergySeverities;
+  outputLanguage?: string;
+  dietProfile?: DietProfile;
 };
 
 type ProfileSettingsProps = {
@@ -17,7 +25,9 @@ type ProfileSettingsProps = {
 const ProfileSettings: React.FC<ProfileSettingsProps> = ({ isOpen, onClose, user, onUserUpdate }) => {
   const [username, setUsername] = useState(user.username || '');
   const [allergies, setAllergies] = useState(user.allergies || '');
-  const [preferences, setPreferences] = useState(user.preferences || '');
+  const [allergySeverities, setAllergySeverities] = useState<AllergySeverities>(user.allergySeverities || {});
+  const [outputLanguage, setOutputLanguage] = useState(user.outputLanguage || DEFAULT_OUTPUT_LANGUAGE);
+  const [dietProfile, setDietProfile] = useState<DietProfile>(user.dietProfile || EMPTY_DIET_PROFILE);
   const [error, setError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -29,7 +39,7 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ isOpen, onClose, user
     setError(null);
     setIsSaving(true);
     try {
-      const updatedUser = await authService.updateUser({ username, allergies, preferences });
+      const updatedUser = await authService.updateUser({ username, allergies, allergySeverities, outputLanguage, dietProfile });
       onUserUpdate(updatedUser);
       onClose();
     } catch (err) {
@@ -43,6 +53,13 @@ const ProfileSettings: React.FC<ProfileSettingsProps> = ({ isOpen, onClose, user
 
   return (
     <div>
+      <AllergySeverityEditor
+        allergies={allergies}
+        severities={allergySeverities}
+        onChange={setAllergySeverities}
+      />
+      <OutputLanguageSelect value={outputLanguage} onChange={setOutputLanguage} />
+      <DietProfileEditor value={dietProfile} onChange={setDietProfile} />
       {error && <p style={{ color: 'red' }}>{error}</p>}
       <button onClick={handleSave} disabled={isSaving}>
         {isSaving ? 'Saving...' : 'Save'}
@@ -1,6 +1,10 @@
-import React, { useState } from 'react';
-import { AnalysisResult, SafetyLevel, GroundingSource, AnalysisInputType } from '../types';
-import { findSafeAlternative } from '../services/geminiService';
+import React, { useEffect, useState } from 'react';
+import { AnalysisResult, SafetyLevel, GroundingSource, AnalysisInputType, CrossContactSource, InjectionKind, IntegrityIssue, KitchenRiskNote, MenuDocument, SaferAlternative, SecurityWarning, VisitChecklist } from '../types';
+import { findSafeAlternatives, generateStaffQuestions } from '../services/geminiService';
+import { normalizeAllergenList, getAllergenLabel } from '../services/allergens';
+import { getLanguageName } from '../services/languages';
+import { ChecklistEntryChange, createVisitChecklist, entriesForItem, getVisitSafetyLevel, updateChecklistEntry } from '../services/visitChecklist';
+import { fitsAllDiets, getDietLabel } from '../services/diets';
 import { LeafIcon } from './icons/LeafIcon';
 import { WarningIcon } from './icons/WarningIcon';
 import { DangerIcon } from './icons/DangerIcon';
@@ -9,6 +13,7 @@ import { SparkleIcon } from './icons/SparkleIcon';
 import { LinkIcon } from './icons/LinkIcon';
 import { LightbulbIcon } from './icons/LightbulbIcon';
 import Spinner from './Spinner';
+import StaffQuestionList from './StaffQuestionList';
 
 const safetyConfig = {
     [SafetyLevel.Safe]: {
@@ -37,65 +42,219 @@ const safetyConfig = {
     }
 };
 
+// Neutral styling for groups that are menu sections rather than safety levels.
+const sectionGroupConfig: typeof safetyConfig[SafetyLevel] = {
+    ...safetyConfig[SafetyLevel.Safe],
+    bgColor: 'bg-gray-50',
+    borderColor: 'border-gray-200',
+    textColor: 'text-gray-800',
+    titleColor: 'text-gray-700',
+    title: 'Section',
+};
+
+const UNSECTIONED_GROUP = 'Other Items';
+
+// Headings of the groups in the "By Safety" view.
+const groupTitles: Record<SafetyLevel, string> = {
+    [SafetyLevel.Unsafe]: 'Unsafe Items',
+    [SafetyLevel.Caution]: 'Caution Advised',
+    [SafetyLevel.Safe]: 'Safe Items',
+};
+
+type GroupBy = 'safety' | 'section';
+
+const crossContactLabels: Record<CrossContactSource, string> = {
+    shared_fryer: 'Shared fryer',
+    shared_grill: 'Shared grill',
+    shared_surface: 'Shared surface',
+    shared_utensils: 'Shared utensils',
+    airborne_flour: 'Airborne flour',
+    facility: 'Facility warning',
+    other: 'Preparation risk',
+};
+
+// Verdicts below this confidence are flagged so users double-check them with staff.
+const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// A "Safe Swap" request for one flagged item; `alternative` is null when nothing on the menu is safer.
+type SwapState =
+    | { status: 'loading' }
+    | { status: 'done'; alternative: SaferAlternative | null }
+    | { status: 'error'; message: string };
+
+const isFlagged = (level: SafetyLevel) => level === SafetyLevel.Unsafe || level === SafetyLevel.Caution;
+
+// Loading or failing to write the staff questions; once written they live in the checklist.
+type QuestionsState = { status: 'idle' } | { status: 'loading' } | { status: 'error'; message: string };
+
+const SwapSuggestion: React.FC<{ alternative: SaferAlternative | null }> = ({ alternative }) => {
+    if (!alternative) {
+        return (
+            <div className="mt-3 p-3 bg-gray-50 rounded-md border border-gray-200 text-sm text-gray-700">
+                <p>Nothing on this menu is safer for you. Ask the staff whether this dish can be changed.</p>
+            </div>
+        );
+    }
+    const level = safetyConfig[alternative.safetyLevel];
+    return (
+        <div className="mt-3 p-3 bg-blue-50/70 rounded-md border border-blue-200 text-sm text-blue-800">
+            <p>
+                <span className='font-bold'>Try instead:</span> {alternative.itemName}{' '}
+                <span className={`text-xs font-semibold ${level.titleColor}`}>({level.title})</span>
+            </p>
+            <p className="mt-1">{alternative.reason}</p>
+            {alternative.modifications.length > 0 && (
+                <>
+                    <p className="mt-2 text-xs font-bold">When ordering, ask for:</p>
+                    <ul className="mt-1 list-disc list-inside text-xs">
+                        {alternative.modifications.map((modification, index) => <li key={index}>{modification}</li>)}
+                    </ul>
+                </>
+            )}
+        </div>
+    );
+};
+
 const ResultItem: React.FC<{ 
     item: AnalysisResult,
-    menuContext: { text: string; url: string } | null,
-    currentAllergies: string,
-    currentPreferences: string,
-    safeItems: string[],
-}> = ({ item, menuContext, currentAllergies, currentPreferences, safeItems }) => {
-    const config = safetyConfig[item.safetyLevel] || safetyConfig[SafetyLevel.Caution];
-    const [isSuggesting, setIsSuggesting] = useState(false);
-    const [suggestion, setSuggestion] = useState<string | null>(null);
-    const [suggestionError, setSuggestionError] = useState<string | null>(null);
-
-    const handleSuggestAlternative = async () => {
-        if (!menuContext) return;
-        setIsSuggesting(true);
-        setSuggestion(null);
-        setSuggestionError(null);
-
-        try {
-            const result = await findSafeAlternative(
-                currentAllergies, 
-                currentPreferences, 
-                item.itemName,
-                menuContext,
-                safeItems
-            );
-            setSuggestion(result);
-        } catch (err) {
-            setSuggestionError(err instanceof Error ? err.message : "Could not fetch a suggestion.");
-        } finally {
-            setIsSuggesting(false);
-        }
-    };
+    menuLanguage?: string,
+    swap?: SwapState,
+    // Missing when swaps are unavailable, e.g. for history entries.
+    onSuggestSwap?: () => void,
+    checklist?: VisitChecklist | null,
+    onChecklistChange?: (id: string, change: ChecklistEntryChange) => void,
+}> = ({ item, menuLanguage, swap, onSuggestSwap, checklist, onChecklistChange }) => {
+    // The staff's answers on this visit may have settled a caution verdict.
+    const visitLevel = getVisitSafetyLevel(item, checklist);
+    const questions = entriesForItem(checklist, item.itemName);
+    const config = safetyConfig[visitLevel] || safetyConfig[SafetyLevel.Caution];
+    const isSuggesting = swap?.status === 'loading';
+    // History entries saved before the taxonomy existed may still hold free-text allergens.
+    const allergenCodes = normalizeAllergenList(item.identifiedAllergens || []);
+    const isLowConfidence = item.confidence !== undefined && item.confidence < LOW_CONFIDENCE_THRESHOLD;
+    // Shown so the user can point at the printed name when ordering.
+    const showOriginalName = !!item.originalItemName && item.originalItemName.trim().toLowerCase() !== item.itemName.trim().toLowerCase();
+    const isInferred = (code: string) =>
+        item.allergenEvidence?.find(entry => entry.allergen === code)?.basis === 'inferred';
 
 
     return (
-        <div className={`p-4 rounded-lg border ${config.bgColor} ${config.borderColor}`}>
+        <div className={`p-4 rounded-lg ${isLowConfidence ? 'border-2 border-dashed' : 'border'} ${config.bgColor} ${config.borderColor}`}>
             <div className="flex items-start">
                 <config.Icon className={`w-6 h-6 mr-3 flex-shrink-0 ${config.titleColor}`} />
                 <div className="flex-grow">
                     <h4 className={`font-bold text-lg ${config.titleColor}`}>{item.itemName}</h4>
-                    <p className={`mt-1 text-sm font-semibold ${config.textColor}`}>{config.title}</p>
+                    {showOriginalName && (
+                        <p className="text-base text-gray-700" lang={menuLanguage}>
+                            <span className="sr-only">On the menu as </span>{item.originalItemName}
+                        </p>
+                    )}
+                    <p className={`mt-1 text-sm font-semibold ${config.textColor}`}>
+                        {config.title}
+                        {visitLevel !== item.safetyLevel && (
+                            <span className="ml-2 text-xs font-medium text-gray-600">
+                                from the staff's answers (analyzed as {safetyConfig[item.safetyLevel].title})
+                            </span>
+                        )}
+                        {item.confidence !== undefined && (
+                            <span
+                                className={`ml-2 px-2 py-0.5 text-xs font-medium rounded-full ${isLowConfidence ? 'bg-gray-800 text-white' : 'bg-white/80 text-gray-600 border border-gray-200'}`}
+                                title="How sure the AI is of this verdict"
+                            >
+                                {isLowConfidence ? 'Low confidence' : 'Confidence'} {Math.round(item.confidence * 100)}%
+                            </span>
+                        )}
+                    </p>
                     <p className={`mt-2 text-sm ${config.textColor}`}>{item.reasoning}</p>
-                    {item.identifiedAllergens && item.identifiedAllergens.length > 0 && (
+                    {item.evidence && (
+                        <blockquote className="mt-2 pl-3 border-l-4 border-gray-300 text-sm italic text-gray-600 whitespace-pre-line">
+                            “{item.evidence}”
+                            <span className="block mt-0.5 text-xs not-italic text-gray-400">From the menu</span>
+                        </blockquote>
+                    )}
+                    {isLowConfidence && (
+                        <p className={`mt-2 text-xs font-semibold ${config.textColor}`}>
+                            The menu does not say enough to be sure. Please confirm the ingredients with staff.
+                        </p>
+                    )}
+                    {item.ruleOverride && (
+                        <div className="mt-2 p-2 rounded-md bg-white/70 border border-orange-300 text-xs text-orange-800">
+                            <p className="font-bold">AI and safety rules disagree</p>
+                            <p className="mt-1">
+                                The AI rated this item {safetyConfig[item.ruleOverride.originalSafetyLevel]?.title ?? item.ruleOverride.originalSafetyLevel},
+                                but our keyword check found{' '}
+                                {item.ruleOverride.matches.map(match => `"${match.keyword}" (${getAllergenLabel(match.allergen)})`).join(', ')}.
+                            </p>
+                        </div>
+                    )}
+                    {item.integrityOverride && (
+                        <div className="mt-2 p-2 rounded-md bg-white/70 border border-orange-300 text-xs text-orange-800">
+                            <p className="font-bold">"Safe" verdict not trusted</p>
+                            <p className="mt-1">{INTEGRITY_ISSUE_TEXT[item.integrityOverride.issue]}</p>
+                        </div>
+                    )}
+                    {allergenCodes.length > 0 && (
                         <div className="mt-2">
                             <p className={`text-xs font-bold ${config.textColor}`}>Potential Allergens Identified:</p>
                             <div className="flex flex-wrap gap-2 mt-1">
-                                {item.identifiedAllergens.map((allergen, index) => (
-                                    <span key={index} className="px-2 py-1 text-xs font-medium bg-white border border-gray-300 rounded-full text-gray-700">
-                                        {allergen}
+                                {allergenCodes.map(code => (
+                                    <span
+                                        key={code}
+                                        className={`px-2 py-1 text-xs font-medium bg-white rounded-full text-gray-700 border ${isInferred(code) ? 'border-dashed border-gray-400' : 'border-gray-300'}`}
+                                        title={isInferred(code) ? 'Inferred from the usual recipe' : 'Stated on the menu'}
+                                    >
+                                        {getAllergenLabel(code)}
+                                        {isInferred(code) && <span className="ml-1 text-gray-400">(likely)</span>}
                                     </span>
                                 ))}
                             </div>
                         </div>
                     )}
-                     {(item.safetyLevel === SafetyLevel.Unsafe || item.safetyLevel === SafetyLevel.Caution) && menuContext && (menuContext.text || menuContext.url) && (
+                    {item.crossContact && item.crossContact.length > 0 && (
+                        <div className="mt-3">
+                            <p className={`text-xs font-bold ${config.textColor}`}>Cross-Contact Risks:</p>
+                            <ul className="mt-1 space-y-1">
+                                {item.crossContact.map((risk, index) => (
+                                    <li key={index} className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                                        <span className="px-2 py-0.5 font-semibold bg-white border border-purple-300 text-purple-800 rounded-full">
+                                            {crossContactLabels[risk.source] || crossContactLabels.other}
+                                        </span>
+                                        <span className="uppercase tracking-wide text-gray-500">{risk.likelihood} likelihood</span>
+                                        <span>
+                                            {risk.note}
+                                            {risk.allergens.length > 0 && ` (${risk.allergens.map(getAllergenLabel).join(', ')})`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {item.dietConflicts && item.dietConflicts.length > 0 && (
+                        <div className="mt-3">
+                            <p className={`text-xs font-bold ${config.textColor}`}>Doesn't Fit Your Diets:</p>
+                            <ul className="mt-1 space-y-1">
+                                {item.dietConflicts.map((conflict, index) => (
+                                    <li key={index} className="flex flex-wrap items-center gap-2 text-xs text-gray-700">
+                                        <span className="px-2 py-0.5 font-semibold bg-white border border-teal-300 text-teal-800 rounded-full">
+                                            {conflict.diet === 'dislike' ? `You dislike ${conflict.term}` : getDietLabel(conflict.diet)}
+                                        </span>
+                                        <span>{conflict.reason}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    {questions.length > 0 && onChecklistChange && (
+                        <div className="mt-3 p-3 bg-white/70 rounded-md border border-gray-200">
+                            <p className={`text-xs font-bold mb-2 ${config.textColor}`}>Ask your server:</p>
+                            <StaffQuestionList entries={questions} onChange={onChecklistChange} />
+                        </div>
+                    )}
+                     {isFlagged(visitLevel) && (onSuggestSwap || swap) && (
                         <div className="mt-4 pt-3 border-t border-dashed" style={{ borderColor: 'rgba(0,0,0,0.1)' }}>
+                           {swap?.status !== 'done' && onSuggestSwap && (
                            <button 
-                                onClick={handleSuggestAlternative}
+                                onClick={onSuggestSwap}
                                 disabled={isSuggesting}
                                 className={`flex items-center justify-center w-full sm:w-auto px-3 py-2 text-sm font-semibold rounded-md transition-colors duration-200 ${
                                     isSuggesting 
@@ -115,14 +274,11 @@ const ResultItem: React.FC<{
                                     </>
                                 )}
                             </button>
-                             {suggestion && (
-                                <div className="mt-3 p-3 bg-blue-50/70 rounded-md border border-blue-200 text-sm text-blue-800">
-                                    <p><span className='font-bold'>Suggestion:</span> {suggestion}</p>
-                                </div>
-                            )}
-                            {suggestionError && (
+                           )}
+                            {swap?.status === 'done' && <SwapSuggestion alternative={swap.alternative} />}
+                            {swap?.status === 'error' && (
                                 <div className="mt-3 p-3 bg-red-50/70 rounded-md border border-red-200 text-sm text-red-800">
-                                    <p><span className='font-bold'>Sorry:</span> {suggestionError}</p>
+                                    <p><span className='font-bold'>Sorry:</span> {swap.message}</p>
                                 </div>
                             )}
                         </div>
@@ -139,11 +295,12 @@ const CollapsibleSection: React.FC<{
     items: AnalysisResult[];
     config: typeof safetyConfig[SafetyLevel];
     defaultOpen?: boolean;
-    menuContext: { text: string; url: string } | null;
-    currentAllergies: string;
-    currentPreferences: string;
-    safeItems: string[];
-}> = ({ title, items, config, defaultOpen = false, menuContext, currentAllergies, currentPreferences, safeItems }) => {
+    menuLanguage?: string;
+    swaps: Record<string, SwapState>;
+    onSuggestSwaps?: (itemNames: string[]) => void;
+    checklist?: VisitChecklist | null;
+    onChecklistChange?: (id: string, change: ChecklistEntryChange) => void;
+}> = ({ title, items, config, defaultOpen = false, menuLanguage, swaps, onSuggestSwaps, checklist, onChecklistChange }) => {
     const [isOpen, setIsOpen] = useState(defaultOpen);
 
     if (items.length === 0) return null;
@@ -164,10 +321,11 @@ const CollapsibleSection: React.FC<{
                         <ResultItem 
                             key={index} 
                             item={item} 
-                            menuContext={menuContext}
-                            currentAllergies={currentAllergies}
-                            currentPreferences={currentPreferences}
-                            safeItems={safeItems}
+                            menuLanguage={menuLanguage}
+                            swap={swaps[item.itemName]}
+                            onSuggestSwap={onSuggestSwaps && (() => onSuggestSwaps([item.itemName]))}
+                            checklist={checklist}
+                            onChecklistChange={onChecklistChange}
                         />
                     ))}
                 </div>
@@ -188,6 +346,124 @@ const AnalysisSummary: React.FC<{ summary: string }> = ({ summary }) => (
     </div>
 );
 
+const INTEGRITY_ISSUE_TEXT: Record<IntegrityIssue, string> = {
+    instructions_in_item: "The menu text for this item contains instructions aimed at the AI, so we could not trust its rating.",
+    item_not_on_menu: "The AI rated an item we could not find on the menu.",
+    evidence_not_on_menu: "The AI quoted text that is not on the menu to call this item safe.",
+};
+
+const SECURITY_WARNING_TEXT: Record<InjectionKind, string> = {
+    override_instructions: 'Tells the AI to ignore its instructions',
+    verdict_manipulation: 'Tries to dictate which dishes are called safe',
+    role_play: 'Addresses the AI directly',
+    prompt_markup: 'Imitates system or assistant messages',
+    hidden_text: 'Contains invisible characters that can hide text',
+};
+
+const SecurityWarningsNotice: React.FC<{ warnings: SecurityWarning[] }> = ({ warnings }) => (
+    <div className="p-4 rounded-lg bg-red-50 border border-red-300" role="alert">
+        <div className="flex items-start">
+            <WarningIcon className="w-6 h-6 mr-3 mt-1 flex-shrink-0 text-red-500" />
+            <div className="flex-grow">
+                <h4 className="font-bold text-lg text-red-700">Suspicious text in this menu</h4>
+                <p className="mt-1 text-sm text-red-800">
+                    Parts of this menu look like instructions to the AI rather than descriptions of food. They were ignored and affected
+                    items were not rated safe, but treat these results with extra care and confirm every dish with staff.
+                </p>
+                <ul className="mt-2 space-y-2 text-sm text-red-800">
+                    {warnings.map((warning, index) => (
+                        <li key={index}>
+                            <p>
+                                {SECURITY_WARNING_TEXT[warning.kind]}
+                                {warning.itemName && ` (in "${warning.itemName}")`}
+                            </p>
+                            <p className="mt-0.5 italic text-red-600">“{warning.excerpt}”</p>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    </div>
+);
+
+const KitchenRisksNotice: React.FC<{ risks: KitchenRiskNote[] }> = ({ risks }) => (
+    <div className="p-4 rounded-lg bg-purple-50 border border-purple-200">
+        <div className="flex items-start">
+            <WarningIcon className="w-6 h-6 mr-3 mt-1 flex-shrink-0 text-purple-500" />
+            <div className="flex-grow">
+                <h4 className="font-bold text-lg text-purple-700">Kitchen Risk</h4>
+                <ul className="mt-2 space-y-2 text-sm text-purple-800">
+                    {risks.map((risk, index) => (
+                        <li key={index}>
+                            <p>
+                                {risk.note}
+                                {risk.allergens.length > 0 && ` (${risk.allergens.map(getAllergenLabel).join(', ')})`}
+                            </p>
+                            {risk.quote && <p className="mt-0.5 italic text-purple-600">“{risk.quote}”</p>}
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    </div>
+);
+
+/**
+ * Live progress while results stream in: how many items are classified so far,
+ * the running count per safety level, and a cancel button. After a cancel it
+ * stays visible to say the list is incomplete.
+ */
+const AnalysisProgressBar: React.FC<{
+    progress: { classified: number; total: number };
+    results: AnalysisResult[];
+    isStreaming: boolean;
+    onCancel?: () => void;
+}> = ({ progress, results, isStreaming, onCancel }) => {
+    const count = (level: SafetyLevel) => results.filter(r => r.safetyLevel === level).length;
+    const percent = progress.total > 0 ? Math.min(100, Math.round((progress.classified / progress.total) * 100)) : 0;
+
+    return (
+        <div className={`p-4 rounded-lg border ${isStreaming ? 'bg-gray-50 border-gray-200' : 'bg-yellow-50 border-yellow-300'}`} aria-live="polite">
+            <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-semibold text-gray-700">
+                    {isStreaming
+                        ? `Checking items… ${progress.classified} of ${progress.total}`
+                        : `Analysis cancelled after ${progress.classified} of ${progress.total} items. Items not listed were not checked.`}
+                </p>
+                {isStreaming && onCancel && (
+                    <button onClick={onCancel} className="text-sm font-semibold text-red-600 hover:text-red-800">
+                        Cancel
+                    </button>
+                )}
+            </div>
+            {isStreaming && (
+                <div className="mt-2 h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                    <div className="h-full bg-green-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+                </div>
+            )}
+            <div className="mt-2 flex flex-wrap gap-3 text-xs font-medium">
+                <span className="text-red-700">{count(SafetyLevel.Unsafe)} unsafe</span>
+                <span className="text-yellow-700">{count(SafetyLevel.Caution)} caution</span>
+                <span className="text-green-700">{count(SafetyLevel.Safe)} safe</span>
+            </div>
+        </div>
+    );
+};
+
+const CachedResultNotice: React.FC<{ cachedAt: string; onReanalyze?: () => void }> = ({ cachedAt, onReanalyze }) => (
+    <div className="flex flex-wrap items-center justify-between gap-2 p-3 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-800">
+        <p>
+            You analyzed this menu with the same allergies on {new Date(cachedAt).toLocaleDateString()}, so these saved results were used.
+            They did not count toward your monthly limit.
+        </p>
+        {onReanalyze && (
+            <button onClick={onReanalyze} className="font-semibold text-blue-700 hover:text-blue-900 whitespace-nowrap">
+                Re-analyze anyway
+            </button>
+        )}
+    </div>
+);
+
 const GroundingSourcesDisplay: React.FC<{ sources: GroundingSource[] }> = ({ sources }) => (
     <div className="mt-6 pt-4 border-t border-gray-200">
         <h4 className="text-sm font-semibold text-gray-600">Information Sourced From:</h4>
@@ -204,24 +480,144 @@ const GroundingSourcesDisplay: React.FC<{ sources: GroundingSource[] }> = ({ sou
     </div>
 );
 
+/**
+ * The staff-question checklist: a button to write the questions, then how
+ * many were asked and the questions about the kitchen as a whole. Questions
+ * about single items are shown with those items.
+ */
+const StaffQuestionsPanel: React.FC<{
+    checklist: VisitChecklist | null;
+    state: QuestionsState;
+    onGenerate?: () => void;
+    onChange?: (id: string, change: ChecklistEntryChange) => void;
+}> = ({ checklist, state, onGenerate, onChange }) => {
+    const menuQuestions = entriesForItem(checklist, null);
+    const asked = checklist?.entries.filter(entry => entry.asked).length ?? 0;
+    return (
+        <div className="p-4 rounded-lg bg-white border border-gray-200">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="font-bold text-gray-800">Questions to ask your server</p>
+                {checklist && <p className="text-xs text-gray-500">{asked} of {checklist.entries.length} asked</p>}
+            </div>
+            {!checklist && onGenerate && (
+                <>
+                    <p className="mt-1 text-sm text-gray-600">Get specific questions for each caution item. Tick them off at the table and note what the staff say; their answers update the items below for this visit.</p>
+                    <button
+                        onClick={onGenerate}
+                        disabled={state.status === 'loading'}
+                        className="mt-3 flex items-center justify-center w-full sm:w-auto px-3 py-2 text-sm font-semibold rounded-md bg-white text-blue-600 border border-blue-300 hover:bg-blue-50 disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {state.status === 'loading' ? (
+                            <>
+                                <Spinner className="-ml-1 mr-2 h-4 w-4 text-blue-600" />
+                                Writing questions...
+                            </>
+                        ) : 'Write questions for the caution items'}
+                    </button>
+                </>
+            )}
+            {state.status === 'error' && <p className="mt-2 text-sm text-red-700">{state.message}</p>}
+            {checklist && menuQuestions.length > 0 && (
+                <div className="mt-3">
+                    <p className="text-xs font-bold text-gray-600 mb-2">About the kitchen:</p>
+                    {onChange ? (
+                        <StaffQuestionList entries={menuQuestions} onChange={onChange} />
+                    ) : (
+                        <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                            {menuQuestions.map(entry => <li key={entry.id}>{entry.question}{entry.note && <span className="text-gray-500"> — {entry.note}</span>}</li>)}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
 
 interface ResultsDisplayProps {
     results: AnalysisResult[];
+    menu?: MenuDocument | null;
+    kitchenRisks?: KitchenRiskNote[];
     analysisSummary?: string | null;
     searchGroundingSources?: GroundingSource[] | null;
-    menuContext: { text: string; url: string } | null;
-    currentAllergies: string;
-    currentPreferences: string;
+    // The stored analysis "Safe Swap" suggestions come from; without it they are not offered.
+    analysisId?: string | null;
     analysisInputType: AnalysisInputType;
+    // Set while results are streaming in, and after a cancelled stream.
+    progress?: { classified: number; total: number } | null;
+    isStreaming?: boolean;
+    onCancel?: () => void;
+    // Set when the results came from the analysis cache.
+    cachedAt?: string | null;
+    onReanalyze?: () => void;
+    // Instruction-like text found in the menu source.
+    securityWarnings?: SecurityWarning[];
+    // Staff questions and answers for this visit, e.g. from a history entry.
+    checklist?: VisitChecklist | null;
+    // Called on every change to the checklist, to save it; without it the checklist is read-only.
+    onChecklistChange?: (checklist: VisitChecklist) => void;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, analysisSummary, searchGroundingSources, menuContext, currentAllergies, currentPreferences, analysisInputType }) => {
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, menu, kitchenRisks = [], analysisSummary, searchGroundingSources, analysisId, analysisInputType, progress, isStreaming = false, onCancel, cachedAt, onReanalyze, securityWarnings = [], checklist: savedChecklist = null, onChecklistChange }) => {
+    const [groupBy, setGroupBy] = useState<GroupBy>('safety');
+    const [swaps, setSwaps] = useState<Record<string, SwapState>>({});
+    const [checklist, setChecklist] = useState<VisitChecklist | null>(savedChecklist);
+    const [questionsState, setQuestionsState] = useState<QuestionsState>({ status: 'idle' });
+    const [fitsDietsOnly, setFitsDietsOnly] = useState(false);
+
+    useEffect(() => {
+        setSwaps({});
+        setChecklist(savedChecklist);
+        setQuestionsState({ status: 'idle' });
+    }, [analysisId]);
+
+    const changeChecklist = (next: VisitChecklist) => {
+        setChecklist(next);
+        onChecklistChange?.(next);
+    };
+    const handleChecklistEntryChange = onChecklistChange
+        ? (id: string, change: ChecklistEntryChange) => checklist && changeChecklist(updateChecklistEntry(checklist, id, change))
+        : undefined;
+
+    const handleGenerateQuestions = async () => {
+        if (!analysisId) return;
+        setQuestionsState({ status: 'loading' });
+        try {
+            changeChecklist(createVisitChecklist(await generateStaffQuestions(analysisId)));
+            setQuestionsState({ status: 'idle' });
+        } catch (err) {
+            setQuestionsState({ status: 'error', message: err instanceof Error ? err.message : "Could not write the questions." });
+        }
+    };
+
+    const setSwapStates = (itemNames: string[], state: (itemName: string) => SwapState) =>
+        setSwaps(prev => ({ ...prev, ...Object.fromEntries(itemNames.map(name => [name, state(name)])) }));
+
+    // One call for any number of items, so "all flagged items" costs the same as one.
+    const handleSuggestSwaps = async (itemNames: string[]) => {
+        if (!analysisId || itemNames.length === 0) return;
+        setSwapStates(itemNames, () => ({ status: 'loading' }));
+        try {
+            const { alternatives } = await findSafeAlternatives(analysisId, itemNames);
+            setSwapStates(itemNames, name => ({ status: 'done', alternative: alternatives.find(alternative => alternative.forItem === name) ?? null }));
+        } catch (err) {
+            const message = err instanceof Error ? err.message : "Could not fetch a suggestion.";
+            setSwapStates(itemNames, () => ({ status: 'error', message }));
+        }
+    };
+
+    if (isStreaming && progress && (!results || results.length === 0)) {
+        return <AnalysisProgressBar progress={progress} results={[]} isStreaming={isStreaming} onCancel={onCancel} />;
+    }
+
     if (!results || results.length === 0) {
         let suggestion = "The AI could not identify any menu items from the provided source. Please try pasting the menu text directly, using a different URL, or uploading a clearer image.";
         if (analysisInputType === 'url') {
             suggestion = "The URL provided may be inaccessible, not lead to a menu, or contain a format the AI cannot read (like a complex PDF). Please try pasting the menu text directly or using a different URL.";
         } else if (analysisInputType === 'image') {
             suggestion = "The AI could not read the menu from the image. Please try uploading a clearer, more focused image with good lighting, or pasting the menu text directly.";
+        } else if (analysisInputType === 'pdf') {
+            suggestion = "The AI could not read any menu items from the PDF. If it is a scan, try uploading clear photos of each page instead, or paste the menu text directly.";
         } else if (analysisInputType === 'text') {
             suggestion = "The AI could not identify menu items from the text provided. Please ensure the text is formatted clearly, like a restaurant menu, and contains both item names and descriptions.";
         }
@@ -234,27 +630,144 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results, analysisSummar
         );
     }
     
+    // Diet conflicts come with the analysis, so filtering by them needs no new request.
+    const checksDiets = results.some(r => r.dietConflicts !== undefined);
+    const shownResults = checksDiets && fitsDietsOnly ? results.filter(fitsAllDiets) : results;
+    const hiddenByDiets = results.length - shownResults.length;
+
+    // Grouped by the verdict for this visit, which the staff's answers may have changed.
+    const levelOf = (item: AnalysisResult) => getVisitSafetyLevel(item, checklist);
     const groupedResults = {
-        [SafetyLevel.Unsafe]: results.filter(r => r.safetyLevel === SafetyLevel.Unsafe),
-        [SafetyLevel.Caution]: results.filter(r => r.safetyLevel === SafetyLevel.Caution),
-        [SafetyLevel.Safe]: results.filter(r => r.safetyLevel === SafetyLevel.Safe),
+        [SafetyLevel.Unsafe]: shownResults.filter(r => levelOf(r) === SafetyLevel.Unsafe),
+        [SafetyLevel.Caution]: shownResults.filter(r => levelOf(r) === SafetyLevel.Caution),
+        [SafetyLevel.Safe]: shownResults.filter(r => levelOf(r) === SafetyLevel.Safe),
     };
 
-    const safeItems = results
-        .filter(r => r.safetyLevel === SafetyLevel.Safe)
-        .map(r => r.itemName);
+    const onSuggestSwaps = analysisId && !isStreaming ? handleSuggestSwaps : undefined;
+    const pendingSwaps = results.filter(r => isFlagged(levelOf(r)) && swaps[r.itemName]?.status !== 'done').map(r => r.itemName);
+    const canGenerateQuestions = !!analysisId && !isStreaming && !!onChecklistChange && !checklist && results.some(r => r.safetyLevel === SafetyLevel.Caution);
+    const isSuggestingSwaps = Object.values(swaps).some(swap => swap.status === 'loading');
+
+    const overridden = results.filter(r => r.ruleOverride);
+    const overriddenCount = overridden.length;
+    // Anaphylactic allergens send overridden items to unsafe rather than caution.
+    const overrideMoves = [SafetyLevel.Unsafe, SafetyLevel.Caution]
+        .map(level => ({ level, count: overridden.filter(r => r.safetyLevel === level).length }))
+        .filter(move => move.count > 0)
+        .map(move => `${overriddenCount === 1 ? 'It was' : `${move.count} ${move.count === 1 ? 'was' : 'were'}`} moved to "${groupTitles[move.level]}"`);
+
+    // Sections in the order the menu prints them, then any the menu document does not know about.
+    const sectionNames: string[] = [];
+    for (const name of [...(menu?.sections.map(section => section.name) || []), ...results.map(r => r.section || UNSECTIONED_GROUP)]) {
+        if (!sectionNames.includes(name)) sectionNames.push(name);
+    }
+    const canGroupBySection = sectionNames.length > 1;
+    const activeGroupBy: GroupBy = canGroupBySection ? groupBy : 'safety';
+    const sectionTitle = (name: string, items: AnalysisResult[]) => {
+        const unsafe = items.filter(r => levelOf(r) === SafetyLevel.Unsafe).length;
+        const caution = items.filter(r => levelOf(r) === SafetyLevel.Caution).length;
+        const flags = [unsafe > 0 && `${unsafe} unsafe`, caution > 0 && `${caution} caution`].filter(Boolean).join(', ');
+        return flags ? `${name} · ${flags}` : name;
+    };
 
     return (
         <div className="space-y-6">
-            <h3 className="text-2xl font-bold text-gray-800 border-b pb-2">Menu Analysis Results</h3>
+            <div className="flex flex-wrap items-end justify-between gap-2 border-b pb-2">
+                <div>
+                    <h3 className="text-2xl font-bold text-gray-800">Menu Analysis Results</h3>
+                    {menu?.restaurantName && <p className="text-sm text-gray-500">{menu.restaurantName}</p>}
+                    {menu?.language && (
+                        <p className="text-xs text-gray-500">Menu language: {getLanguageName(menu.language)}</p>
+                    )}
+                </div>
+                {canGroupBySection && (
+                    <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label="Group results by">
+                        {(['safety', 'section'] as GroupBy[]).map(option => (
+                            <button
+                                key={option}
+                                onClick={() => setGroupBy(option)}
+                                className={`px-3 py-1 font-medium ${activeGroupBy === option ? 'bg-green-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                                aria-pressed={activeGroupBy === option}
+                            >
+                                {option === 'safety' ? 'By Safety' : 'By Menu Section'}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            {checksDiets && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <label className="inline-flex items-center gap-2 font-medium text-gray-700">
+                        <input
+                            type="checkbox"
+                            checked={fitsDietsOnly}
+                            onChange={(e) => setFitsDietsOnly(e.target.checked)}
+                            className="h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                        />
+                        Fits all my diets
+                    </label>
+                    {fitsDietsOnly && hiddenByDiets > 0 && (
+                        <span className="text-xs text-gray-500">
+                            {hiddenByDiets} {hiddenByDiets === 1 ? 'item' : 'items'} hidden. Diets never change an item's safety rating.
+                        </span>
+                    )}
+                </div>
+            )}
+
+            {cachedAt && <CachedResultNotice cachedAt={cachedAt} onReanalyze={onReanalyze} />}
 
             {analysisSummary && <AnalysisSummary summary={analysisSummary} />}
+
+            {progress && <AnalysisProgressBar progress={progress} results={results} isStreaming={isStreaming} onCancel={onCancel} />}
+
+            {securityWarnings.length > 0 && <SecurityWarningsNotice warnings={securityWarnings} />}
+
+            {kitchenRisks.length > 0 && <KitchenRisksNotice risks={kitchenRisks} />}
+
+            {onSuggestSwaps && pendingSwaps.length > 1 && (
+                <button
+                    onClick={() => onSuggestSwaps(pendingSwaps)}
+                    disabled={isSuggestingSwaps}
+                    className="flex items-center justify-center w-full sm:w-auto px-3 py-2 text-sm font-semibold rounded-md bg-white text-blue-600 border border-blue-300 hover:bg-blue-50 disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed"
+                >
+                    <LightbulbIcon className="w-5 h-5 mr-2" />
+                    Suggest "Safe Swaps" for all {pendingSwaps.length} flagged items
+                </button>
+            )}
+
+            {(canGenerateQuestions || questionsState.status !== 'idle' || checklist) && (
+                <StaffQuestionsPanel
+                    checklist={checklist}
+                    state={questionsState}
+                    onGenerate={canGenerateQuestions ? handleGenerateQuestions : undefined}
+                    onChange={handleChecklistEntryChange}
+                />
+            )}
+
+            {overriddenCount > 0 && (
+                <div className="p-4 rounded-lg bg-orange-50 border border-orange-300 text-sm text-orange-800">
+                    <p className="font-bold">Safety rules overrode the AI on {overriddenCount} {overriddenCount === 1 ? 'item' : 'items'}</p>
+                    <p className="mt-1">The AI marked {overriddenCount === 1 ? 'it' : 'them'} safe, but the menu text mentions one of your allergens. {overrideMoves.join('; ')}.</p>
+                </div>
+            )}
             
-            <div className="space-y-4">
-                <CollapsibleSection title="Unsafe Items" items={groupedResults.unsafe} config={safetyConfig.unsafe} defaultOpen={true} menuContext={menuContext} currentAllergies={currentAllergies} currentPreferences={currentPreferences} safeItems={safeItems} />
-                <CollapsibleSection title="Caution Advised" items={groupedResults.caution} config={safetyConfig.caution} defaultOpen={true} menuContext={menuContext} currentAllergies={currentAllergies} currentPreferences={currentPreferences} safeItems={safeItems} />
-                <CollapsibleSection title="Safe Items" items={groupedResults.safe} config={safetyConfig.safe} defaultOpen={false} menuContext={menuContext} currentAllergies={currentAllergies} currentPreferences={currentPreferences} safeItems={safeItems} />
-            </div>
+            {activeGroupBy === 'section' ? (
+                <div className="space-y-4">
+                    {sectionNames.map(name => {
+                        const items = shownResults.filter(r => (r.section || UNSECTIONED_GROUP) === name);
+                        return (
+                            <CollapsibleSection key={name} title={sectionTitle(name, items)} items={items} config={sectionGroupConfig} defaultOpen={true} menuLanguage={menu?.language} swaps={swaps} onSuggestSwaps={onSuggestSwaps} checklist={checklist} onChecklistChange={handleChecklistEntryChange} />
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <CollapsibleSection title={groupTitles.unsafe} items={groupedResults.unsafe} config={safetyConfig.unsafe} defaultOpen={true} menuLanguage={menu?.language} swaps={swaps} onSuggestSwaps={onSuggestSwaps} checklist={checklist} onChecklistChange={handleChecklistEntryChange} />
+                    <CollapsibleSection title={groupTitles.caution} items={groupedResults.caution} config={safetyConfig.caution} defaultOpen={true} menuLanguage={menu?.language} swaps={swaps} onSuggestSwaps={onSuggestSwaps} checklist={checklist} onChecklistChange={handleChecklistEntryChange} />
+                    <CollapsibleSection title={groupTitles.safe} items={groupedResults.safe} config={safetyConfig.safe} defaultOpen={false} menuLanguage={menu?.language} swaps={swaps} onSuggestSwaps={onSuggestSwaps} checklist={checklist} onChecklistChange={handleChecklistEntryChange} />
+                </div>
+            )}
 
             {searchGroundingSources && searchGroundingSources.length > 0 && (
                 <GroundingSourcesDisplay sources={searchGroundingSources} />
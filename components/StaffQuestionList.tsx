@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { ChecklistEntry, StaffAnswer } from '../types';
+import { getAllergenLabel } from '../services/allergens';
+import { ChecklistEntryChange, STAFF_ANSWERS, STAFF_ANSWER_LABELS } from '../services/visitChecklist';
+
+const answerStyles: Record<StaffAnswer, string> = {
+    safe: 'bg-green-600 text-white border-green-600',
+    contains: 'bg-red-600 text-white border-red-600',
+    unsure: 'bg-gray-600 text-white border-gray-600',
+};
+
+// The note is saved when the field loses focus rather than on every keystroke.
+const AnswerNote: React.FC<{ entry: ChecklistEntry; onChange: (change: ChecklistEntryChange) => void }> = ({ entry, onChange }) => {
+    const [draft, setDraft] = useState(entry.note || '');
+    useEffect(() => setDraft(entry.note || ''), [entry.note]);
+    return (
+        <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={() => draft.trim() !== (entry.note || '') && onChange({ note: draft.trim() || undefined })}
+            placeholder="What did the staff say?"
+            aria-label={`Staff answer to: ${entry.question}`}
+            className="mt-2 w-full text-xs bg-white border border-gray-300 rounded-md px-2 py-1 text-gray-900 focus:outline-none focus:ring-green-500 focus:border-green-500"
+        />
+    );
+};
+
+/**
+ * Questions to ask the staff, as a checklist: each can be ticked off and
+ * marked with what the staff answered.
+ */
+const StaffQuestionList: React.FC<{
+    entries: ChecklistEntry[];
+    onChange: (id: string, change: ChecklistEntryChange) => void;
+}> = ({ entries, onChange }) => (
+    <ul className="space-y-3">
+        {entries.map(entry => (
+            <li key={entry.id} className="text-sm">
+                <div className="flex items-start gap-2">
+                    <input
+                        type="checkbox"
+                        id={`staff-question-${entry.id}`}
+                        checked={entry.asked}
+                        onChange={(e) => onChange(entry.id, { asked: e.target.checked })}
+                        className="mt-0.5 h-4 w-4 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                    />
+                    <label htmlFor={`staff-question-${entry.id}`} className={`flex-grow ${entry.asked ? 'text-gray-500' : 'text-gray-800'}`}>
+                        {entry.question}
+                        {entry.allergens.length > 0 && (
+                            <span className="block text-xs text-gray-400">{entry.allergens.map(getAllergenLabel).join(', ')}</span>
+                        )}
+                    </label>
+                </div>
+                <div className="ml-6 mt-1">
+                    <div className="flex flex-wrap gap-1" role="group" aria-label="Staff answer">
+                        {STAFF_ANSWERS.map(answer => (
+                            <button
+                                key={answer}
+                                onClick={() => onChange(entry.id, { answer: entry.answer === answer ? undefined : answer })}
+                                aria-pressed={entry.answer === answer}
+                                className={`px-2 py-0.5 text-xs font-medium rounded-full border ${entry.answer === answer ? answerStyles[answer] : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+                            >
+                                {STAFF_ANSWER_LABELS[answer]}
+                            </button>
+                        ))}
+                    </div>
+                    {entry.asked && <AnswerNote entry={entry} onChange={(change) => onChange(entry.id, change)} />}
+                </div>
+            </li>
+        ))}
+    </ul>
+);
+
+export default StaffQuestionList;
@@ -1,19 +1,15 @@
 import React from 'react';
-import { AppUser } from '../types';
+import { AppUser, UsageSummary } from '../types';
 import { PencilIcon } from './icons/PencilIcon';
+import { formatDietProfile } from '../services/diets';
 
 interface UserSettingsDisplayProps {
   user: AppUser;
+  usage: UsageSummary | null; // From the server; null while loading
   onEditClick: () => void;
 }
 
-const UserSettingsDisplay: React.FC<UserSettingsDisplayProps> = ({ user, onEditClick }) => {
-  const analysesThisMonth = user.analysisHistory.filter(h => {
-    const historyDate = new Date(h.created_at);
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-    return historyDate.getMonth() === currentMonth && historyDate.getFullYear() === currentYear;
-  }).length;
+const UserSettingsDisplay: React.FC<UserSettingsDisplayProps> = ({ user, usage, onEditClick }) => {
 
   return (
     <div>
@@ -30,7 +26,7 @@ const UserSettingsDisplay: React.FC<UserSettingsDisplayProps> = ({ user, onEditC
         </button>
       </div>
       <p className="text-xs text-gray-500 mb-2">
-        Your saved allergies and preferences will be used for analysis.
+        Your saved allergies and diets will be used for analysis.
       </p>
       <div className="mt-3 space-y-2">
         <div>
@@ -42,19 +38,22 @@ const UserSettingsDisplay: React.FC<UserSettingsDisplayProps> = ({ user, onEditC
         {user.is_pro ? (
           <div>
             <p className="text-xs text-gray-500 mb-1">
-              Your Dietary Preferences (Pro feature):
+              Your Diets (Pro feature):
             </p>
             <div className="w-full px-3 py-2 bg-gray-100 border border-gray-200 rounded-md text-sm text-gray-600 min-h-[40px]">
-              {user.preferences || 'No preferences listed.'}
+              {formatDietProfile(user.dietProfile) || 'No diets selected.'}
             </div>
           </div>
         ) : (
-          user.max_analyses_per_month !== null && (
+          usage && usage.limit !== null && (
             <div>
               <p className="text-xs text-gray-500 mb-1">Monthly Usage:</p>
               <div className="w-full px-3 py-2 bg-gray-100 border border-gray-200 rounded-md text-sm text-gray-600">
-                You have used <strong>{analysesThisMonth}</strong> of your{' '}
-                <strong>{user.max_analyses_per_month}</strong> free analyses this month.
+                You have used <strong>{usage.used}</strong> of your{' '}
+                <strong>{usage.limit}</strong> free analyses this month.
+                <span className="block text-xs text-gray-500 mt-1">
+                  Resets on {new Date(usage.resetsAt).toLocaleDateString()}.
+                </span>
               </div>
             </div>
           )
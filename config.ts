@@ -0,0 +1,40 @@
+// --- Shared Limits ---
+// Values both the client and the Netlify functions enforce, kept in one place
+// so the browser can reject oversized input before uploading it.
+
+// Photographed menus are usually 2–6 pages; a few spare pages for inserts.
+export const MAX_MENU_PAGES = 8;
+
+// Combined size of all base64-encoded page images in one `analyze` request.
+// Netlify rejects function bodies above 6 MB, so leave room for the rest of the payload.
+export const MAX_IMAGE_BATCH_BYTES = 4.5 * 1024 * 1024;
+
+// Image formats a menu photo may be sent as. The client re-encodes photos as JPEG.
+export const MENU_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+// PDF menus: the raw file size (it grows by a third once base64-encoded) and
+// the number of pages read. Longer PDFs are usually catering or wine lists.
+export const MAX_PDF_BYTES = 3 * 1024 * 1024;
+export const MAX_PDF_PAGES = 20;
+
+// Analyses per calendar month (UTC) for free accounts. New profiles are
+// created with this limit; the server also applies it when a free profile has none.
+export const DEFAULT_MONTHLY_ANALYSIS_LIMIT = 5;
+
+// Menu chat: the longest message accepted, and how many earlier turns the
+// server keeps per analysis and sends to the model.
+export const MAX_CHAT_MESSAGE_CHARS = 2000;
+export const MAX_CHAT_TURNS = 40;
+
+// Safe swaps: flagged items answered in one `alternative` call. The client
+// splits longer lists into several calls.
+export const MAX_ALTERNATIVE_ITEMS = 20;
+
+// Staff questions: caution items the model writes questions for in one
+// `questions` call. Any further caution items get a drafted question instead.
+export const MAX_QUESTION_ITEMS = 20;
+
+// Diet profiles: custom dislikes kept per profile, and the longest one
+// accepted. Every dislike is repeated in each classification prompt.
+export const MAX_DIET_DISLIKES = 20;
+export const MAX_DISLIKE_CHARS = 40;
@@ -22,6 +22,10 @@ export interface Database {
           analysis_type: AnalysisType
           input_text: string
           result: Json
+          result_version: number
+          menu_document: Json | null
+          from_cache: boolean
+          visit_checklist: Json | null
           allergies: string
           preferences: string
         }
@@ -33,6 +37,10 @@ export interface Database {
           analysis_type: AnalysisType
           input_text: string
           result: Json
+          result_version?: number // Defaults to 1 for rows written before versioning
+          menu_document?: Json | null
+          from_cache?: boolean // Defaults to false
+          visit_checklist?: Json | null
           allergies: string
           preferences: string
         }
@@ -44,6 +52,10 @@ export interface Database {
           analysis_type?: AnalysisType
           input_text?: string
           result?: Json
+          result_version?: number
+          menu_document?: Json | null
+          from_cache?: boolean
+          visit_checklist?: Json | null
           allergies?: string
           preferences?: string
         }
@@ -55,7 +67,10 @@ export interface Database {
           updated_at: string | null
           username: string | null
           allergies: string | null
-          preferences: string | null
+          allergy_severities: Json
+          output_language: string
+          preferences: string | null // Free-text diets, read only when diet_profile is null
+          diet_profile: Json | null
           is_pro: boolean | null
           max_analyses_per_month: number | null
         }
@@ -64,7 +79,10 @@ export interface Database {
           updated_at?: string | null
           username?: string | null
           allergies?: string | null
+          allergy_severities?: Json
+          output_language?: string
           preferences?: string | null
+          diet_profile?: Json | null
           is_pro?: boolean | null
           max_analyses_per_month?: number | null
         }
@@ -73,7 +91,10 @@ export interface Database {
           updated_at?: string | null
           username?: string | null
           allergies?: string | null
+          allergy_severities?: Json
+          output_language?: string
           preferences?: string | null
+          diet_profile?: Json | null
           is_pro?: boolean | null
           max_analyses_per_month?: number | null
         }
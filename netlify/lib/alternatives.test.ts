@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyLevel } from "../../types";
+import type { AnalysisResult, MenuDocument } from "../../types";
+import { checkSaferAlternatives, hasSaferItem, listCandidates } from "./alternatives";
+
+const result = (itemName: string, safetyLevel: SafetyLevel): AnalysisResult =>
+    ({ itemName, safetyLevel, reasoning: "From the menu.", identifiedAllergens: [] });
+
+const satay = result("Satay Skewers", SafetyLevel.Unsafe);
+const padThai = result("Pad Thai", SafetyLevel.Caution);
+const results = [satay, padThai, result("Green Curry", SafetyLevel.Safe), result("Spring Rolls", SafetyLevel.Caution)];
+const menu: MenuDocument = {
+    sections: [{ name: "Mains", items: results.map(item => ({ name: item.itemName, dietaryBadges: [] })) }],
+    notes: [],
+};
+
+const check = (alternatives: unknown[]) => checkSaferAlternatives({ alternatives }, [satay, padThai], results, menu);
+
+describe("checkSaferAlternatives", () => {
+    it("keeps suggestions of safer menu items, with the stored names and verdicts", () => {
+        const { value, usable } = check([
+            { forItem: "satay skewers", itemName: "green curry", safetyLevel: "unsafe", reason: "No peanuts listed.", modifications: ["no crushed nuts on top"] },
+        ]);
+        assert.equal(usable, true);
+        assert.deepEqual(value, [{
+            forItem: "Satay Skewers",
+            itemName: "Green Curry",
+            safetyLevel: SafetyLevel.Safe,
+            reason: "No peanuts listed.",
+            modifications: ["no crushed nuts on top"],
+        }]);
+    });
+
+    it("rejects suggestions that are not on the menu, not safer or not for a requested item", () => {
+        const { value, issues, usable } = check([
+            { forItem: "Satay Skewers", itemName: "Mango Sticky Rice", reason: "Dessert." },
+            { forItem: "Pad Thai", itemName: "Spring Rolls", reason: "Also caution." },
+            { forItem: "Spring Rolls", itemName: "Green Curry", reason: "Not requested." },
+            { forItem: "Pad Thai", itemName: "Pad Thai", reason: "Itself." },
+        ]);
+        assert.deepEqual(value, []);
+        assert.equal(usable, false);
+        assert.deepEqual(issues.map(issue => issue.path), ["alternatives[0]", "alternatives[1]", "alternatives[2]", "alternatives[3]"]);
+    });
+
+    it("keeps one suggestion per flagged item", () => {
+        const { value } = check([
+            { forItem: "Pad Thai", itemName: "Green Curry", reason: "Safe." },
+            { forItem: "Pad Thai", itemName: "Green Curry", reason: "Safe again." },
+        ]);
+        assert.equal(value.length, 1);
+    });
+
+    it("accepts an empty list but not a malformed answer", () => {
+        assert.equal(check([]).usable, true);
+        assert.equal(checkSaferAlternatives({ suggestions: [] }, [satay], results, menu).usable, false);
+    });
+});
+
+describe("candidates", () => {
+    it("are the items below the worst flagged verdict", () => {
+        assert.deepEqual(listCandidates([satay], results).map(item => item.itemName), ["Pad Thai", "Green Curry", "Spring Rolls"]);
+        assert.deepEqual(listCandidates([padThai], results).map(item => item.itemName), ["Green Curry"]);
+        assert.equal(hasSaferItem(padThai, [padThai, results[3]]), false);
+    });
+});
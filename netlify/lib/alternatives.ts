@@ -0,0 +1,96 @@
+// --- Safer Alternatives ---
+// The model suggests a replacement for each flagged (unsafe or caution) item,
+// but only the stored analysis decides what counts as safer: a suggestion has
+// to be an item of the analyzed menu whose own verdict ranks below the flagged
+// item's. Everything else is rejected, so the client never shows a swap that
+// is not on the menu or is itself a risk.
+
+import { isObject, nonEmptyString, type ValidationIssue } from "../../services/validation";
+import type { AnalysisResult, MenuDocument, SaferAlternative } from "../../types";
+import { findAnalysisResult, findMenuItem } from "./menuDocument";
+import type { CheckedOutput } from "./modelOutput";
+import { SAFETY_RANK } from "./ruleCheck";
+
+const MAX_MODIFICATIONS = 4;
+const MAX_MODIFICATION_CHARS = 120;
+
+/** True when some item of the analysis ranks below `flagged`, i.e. there is anything to suggest. */
+export function hasSaferItem(flagged: AnalysisResult, results: AnalysisResult[]): boolean {
+    return results.some(result => SAFETY_RANK[result.safetyLevel] < SAFETY_RANK[flagged.safetyLevel]);
+}
+
+function readModifications(value: unknown, path: string, issues: ValidationIssue[]): string[] {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+        issues.push({ path, message: 'not a list; ignored' });
+        return [];
+    }
+    const modifications = value.map(nonEmptyString).filter((entry): entry is string => !!entry);
+    if (modifications.length !== value.length) issues.push({ path, message: 'empty or non-text entries removed' });
+    if (modifications.some(entry => entry.length > MAX_MODIFICATION_CHARS)) issues.push({ path, message: `entries shortened to ${MAX_MODIFICATION_CHARS} characters` });
+    if (modifications.length > MAX_MODIFICATIONS) issues.push({ path, message: `only the first ${MAX_MODIFICATIONS} kept` });
+    return modifications.slice(0, MAX_MODIFICATIONS).map(entry => entry.slice(0, MAX_MODIFICATION_CHARS));
+}
+
+/**
+ * Validates the model's suggestions against the analysis. Names are replaced
+ * by the analysis's own, and the suggestion's safety level always comes from
+ * its stored verdict. The output is usable unless every suggestion was
+ * rejected, in which case the model is asked again with the reasons.
+ */
+export function checkSaferAlternatives(
+    raw: unknown,
+    flagged: AnalysisResult[],
+    results: AnalysisResult[],
+    menu: MenuDocument
+): CheckedOutput<SaferAlternative[]> {
+    const issues: ValidationIssue[] = [];
+    const list = isObject(raw) ? raw.alternatives : undefined;
+    const isList = Array.isArray(list);
+    if (!isList) issues.push({ path: 'alternatives', message: 'missing or not a list' });
+    const entries: unknown[] = isList ? list : [];
+
+    const alternatives: SaferAlternative[] = [];
+    let rejected = 0;
+    entries.forEach((entry, index) => {
+        const path = `alternatives[${index}]`;
+        const reject = (message: string) => {
+            issues.push({ path, message });
+            rejected++;
+        };
+        if (!isObject(entry)) return reject('not an object');
+
+        const forName = nonEmptyString(entry.forItem);
+        const original = forName ? findAnalysisResult(flagged, forName) : null;
+        if (!original) return reject(`"forItem" must be one of the requested items: ${flagged.map(item => item.itemName).join(', ')}`);
+        if (alternatives.some(alternative => alternative.forItem === original.itemName)) return reject(`a second suggestion for "${original.itemName}"`);
+
+        const suggestedName = nonEmptyString(entry.itemName);
+        if (!suggestedName) return reject('"itemName" is missing');
+        const suggestion = findMenuItem(menu, suggestedName) ? findAnalysisResult(results, suggestedName) : null;
+        if (!suggestion) return reject(`"${suggestedName}" is not an item on this menu`);
+        if (suggestion.itemName === original.itemName) return reject(`"${suggestedName}" is the item it should replace`);
+        if (SAFETY_RANK[suggestion.safetyLevel] >= SAFETY_RANK[original.safetyLevel]) {
+            return reject(`"${suggestion.itemName}" is rated ${suggestion.safetyLevel}, which is not safer than "${original.itemName}" (${original.safetyLevel})`);
+        }
+
+        const reason = nonEmptyString(entry.reason);
+        if (!reason) return reject('"reason" is missing');
+
+        alternatives.push({
+            forItem: original.itemName,
+            itemName: suggestion.itemName,
+            safetyLevel: suggestion.safetyLevel,
+            reason,
+            modifications: readModifications(entry.modifications, `${path}.modifications`, issues),
+        });
+    });
+
+    return { value: alternatives, issues, usable: alternatives.length > 0 || (isList && rejected === 0) };
+}
+
+/** Verdicts a suggestion may come from for at least one flagged item, for the prompt. */
+export function listCandidates(flagged: AnalysisResult[], results: AnalysisResult[]): AnalysisResult[] {
+    const worst = Math.max(...flagged.map(item => SAFETY_RANK[item.safetyLevel]));
+    return results.filter(result => SAFETY_RANK[result.safetyLevel] < worst);
+}
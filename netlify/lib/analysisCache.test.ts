@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyLevel } from "../../types";
+import type { AnalyzeRequestData, MenuAnalysis } from "../../types";
+import { useTestEnv } from "../../tests/testEnv";
+import { analysisCacheKey, fingerprintMenuSource, readCachedAnalysis, writeCachedAnalysis } from "./analysisCache";
+import { getKvStore } from "./kvStore";
+
+const profile: AnalyzeRequestData = { allergies: "peanut, kiwi, Lupin", allergySeverities: { peanut: "anaphylactic" }, outputLanguage: "en" };
+const menuFingerprint = fingerprintMenuSource("Peanut Noodles - peanuts, rice noodles", []);
+
+const analysis: MenuAnalysis = {
+    menu: { sections: [{ name: "Mains", items: [{ name: "Peanut Noodles", dietaryBadges: [] }] }], notes: [] },
+    results: [{ itemName: "Peanut Noodles", safetyLevel: SafetyLevel.Unsafe, reasoning: "Contains peanuts.", identifiedAllergens: ["peanut"] }],
+    kitchenRisks: [],
+};
+
+describe("fingerprintMenuSource", () => {
+    it("ignores case and line breaks in the menu text", () => {
+        assert.equal(fingerprintMenuSource("PEANUT NOODLES -\n  peanuts, rice noodles ", []), menuFingerprint);
+    });
+
+    it("changes with the attached images", () => {
+        assert.notEqual(fingerprintMenuSource(undefined, ["aGVsbG8="]), fingerprintMenuSource(undefined, ["d29ybGQ="]));
+        assert.notEqual(fingerprintMenuSource("Peanut Noodles - peanuts, rice noodles", ["aGVsbG8="]), menuFingerprint);
+    });
+});
+
+describe("analysisCacheKey", () => {
+    const key = analysisCacheKey(menuFingerprint, profile, "gemini-2.5-flash");
+
+    it("does not depend on how the allergies are written", () => {
+        assert.equal(analysisCacheKey(menuFingerprint, { ...profile, allergies: "lupin,Kiwi , peanuts" }, "gemini-2.5-flash"), key);
+    });
+
+    it("changes with anything that changes the verdicts", () => {
+        const variants: [AnalyzeRequestData, string][] = [
+            [{ ...profile, allergies: "peanut, kiwi" }, "gemini-2.5-flash"],
+            [{ ...profile, allergySeverities: {} }, "gemini-2.5-flash"],
+            [{ ...profile, outputLanguage: "es" }, "gemini-2.5-flash"],
+            [{ ...profile, dietProfile: { regimes: ["vegan"], dislikes: [] } }, "gemini-2.5-flash"],
+            [profile, "gpt-4o-mini"],
+        ];
+        for (const [data, model] of variants) assert.notEqual(analysisCacheKey(menuFingerprint, data, model), key);
+        assert.notEqual(analysisCacheKey(fingerprintMenuSource("Green Salad", []), profile, "gemini-2.5-flash"), key);
+    });
+});
+
+describe("cached analyses", () => {
+    useTestEnv({ KV_STORE: "memory", ANALYSIS_CACHE: "on" });
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    it("are read back with the time they were stored", async () => {
+        const key = analysisCacheKey(menuFingerprint, profile, "hit");
+        assert.equal(await readCachedAnalysis(key), null);
+        await writeCachedAnalysis(key, analysis);
+        const cached = await readCachedAnalysis(key);
+        assert.deepEqual(cached?.analysis.results, analysis.results);
+        assert.ok(!Number.isNaN(Date.parse(cached?.cachedAt ?? "")));
+    });
+
+    it("are not stored when no item was classified", async () => {
+        const key = analysisCacheKey(menuFingerprint, profile, "empty");
+        await writeCachedAnalysis(key, { ...analysis, results: [] });
+        assert.equal(await readCachedAnalysis(key), null);
+    });
+
+    it("are treated as a miss when the stored entry is malformed", async () => {
+        const key = analysisCacheKey(menuFingerprint, profile, "malformed");
+        await getKvStore().set(key, { analysis: { results: "not a list" }, cachedAt: "yesterday" });
+        assert.equal(await readCachedAnalysis(key), null);
+    });
+
+    it("are skipped when the cache is turned off", async () => {
+        const key = analysisCacheKey(menuFingerprint, profile, "off");
+        process.env.ANALYSIS_CACHE = "off";
+        try {
+            await writeCachedAnalysis(key, analysis);
+        } finally {
+            process.env.ANALYSIS_CACHE = "on";
+        }
+        assert.equal(await readCachedAnalysis(key), null);
+    });
+});
@@ -0,0 +1,101 @@
+// --- Analysis Cache ---
+// Finished analyses are stored under a hash of what determines their outcome:
+// the menu content, the allergy and diet profile, the output language and the model.
+// Scanning the same menu again with the same profile then skips both model
+// stages. Set ANALYSIS_CACHE=off to disable.
+
+import { createHash } from "node:crypto";
+import { parseAllergies, sanitizeAllergySeverities } from "../../services/allergens";
+import { readDietProfile } from "../../services/diets";
+import { ANALYSIS_RESULT_VERSION } from "../../services/utils";
+import { isObject } from "../../services/validation";
+import type { AnalyzeRequestData, MenuAnalysis } from "../../types";
+import { getKvStore } from "./kvStore";
+
+export const ANALYSIS_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const KEY_PREFIX = 'analysis:';
+
+export interface CachedAnalysis {
+    analysis: MenuAnalysis;
+    cachedAt: string;
+}
+
+/** Whether a stored value has the shape writeCachedAnalysis saves. */
+const isCachedAnalysis = (value: unknown): value is CachedAnalysis =>
+    isObject(value) &&
+    typeof value.cachedAt === 'string' &&
+    isObject(value.analysis) &&
+    isObject(value.analysis.menu) &&
+    Array.isArray(value.analysis.results) &&
+    Array.isArray(value.analysis.kitchenRisks);
+
+const isEnabled = (): boolean => (process.env.ANALYSIS_CACHE || 'on').trim().toLowerCase() !== 'off';
+
+const collapseWhitespace = (value: string): string => value.replace(/\s+/g, ' ').trim();
+
+/**
+ * Hashes the menu content itself: the text read from the source (pasted,
+ * PDF text layer or fetched page) and the bytes of any attached images or
+ * scans. Formatting differences such as line breaks do not change the hash.
+ */
+export function fingerprintMenuSource(text: string | undefined, attachments: string[]): string {
+    const hash = createHash('sha256');
+    hash.update(collapseWhitespace(text || '').toLowerCase());
+    for (const attachment of attachments) {
+        hash.update('\0');
+        hash.update(attachment);
+    }
+    return hash.digest('hex');
+}
+
+/** The cache key for a menu fingerprint analyzed with this request's profile by `model`. */
+export function analysisCacheKey(menuFingerprint: string, data: AnalyzeRequestData, model: string): string {
+    const parsed = parseAllergies(data.allergies);
+    const severities = sanitizeAllergySeverities(data.allergySeverities);
+    const diets = readDietProfile(data);
+    const profile = {
+        version: ANALYSIS_RESULT_VERSION,
+        model,
+        menu: menuFingerprint,
+        allergies: parsed.codes,
+        customAllergies: parsed.unrecognized.map(term => term.toLowerCase()).sort(),
+        severities: Object.keys(severities).sort().map(key => [key, severities[key]]),
+        diets: diets.regimes,
+        dislikes: diets.dislikes.map(term => term.toLowerCase()).sort(),
+        outputLanguage: data.outputLanguage || '',
+    };
+    return KEY_PREFIX + createHash('sha256').update(JSON.stringify(profile)).digest('hex');
+}
+
+// A broken cache must never fail an analysis, so store errors are logged and treated as misses.
+
+export async function readCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+    if (!isEnabled()) return null;
+    try {
+        const stored = await getKvStore().get(key);
+        return isCachedAnalysis(stored) ? stored : null;
+    } catch (err) {
+        console.warn("Analysis cache read failed:", err);
+        return null;
+    }
+}
+
+export async function writeCachedAnalysis(key: string, analysis: MenuAnalysis): Promise<void> {
+    // Empty results are more likely a bad read than an empty menu; let the next scan try again.
+    if (!isEnabled() || analysis.results.length === 0) return;
+    try {
+        const entry: CachedAnalysis = {
+            analysis: {
+                menu: analysis.menu,
+                results: analysis.results,
+                kitchenRisks: analysis.kitchenRisks,
+                securityWarnings: analysis.securityWarnings,
+            },
+            cachedAt: new Date().toISOString(),
+        };
+        await getKvStore().set(key, entry, ANALYSIS_CACHE_TTL_SECONDS);
+    } catch (err) {
+        console.warn("Analysis cache write failed:", err);
+    }
+}
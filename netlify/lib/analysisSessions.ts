@@ -0,0 +1,169 @@
+// --- Analysis Sessions ---
+// Every finished analysis is stored as a snapshot (menu, results and the
+// allergy and diet profile it was made for) under a random id the client receives as
+// `analysisId`. Menu chat refers to that id only: the server builds the
+// prompt from the snapshot and keeps the conversation next to it, so a client
+// cannot rewrite the analysis or earlier turns the model sees. Snapshots of
+// signed-in users that the store has lost (the in-memory store loses them on
+// every cold start) are rebuilt from their saved history entry.
+
+import { randomUUID } from "node:crypto";
+import { MAX_CHAT_TURNS } from "../../config";
+import { sanitizeAllergySeverities } from "../../services/allergens";
+import { readDietProfile } from "../../services/diets";
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from "../../services/languages";
+import { isObject, validateAnalysisResults } from "../../services/validation";
+import type { AllergySeverities, AnalysisResult, AnalyzeRequestData, DietProfile, KitchenRiskNote, MenuAnalysis, MenuDocument, SecurityWarning } from "../../types";
+import { NotFoundError } from "./errors";
+import { getKvStore } from "./kvStore";
+import { normalizeMenuDocument } from "./menuDocument";
+import type { ChatTurn } from "./providers/types";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+export const ANALYSIS_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const SNAPSHOT_PREFIX = 'session:analysis:';
+const CHAT_PREFIX = 'session:chat:';
+
+export interface AnalysisSnapshot {
+    id: string;
+    userId: string | null; // null when a guest ran the analysis
+    createdAt: string;
+    profile: {
+        allergies: string;
+        allergySeverities: AllergySeverities;
+        dietProfile?: DietProfile; // Missing in snapshots stored before diet profiles; read them with readDietProfile
+        preferences?: string; // Free-text diets of those older snapshots
+        outputLanguage: string;
+    };
+    menu: MenuDocument;
+    results: AnalysisResult[];
+    kitchenRisks: KitchenRiskNote[];
+    securityWarnings?: SecurityWarning[]; // Missing in snapshots stored before chat tools re-classified menus
+}
+
+// Ids are random UUIDs; anything else is rejected before it reaches the store.
+const ANALYSIS_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const EXPIRED_MESSAGE = "This analysis is no longer available for chat. Please analyze the menu again.";
+
+/** Whether a stored value has the shape saveAnalysisSnapshot saves. */
+const isAnalysisSnapshot = (value: unknown): value is AnalysisSnapshot =>
+    isObject(value) &&
+    typeof value.id === 'string' &&
+    (typeof value.userId === 'string' || value.userId === null) &&
+    isObject(value.profile) &&
+    isObject(value.menu) &&
+    Array.isArray(value.results) &&
+    Array.isArray(value.kitchenRisks);
+
+const isChatTurn = (value: unknown): value is ChatTurn =>
+    isObject(value) &&
+    (value.role === 'user' || value.role === 'model') &&
+    typeof value.content === 'string';
+
+/**
+ * Stores a finished analysis and returns its id. A failing store must not
+ * fail the analysis, so errors are logged and the analysis goes without chat.
+ */
+export async function saveAnalysisSnapshot(analysis: MenuAnalysis, data: AnalyzeRequestData, userId: string | null): Promise<string | undefined> {
+    const snapshot: AnalysisSnapshot = {
+        id: randomUUID(),
+        userId,
+        createdAt: new Date().toISOString(),
+        profile: {
+            allergies: data.allergies,
+            allergySeverities: data.allergySeverities || {},
+            dietProfile: readDietProfile(data),
+            outputLanguage: data.outputLanguage,
+        },
+        menu: analysis.menu,
+        results: analysis.results,
+        kitchenRisks: analysis.kitchenRisks,
+        securityWarnings: analysis.securityWarnings || [],
+    };
+    try {
+        await getKvStore().set(SNAPSHOT_PREFIX + snapshot.id, snapshot, ANALYSIS_SESSION_TTL_SECONDS);
+        return snapshot.id;
+    } catch (err) {
+        console.warn("Could not store the analysis snapshot:", err);
+        return undefined;
+    }
+}
+
+// The columns of an analysis_history row a snapshot is rebuilt from.
+interface HistoryEntryRow {
+    created_at: string;
+    result: unknown;
+    menu_document: unknown;
+    allergies: string;
+    preferences: string;
+}
+
+/**
+ * Rebuilds a signed-in user's snapshot from their saved history entry and
+ * stores it again under `analysisId`. Kitchen notes and security warnings are
+ * not saved with history, so the rebuilt session goes without them. Null when
+ * the entry does not exist, belongs to someone else or predates menu
+ * documents, or when the server has no Supabase access.
+ */
+async function restoreFromHistory(analysisId: string, userId: string, historyEntryId: number): Promise<AnalysisSnapshot | null> {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return null;
+    const [entryResult, profileResult] = await Promise.all([
+        supabase
+            .from('analysis_history')
+            .select('created_at, result, menu_document, allergies, preferences')
+            .eq('id', historyEntryId)
+            .eq('user_id', userId)
+            .maybeSingle(),
+        supabase.from('profiles').select('allergy_severities, output_language').eq('id', userId).maybeSingle(),
+    ]);
+    const entry: HistoryEntryRow | null = entryResult.data;
+    if (entryResult.error || !entry?.menu_document) return null;
+    const { results } = validateAnalysisResults(entry.result);
+    if (results.length === 0) return null;
+
+    const outputLanguage: unknown = profileResult.data?.output_language;
+    const snapshot: AnalysisSnapshot = {
+        id: analysisId,
+        userId,
+        createdAt: entry.created_at,
+        profile: {
+            allergies: entry.allergies,
+            allergySeverities: sanitizeAllergySeverities(profileResult.data?.allergy_severities),
+            preferences: entry.preferences,
+            outputLanguage: isOutputLanguage(outputLanguage) ? outputLanguage : DEFAULT_OUTPUT_LANGUAGE,
+        },
+        menu: normalizeMenuDocument(entry.menu_document),
+        results,
+        kitchenRisks: [],
+        securityWarnings: [],
+    };
+    await getKvStore().set(SNAPSHOT_PREFIX + analysisId, snapshot, ANALYSIS_SESSION_TTL_SECONDS);
+    return snapshot;
+}
+
+/**
+ * Loads the snapshot for `analysisId`, rebuilding it from the history entry
+ * `historyEntryId` when a signed-in user's snapshot is gone. Snapshots of
+ * signed-in users are only visible to them; an unknown, expired or foreign id
+ * is reported the same way.
+ */
+export async function loadAnalysisSnapshot(analysisId: string, userId: string | null, historyEntryId?: number): Promise<AnalysisSnapshot> {
+    if (!ANALYSIS_ID_PATTERN.test(analysisId)) throw new NotFoundError(EXPIRED_MESSAGE);
+    const stored = await getKvStore().get(SNAPSHOT_PREFIX + analysisId);
+    const snapshot = isAnalysisSnapshot(stored) ? stored : (userId && historyEntryId !== undefined ? await restoreFromHistory(analysisId, userId, historyEntryId) : null);
+    if (!snapshot || (snapshot.userId && snapshot.userId !== userId)) throw new NotFoundError(EXPIRED_MESSAGE);
+    return snapshot;
+}
+
+export async function loadChatTurns(analysisId: string): Promise<ChatTurn[]> {
+    const stored = await getKvStore().get(CHAT_PREFIX + analysisId);
+    return Array.isArray(stored) ? stored.filter(isChatTurn) : [];
+}
+
+/** Saves the conversation, keeping only the last MAX_CHAT_TURNS turns. */
+export async function saveChatTurns(analysisId: string, turns: ChatTurn[]): Promise<void> {
+    await getKvStore().set(CHAT_PREFIX + analysisId, turns.slice(-MAX_CHAT_TURNS), ANALYSIS_SESSION_TTL_SECONDS);
+}
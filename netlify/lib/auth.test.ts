@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { AuthError, authenticateRequest } from "./auth";
+import { signJwt } from "./jwt";
+
+const SECRET = "test-secret";
+const env = { SUPABASE_JWT_SECRET: SECRET };
+
+const request = (token?: string) => new Request("http://localhost/api", {
+    method: "POST",
+    headers: { "x-nf-client-connection-ip": "203.0.113.7", ...(token ? { authorization: `Bearer ${token}` } : {}) },
+});
+const tokenFor = (sub: string, expiresIn: number = 3600) =>
+    signJwt({ sub, exp: Math.floor(Date.now() / 1000) + expiresIn, aud: "authenticated" }, SECRET);
+
+describe("authenticateRequest", () => {
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    it("identifies the user of a valid token", () => {
+        assert.deepEqual(authenticateRequest(request(tokenFor("user-1")), env), { userId: "user-1", clientIp: "203.0.113.7" });
+    });
+
+    it("treats requests without a token as guests", () => {
+        assert.deepEqual(authenticateRequest(request(), env), { userId: null, clientIp: "203.0.113.7" });
+    });
+
+    it("rejects forged and expired tokens instead of downgrading them to guests", () => {
+        assert.throws(() => authenticateRequest(request(tokenFor("user-1").slice(0, -2) + "xx"), env), AuthError);
+        assert.throws(() => authenticateRequest(request(tokenFor("user-1", -3600)), env), AuthError);
+    });
+
+    it("falls back to guests when SUPABASE_JWT_SECRET is not set", () => {
+        assert.deepEqual(authenticateRequest(request(tokenFor("user-1")), {}), { userId: null, clientIp: "203.0.113.7" });
+    });
+});
@@ -0,0 +1,62 @@
+// --- Request Authentication ---
+// The client sends the signed-in user's Supabase access token as a bearer
+// token, verified here against SUPABASE_JWT_SECRET. Requests without a token
+// are guests and go through the stricter guest policy (see guestPolicy.ts).
+
+import { ApiError } from "./errors";
+import { JwtError, verifyJwt } from "./jwt";
+
+/** Thrown when a request carries a token that is invalid or expired. */
+export class AuthError extends ApiError {
+    constructor(message: string = "Your session has expired. Please log in again.") {
+        super('unauthorized', message);
+        this.name = 'AuthError';
+    }
+}
+
+export interface RequestIdentity {
+    userId: string | null; // null for guests
+    clientIp: string;
+}
+
+export function readBearerToken(req: Request): string | null {
+    const header = req.headers.get('authorization') || '';
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+}
+
+/** The caller's IP as reported by Netlify's edge; only used to limit guests. */
+export function readClientIp(req: Request): string {
+    return req.headers.get('x-nf-client-connection-ip')
+        || req.headers.get('x-forwarded-for')?.split(',')[0].trim()
+        || 'unknown';
+}
+
+let warnedMissingSecret = false;
+
+/**
+ * Identifies the caller. A valid token yields its user id; a bad or expired
+ * one is rejected with AuthError rather than silently downgraded to a guest.
+ */
+export function authenticateRequest(req: Request, env: Record<string, string | undefined> = process.env): RequestIdentity {
+    const clientIp = readClientIp(req);
+    const token = readBearerToken(req);
+    if (!token) return { userId: null, clientIp };
+
+    const secret = env.SUPABASE_JWT_SECRET;
+    if (!secret) {
+        if (!warnedMissingSecret) {
+            console.warn("SUPABASE_JWT_SECRET is not set; signed-in users are treated as guests.");
+            warnedMissingSecret = true;
+        }
+        return { userId: null, clientIp };
+    }
+
+    try {
+        return { userId: verifyJwt(token, secret).sub, clientIp };
+    } catch (err) {
+        if (!(err instanceof JwtError)) throw err;
+        console.warn("Rejected access token:", err.message);
+        throw new AuthError();
+    }
+}
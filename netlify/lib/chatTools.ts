@@ -0,0 +1,238 @@
+// --- Chat Tools ---
+// Functions the menu chat model can call instead of improvising an answer.
+// They read the stored analysis, or classify the stored menu again through the
+// same pipeline as `analyze`, so a tool result is never less checked than the
+// verdicts on the results screen. Arguments come from the model, which reads
+// user and menu text, and are validated like request bodies. Every successful
+// call also produces a ChatToolCard the chat shows next to the reply.
+
+import { Type } from "@google/genai";
+import { resolveAllergenTerm } from "../../services/allergens";
+import { SafetyLevel } from "../../types";
+import type { AnalysisResult, ChatToolCard, ChatToolName, VerdictChange } from "../../types";
+import type { AnalysisSnapshot } from "./analysisSessions";
+import { ValidationError } from "./errors";
+import { findAnalysisResult, normalizeItemName } from "./menuDocument";
+import { detectInjection } from "./promptSafety";
+import { SAFETY_RANK } from "./ruleCheck";
+import { draftStaffQuestion } from "./staffQuestions";
+import type { ChatTool, ChatToolCall } from "./providers/types";
+
+export const MAX_CHAT_TOOL_ROUNDS = 3;
+
+const MAX_ALLERGY_TERMS = 8;
+const MAX_ALLERGY_TERM_CHARS = 40;
+const MAX_SECTION_PICKS = 3;
+
+export const CHAT_TOOLS: (ChatTool & { name: ChatToolName })[] = [
+    {
+        name: 'lookup_verdict',
+        description: "Looks up the stored verdict for one menu item: safety level, reasoning, allergens and the menu text it is based on. Use it before explaining why an item has its verdict.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                itemName: { type: Type.STRING, description: "The item's name as on the menu or as translated in the analysis." },
+            },
+            required: ["itemName"],
+        },
+    },
+    {
+        name: 'reclassify_menu',
+        description: "Classifies the whole menu again with a changed allergy list, for questions such as \"what if I also avoid sesame?\". The saved analysis and profile are not changed.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                addAllergies: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Allergens or ingredients to avoid in addition, e.g. ['sesame']." },
+                removeAllergies: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Allergies from the profile to leave out." },
+            },
+        },
+    },
+    {
+        name: 'safest_in_section',
+        description: "Lists the safest items of one menu section for this user, safest first.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                section: { type: Type.STRING, description: "The section heading, e.g. 'Desserts'." },
+            },
+            required: ["section"],
+        },
+    },
+    {
+        name: 'draft_staff_question',
+        description: "Drafts a short question the user can ask the restaurant staff about one item, based on its verdict and the user's allergies.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                itemName: { type: Type.STRING, description: "The item's name as on the menu or as translated in the analysis." },
+            },
+            required: ["itemName"],
+        },
+    },
+];
+
+export interface ChatToolDependencies {
+    // Classifies the stored menu for another allergy list, with the checks and metering of `analyze`.
+    reclassify: (allergies: string) => Promise<AnalysisResult[]>;
+}
+
+export interface ChatToolRunner {
+    runTool: (call: ChatToolCall) => Promise<object>;
+    cards: ChatToolCard[]; // Filled as tools run, in call order
+}
+
+// --- Argument Validation ---
+
+function requireString(args: Record<string, unknown>, name: string): string {
+    const value = args[name];
+    if (typeof value !== 'string' || !value.trim()) throw new ValidationError(`"${name}" must be a non-empty string.`);
+    return value.trim();
+}
+
+function readAllergyTerms(args: Record<string, unknown>, name: string): string[] {
+    const value = args[name];
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value) || value.some(term => typeof term !== 'string')) {
+        throw new ValidationError(`"${name}" must be a list of strings.`);
+    }
+    const terms = value.map(term => term.trim()).filter(Boolean);
+    for (const term of terms) {
+        if (term.length > MAX_ALLERGY_TERM_CHARS || /[,;\n]/.test(term)) {
+            throw new ValidationError(`"${term.slice(0, MAX_ALLERGY_TERM_CHARS)}" is not a single allergen or ingredient.`);
+        }
+        if (detectInjection(term, 'chat').length > 0) {
+            throw new ValidationError(`"${term}" is not an allergen or ingredient.`);
+        }
+    }
+    return terms;
+}
+
+// --- Lookups ---
+
+function requireResult(results: AnalysisResult[], itemName: string): AnalysisResult {
+    const result = findAnalysisResult(results, itemName);
+    if (!result) throw new ValidationError(`There is no item called "${itemName}" on this menu.`);
+    return result;
+}
+
+/** What the model is told about a verdict; the card carries the full result. */
+function describeForModel(result: AnalysisResult): object {
+    return {
+        itemName: result.itemName,
+        section: result.section,
+        safetyLevel: result.safetyLevel,
+        reasoning: result.reasoning,
+        identifiedAllergens: result.identifiedAllergens,
+        menuText: result.evidence,
+    };
+}
+
+const sameTerm = (a: string, b: string): boolean => {
+    if (a.toLowerCase() === b.toLowerCase()) return true;
+    const codes = resolveAllergenTerm(a);
+    return resolveAllergenTerm(b).some(code => codes.includes(code));
+};
+
+/** The profile's allergy list with terms added and removed, in the comma-separated form `analyze` takes. */
+function changeAllergyList(allergies: string, add: string[], remove: string[]): string {
+    const terms = allergies.split(/[,;\n]/).map(term => term.trim()).filter(Boolean)
+        .filter(term => !remove.some(removed => sameTerm(term, removed)));
+    for (const term of add) {
+        if (!terms.some(existing => sameTerm(existing, term))) terms.push(term);
+    }
+    return terms.join(', ');
+}
+
+function compareVerdicts(before: AnalysisResult[], after: AnalysisResult[]): VerdictChange[] {
+    const changes: VerdictChange[] = [];
+    for (const result of after) {
+        const previous = findAnalysisResult(before, result.originalItemName || result.itemName);
+        if (previous && previous.safetyLevel !== result.safetyLevel) {
+            changes.push({ itemName: result.itemName, before: previous.safetyLevel, after: result.safetyLevel });
+        }
+    }
+    return changes;
+}
+
+// --- Runner ---
+
+/**
+ * Creates the tool runner for one chat message. Invalid arguments are
+ * reported back to the model so it can correct them or tell the user; any
+ * other error, such as an exhausted quota, fails the message.
+ */
+export function createChatToolRunner(snapshot: AnalysisSnapshot, dependencies: ChatToolDependencies): ChatToolRunner {
+    const cards: ChatToolCard[] = [];
+    let reclassified = false;
+
+    const tools: Record<ChatToolName, (args: Record<string, unknown>) => Promise<object>> = {
+        lookup_verdict: async args => {
+            const result = requireResult(snapshot.results, requireString(args, 'itemName'));
+            cards.push({ tool: 'lookup_verdict', results: [result] });
+            return describeForModel(result);
+        },
+
+        reclassify_menu: async args => {
+            const add = readAllergyTerms(args, 'addAllergies');
+            const remove = readAllergyTerms(args, 'removeAllergies');
+            if (add.length + remove.length === 0) throw new ValidationError("Name at least one allergy to add or remove.");
+            if (add.length + remove.length > MAX_ALLERGY_TERMS) throw new ValidationError(`Change at most ${MAX_ALLERGY_TERMS} allergies at a time.`);
+            // Each run is a full classification, so one per message.
+            if (reclassified) throw new ValidationError("The menu was already classified again for this message; answer from that result.");
+
+            const allergies = changeAllergyList(snapshot.profile.allergies, add, remove);
+            if (allergies === changeAllergyList(snapshot.profile.allergies, [], [])) {
+                throw new ValidationError("That does not change the user's allergy list.");
+            }
+            reclassified = true;
+            const results = await dependencies.reclassify(allergies);
+            const changes = compareVerdicts(snapshot.results, results);
+            cards.push({ tool: 'reclassify_menu', allergies, results, changes });
+            return {
+                allergies,
+                counts: Object.fromEntries(Object.values(SafetyLevel).map(level => [level, results.filter(result => result.safetyLevel === level).length])),
+                changedItems: changes.map(change => ({
+                    ...change,
+                    ...describeForModel(results.find(result => result.itemName === change.itemName)!),
+                })),
+            };
+        },
+
+        safest_in_section: async args => {
+            const needle = normalizeItemName(requireString(args, 'section'));
+            const sections = snapshot.menu.sections.map(section => section.name);
+            const section = sections.find(name => normalizeItemName(name) === needle)
+                ?? sections.find(name => normalizeItemName(name).includes(needle) || needle.includes(normalizeItemName(name)));
+            if (!needle || !section) {
+                throw new ValidationError(`There is no section called "${args.section}". The sections are: ${sections.join(', ')}.`);
+            }
+            const picks = snapshot.results
+                .filter(result => result.section === section)
+                .sort((a, b) => SAFETY_RANK[a.safetyLevel] - SAFETY_RANK[b.safetyLevel]
+                    || (b.confidence ?? 0) - (a.confidence ?? 0)
+                    || a.identifiedAllergens.length - b.identifiedAllergens.length)
+                .slice(0, MAX_SECTION_PICKS);
+            cards.push({ tool: 'safest_in_section', section, results: picks });
+            return { section, items: picks.map(describeForModel) };
+        },
+
+        draft_staff_question: async args => {
+            const result = requireResult(snapshot.results, requireString(args, 'itemName'));
+            const question = draftStaffQuestion(result, snapshot.profile.allergies);
+            cards.push({ tool: 'draft_staff_question', itemName: result.itemName, question });
+            return { itemName: result.itemName, question };
+        },
+    };
+
+    const runTool = async (call: ChatToolCall): Promise<object> => {
+        if (!Object.prototype.hasOwnProperty.call(tools, call.name)) return { error: `There is no tool called "${call.name}".` };
+        try {
+            return await tools[call.name as ChatToolName](call.args);
+        } catch (err) {
+            if (err instanceof ValidationError) return { error: err.message };
+            throw err;
+        }
+    };
+
+    return { runTool, cards };
+}
@@ -0,0 +1,58 @@
+// --- Diet Check ---
+// Diet conflicts are judged apart from allergens: the model reports them in
+// their own field, and the keyword check adds the ones it missed. Neither
+// ever touches the safety level. Only the user's own diets and dislikes are
+// kept, so a stray "vegan" conflict for a pescatarian is dropped.
+
+import type { AnalysisResult, DietConflict, DietProfile, MenuDocument } from "../../types";
+import { findMentionedTerm } from "../../services/allergens";
+import { findDietConflicts, hasDiets } from "../../services/diets";
+import { findMenuItem, getMenuItemText } from "./menuDocument";
+
+/** The dislike of the profile a model-reported term refers to, in the user's own words. */
+function matchDislike(term: string | undefined, profile: DietProfile): string | undefined {
+    if (!term) return undefined;
+    return profile.dislikes.find(dislike =>
+        dislike.toLowerCase() === term.toLowerCase() || !!findMentionedTerm(term, [dislike])
+    );
+}
+
+/**
+ * Keeps the model's conflicts that concern the user's diets and dislikes,
+ * one per diet and per dislike. Dislike terms are replaced by the profile's.
+ */
+export function normalizeDietConflicts(conflicts: DietConflict[] | undefined, profile: DietProfile): DietConflict[] {
+    const kept: DietConflict[] = [];
+    for (const conflict of conflicts || []) {
+        if (conflict.diet === 'dislike') {
+            const dislike = matchDislike(conflict.term, profile);
+            if (!dislike || kept.some(existing => existing.diet === 'dislike' && existing.term === dislike)) continue;
+            kept.push({ ...conflict, term: dislike });
+        } else if (profile.regimes.includes(conflict.diet) && !kept.some(existing => existing.diet === conflict.diet)) {
+            kept.push(conflict);
+        }
+    }
+    return kept;
+}
+
+/**
+ * Sets `dietConflicts` on every result: the model's, cleaned up, plus any the
+ * keyword check finds in the menu text for diets and dislikes the model did
+ * not flag. Results of a profile without diets carry no field at all.
+ */
+export function auditDietConflicts(results: AnalysisResult[], menu: MenuDocument, profile: DietProfile): AnalysisResult[] {
+    if (!hasDiets(profile)) {
+        return results.map(({ dietConflicts, ...result }) => result);
+    }
+    return results.map(result => {
+        const name = result.originalItemName || result.itemName;
+        const item = findMenuItem(menu, name)?.item;
+        const labels = item ? [item.name, ...item.dietaryBadges] : [name];
+        const conflicts = normalizeDietConflicts(result.dietConflicts, profile);
+        for (const found of findDietConflicts(getMenuItemText(menu, name), profile, labels)) {
+            const known = conflicts.some(existing => existing.diet === found.diet && (found.diet !== 'dislike' || existing.term === found.term));
+            if (!known) conflicts.push(found);
+        }
+        return { ...result, dietConflicts: conflicts };
+    });
+}
@@ -0,0 +1,130 @@
+// --- API Errors ---
+// Every failure the `api` function reports on purpose is an ApiError with a
+// stable code from ApiErrorCode. The code decides the HTTP status and whether
+// the client should offer to retry; the message is shown to the user as is.
+// Anything else that escapes a handler is logged and reported as
+// `internal_error` without its message.
+
+import type { ApiErrorBody, ApiErrorCode } from "../../types";
+
+const HTTP_STATUS: Record<ApiErrorCode, number> = {
+    validation_error: 400,
+    unauthorized: 401,
+    not_found: 404,
+    method_not_allowed: 405,
+    payload_too_large: 413,
+    unsupported_input: 422,
+    quota_exceeded: 429,
+    guest_limit_reached: 429,
+    internal_error: 500,
+    model_failed: 502,
+    model_output_invalid: 502,
+    places_failed: 502,
+    source_unreachable: 502,
+    not_configured: 503,
+};
+
+// Failures of a service we depend on, which often pass on their own.
+const RETRYABLE: ReadonlySet<ApiErrorCode> = new Set<ApiErrorCode>([
+    'internal_error',
+    'model_failed',
+    'model_output_invalid',
+    'places_failed',
+    'source_unreachable',
+]);
+
+export class ApiError extends Error {
+    readonly status: number;
+    readonly retryable: boolean;
+
+    constructor(readonly code: ApiErrorCode, message: string) {
+        super(message);
+        this.name = 'ApiError';
+        this.status = HTTP_STATUS[code];
+        this.retryable = RETRYABLE.has(code);
+    }
+
+    toBody(): ApiErrorBody {
+        return { error: this.message, code: this.code, retryable: this.retryable };
+    }
+}
+
+/** The request body is malformed or misses a required field. */
+export class ValidationError extends ApiError {
+    constructor(message: string) {
+        super('validation_error', message);
+        this.name = 'ValidationError';
+    }
+}
+
+/** A menu source we cannot read: an unsupported link, a damaged PDF, an unreadable scan. */
+export class UnsupportedInputError extends ApiError {
+    constructor(message: string) {
+        super('unsupported_input', message);
+        this.name = 'UnsupportedInputError';
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string) {
+        super('not_found', message);
+        this.name = 'NotFoundError';
+    }
+}
+
+export class PayloadTooLargeError extends ApiError {
+    constructor(message: string) {
+        super('payload_too_large', message);
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+/** The model provider failed, timed out or could not be reached. */
+export class UpstreamModelError extends ApiError {
+    constructor(message: string = "The AI service is not responding right now. Please try again in a moment.") {
+        super('model_failed', message);
+        this.name = 'UpstreamModelError';
+    }
+}
+
+export class UpstreamPlacesError extends ApiError {
+    constructor(message: string = "Nearby restaurants could not be loaded right now. Please try again in a moment.") {
+        super('places_failed', message);
+        this.name = 'UpstreamPlacesError';
+    }
+}
+
+/** The menu page or file behind a link could not be downloaded. */
+export class SourceUnreachableError extends ApiError {
+    constructor(message: string) {
+        super('source_unreachable', message);
+        this.name = 'SourceUnreachableError';
+    }
+}
+
+/** The server lacks an API key or setting the call needs; retrying will not help. */
+export class NotConfiguredError extends ApiError {
+    constructor(message: string) {
+        super('not_configured', message);
+        this.name = 'NotConfiguredError';
+    }
+}
+
+/**
+ * Reports an error from a model provider as UpstreamModelError. ApiErrors
+ * pass through, and so does SyntaxError, which withValidatedOutput treats as
+ * malformed output worth retrying.
+ */
+export function asUpstreamModelError(err: unknown): unknown {
+    if (err instanceof ApiError || err instanceof SyntaxError) return err;
+    console.error("Model provider error:", err);
+    return new UpstreamModelError();
+}
+
+/** The status and body to answer with for anything a handler throws. */
+export function toErrorResponse(err: unknown): { status: number; body: ApiErrorBody } {
+    const error = err instanceof ApiError
+        ? err
+        : new ApiError('internal_error', "Something went wrong on our side. Please try again.");
+    return { status: error.status, body: error.toBody() };
+}
@@ -0,0 +1,48 @@
+// --- Guest Policy ---
+// Callers without an account are limited per IP address and day, with lower
+// limits than any account. Counters live in the key-value store and expire
+// after a day. Cached analyses are free for guests too.
+
+import { createHash } from "node:crypto";
+import type { UsageKind } from "../../types";
+import { ApiError } from "./errors";
+import { getKvStore } from "./kvStore";
+
+export const GUEST_DAILY_LIMITS: Record<UsageKind, number> = {
+    analyze: 3,
+    summarize: 6,
+    alternative: 10,
+    questions: 10,
+    chat: 30,
+};
+
+/** Thrown when a guest has used up today's allowance for a kind of call. */
+export class GuestLimitError extends ApiError {
+    constructor(readonly kind: UsageKind, readonly limit: number) {
+        super('guest_limit_reached', kind === 'analyze'
+            ? `Guests can analyze ${limit} menus a day. Create a free account or log in to analyze more.`
+            : `You have reached today's limit for guests. Create a free account or log in to continue.`);
+        this.name = 'GuestLimitError';
+    }
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// IPs are hashed so the store never holds them in the clear.
+const counterKey = (clientIp: string, kind: UsageKind, day: string): string =>
+    `guest:${kind}:${day}:${createHash('sha256').update(clientIp).digest('hex').slice(0, 32)}`;
+
+/**
+ * Counts one guest call of `kind` from `clientIp`, or throws GuestLimitError
+ * when today's allowance is used up. The check and the increment are not
+ * atomic; a burst of parallel calls can slightly exceed the limit.
+ */
+export async function consumeGuestAllowance(clientIp: string, kind: UsageKind, now: Date = new Date()): Promise<void> {
+    const limit = GUEST_DAILY_LIMITS[kind];
+    const key = counterKey(clientIp, kind, now.toISOString().slice(0, 10));
+    const store = getKvStore();
+    const stored = await store.get(key);
+    const used = typeof stored === 'number' ? stored : 0;
+    if (used >= limit) throw new GuestLimitError(kind, limit);
+    await store.set(key, used + 1, SECONDS_PER_DAY);
+}
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHmac } from "node:crypto";
+import { JwtError, signJwt, verifyJwt, type JwtClaims } from "./jwt";
+
+const SECRET = "test-secret";
+const NOW = 1_700_000_000;
+const claims = (overrides: Partial<JwtClaims> = {}): JwtClaims =>
+    ({ sub: "user-1", exp: NOW + 3600, iat: NOW, aud: "authenticated", ...overrides });
+
+// Signs any JSON payload, including ones signJwt's types would not allow.
+const signPayload = (payload: unknown): string => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+    const input = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(payload)}`;
+    return `${input}.${createHmac("sha256", SECRET).update(input).digest("base64url")}`;
+};
+
+const rejects = (token: string, message: RegExp) =>
+    assert.throws(() => verifyJwt(token, SECRET, NOW), (err: unknown) => err instanceof JwtError && message.test(err.message));
+
+describe("verifyJwt", () => {
+    it("returns the claims of a valid token", () => {
+        assert.equal(verifyJwt(signJwt(claims(), SECRET), SECRET, NOW).sub, "user-1");
+        assert.equal(verifyJwt(signJwt(claims({ aud: ["other", "authenticated"] }), SECRET), SECRET, NOW).sub, "user-1");
+    });
+
+    it("rejects other algorithms, including unsigned tokens", () => {
+        const [, payload] = signJwt(claims(), SECRET).split(".");
+        const header = Buffer.from(JSON.stringify({ alg: "none", typ: "JWT" })).toString("base64url");
+        rejects(`${header}.${payload}.`, /algorithm "none"/);
+    });
+
+    it("rejects a token signed with another secret or altered after signing", () => {
+        rejects(signJwt(claims(), "another-secret"), /signature/);
+        const [header, , signature] = signJwt(claims(), SECRET).split(".");
+        const forged = Buffer.from(JSON.stringify(claims({ sub: "admin" }))).toString("base64url");
+        rejects(`${header}.${forged}.${signature}`, /signature/);
+    });
+
+    it("rejects expired tokens, allowing for clock skew", () => {
+        rejects(signJwt(claims({ exp: NOW - 60 }), SECRET), /expired/);
+        assert.equal(verifyJwt(signJwt(claims({ exp: NOW - 10 }), SECRET), SECRET, NOW).sub, "user-1");
+    });
+
+    it("rejects tokens that are not valid yet", () => {
+        rejects(signJwt(claims({ nbf: NOW + 60 }), SECRET), /not valid yet/);
+    });
+
+    it("rejects tokens for another audience", () => {
+        rejects(signJwt(claims({ aud: "anon" }), SECRET), /signed-in user/);
+        rejects(signJwt(claims({ aud: undefined }), SECRET), /signed-in user/);
+    });
+
+    it("returns only the known claims, with their expected types", () => {
+        const token = signPayload({ ...claims({ role: "authenticated" }), email: 42, app: "x" });
+        assert.deepEqual(verifyJwt(token, SECRET, NOW), { sub: "user-1", exp: NOW + 3600, iat: NOW, aud: "authenticated", role: "authenticated" });
+    });
+
+    it("rejects malformed tokens", () => {
+        rejects("not-a-token", /malformed/);
+        rejects(signPayload([1, 2]), /malformed/);
+    });
+});
@@ -0,0 +1,38 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createKvStore, FileKvStore, MemoryKvStore } from "./kvStore";
+import type { KvStore } from "./kvStore";
+
+const directory = mkdtempSync(path.join(os.tmpdir(), "kv-store-test-"));
+after(() => rmSync(directory, { recursive: true, force: true }));
+
+const stores: KvStore[] = [new MemoryKvStore(), new FileKvStore(directory)];
+
+for (const store of stores) {
+    describe(`${store.name} store`, () => {
+        it("reads back what was stored under any key", async () => {
+            await store.set("analysis:a/b?c", { results: [1, 2] }, 60);
+            assert.deepEqual(await store.get("analysis:a/b?c"), { results: [1, 2] });
+            assert.equal(await store.get("analysis:missing"), null);
+        });
+
+        it("forgets expired and deleted entries", async () => {
+            await store.set("expired", "value", 0);
+            assert.equal(await store.get("expired"), null);
+            await store.set("kept", "value");
+            await store.delete("kept");
+            assert.equal(await store.get("kept"), null);
+        });
+    });
+}
+
+describe("createKvStore", () => {
+    it("uses memory without Supabase and rejects unknown stores", () => {
+        assert.equal(createKvStore({}).name, "memory");
+        assert.equal(createKvStore({ KV_STORE: "file" }).name, "file");
+        assert.throws(() => createKvStore({ KV_STORE: "redis" }), /Unknown KV_STORE/);
+    });
+});
@@ -0,0 +1,162 @@
+// --- Key-Value Store ---
+// Small JSON store for server-side state that outlives one function call,
+// such as cached analyses. Chosen by environment variables:
+//   KV_STORE      supabase | file | memory. Defaults to supabase when
+//                 SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set, else memory.
+//   KV_STORE_DIR  directory for the file store; defaults to the OS temp dir.
+// The memory store only lives as long as a warm function instance and is
+// meant for local development and the offline mock provider.
+
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+export interface KvStore {
+    readonly name: string;
+    // Values come back as stored JSON; callers check their shape before use.
+    get(key: string): Promise<unknown>;
+    // `ttlSeconds` omitted means the entry never expires.
+    set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+    delete(key: string): Promise<void>;
+}
+
+interface StoredEntry<T> {
+    value: T;
+    expiresAt: number | null; // epoch milliseconds
+}
+
+const expiresAt = (ttlSeconds?: number): number | null =>
+    ttlSeconds === undefined ? null : Date.now() + ttlSeconds * 1000;
+
+const isExpired = (entry: { expiresAt: number | null }): boolean =>
+    entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+export class MemoryKvStore implements KvStore {
+    readonly name = 'memory';
+    private readonly entries = new Map<string, StoredEntry<unknown>>();
+
+    async get(key: string): Promise<unknown> {
+        const entry = this.entries.get(key);
+        if (!entry) return null;
+        if (isExpired(entry)) {
+            this.entries.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        this.entries.set(key, { value, expiresAt: expiresAt(ttlSeconds) });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+}
+
+/** One JSON file per key; keys are hashed so any string is a safe file name. */
+export class FileKvStore implements KvStore {
+    readonly name = 'file';
+
+    constructor(private readonly directory: string = path.join(os.tmpdir(), 'menu-guard-kv')) {}
+
+    private fileFor(key: string): string {
+        return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+    }
+
+    async get(key: string): Promise<unknown> {
+        let entry: StoredEntry<unknown>;
+        try {
+            entry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+        } catch (err) {
+            if (err instanceof Error && 'code' in err && err.code === 'ENOENT') return null;
+            throw err;
+        }
+        if (isExpired(entry)) {
+            await this.delete(key);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        // Write then rename, so a concurrent reader never sees half a file.
+        const file = this.fileFor(key);
+        const temporary = `${file}.${process.pid}.${Date.now()}.tmp`;
+        const entry: StoredEntry<T> = { value, expiresAt: expiresAt(ttlSeconds) };
+        await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+        await fs.rename(temporary, file);
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.rm(this.fileFor(key), { force: true });
+    }
+}
+
+/** Rows in the `kv_store` table; see supabase/migrations. Needs the service role key. */
+export class SupabaseKvStore implements KvStore {
+    readonly name = 'supabase';
+
+    constructor(private readonly client: SupabaseClient) {}
+
+    async get(key: string): Promise<unknown> {
+        const { data, error } = await this.client
+            .from('kv_store')
+            .select('value, expires_at')
+            .eq('key', key)
+            .maybeSingle();
+        if (error) throw new Error(`Could not read from kv_store: ${error.message}`);
+        if (!data) return null;
+        if (data.expires_at && Date.parse(data.expires_at) <= Date.now()) {
+            await this.delete(key);
+            return null;
+        }
+        return data.value;
+    }
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+        const expires = expiresAt(ttlSeconds);
+        const { error } = await this.client.from('kv_store').upsert({
+            key,
+            value,
+            expires_at: expires === null ? null : new Date(expires).toISOString(),
+            updated_at: new Date().toISOString(),
+        });
+        if (error) throw new Error(`Could not write to kv_store: ${error.message}`);
+    }
+
+    async delete(key: string): Promise<void> {
+        const { error } = await this.client.from('kv_store').delete().eq('key', key);
+        if (error) throw new Error(`Could not delete from kv_store: ${error.message}`);
+    }
+}
+
+export function createKvStore(env: Record<string, string | undefined> = process.env): KvStore {
+    const supabase = getSupabaseAdmin();
+    const name = (env.KV_STORE || (supabase ? 'supabase' : 'memory')).trim().toLowerCase();
+    switch (name) {
+        case 'memory':
+            return new MemoryKvStore();
+        case 'file':
+            return new FileKvStore(env.KV_STORE_DIR || undefined);
+        case 'supabase':
+            if (!supabase) {
+                throw new Error("KV_STORE=supabase needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+            }
+            return new SupabaseKvStore(supabase);
+        default:
+            throw new Error(`Unknown KV_STORE "${name}". Use supabase, file or memory.`);
+    }
+}
+
+let store: KvStore | null = null;
+
+/** The configured store, created on first use. */
+export function getKvStore(): KvStore {
+    if (!store) store = createKvStore();
+    return store;
+}
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyLevel } from "../../types";
+import type { MenuDocument } from "../../types";
+import { dedupeMenuDocument, findAnalysisResult, normalizeMenuDocument } from "./menuDocument";
+
+const menu = (sections: MenuDocument["sections"]): MenuDocument => ({ sections, notes: [] });
+
+describe("dedupeMenuDocument", () => {
+    it("merges a section continued on the next page and keeps the more detailed copy", () => {
+        const merged = dedupeMenuDocument(menu([
+            { name: "Mains", items: [{ name: "Fish Pie", dietaryBadges: [] }] },
+            { name: "MAINS", items: [
+                { name: "Fish pie", description: "Cod and prawns under mash", price: "£14", dietaryBadges: ["GF"] },
+                { name: "Lamb Shank", dietaryBadges: [] },
+            ] },
+        ]));
+        assert.deepEqual(merged.sections, [{ name: "Mains", items: [
+            { name: "Fish Pie", description: "Cod and prawns under mash", price: "£14", dietaryBadges: ["GF"] },
+            { name: "Lamb Shank", dietaryBadges: [] },
+        ] }]);
+    });
+
+    it("keeps same-named items of different sections apart", () => {
+        const merged = dedupeMenuDocument(menu([
+            { name: "Lunch", items: [{ name: "Soup of the Day", description: "Tomato", dietaryBadges: [] }] },
+            { name: "Dinner", items: [{ name: "Soup of the Day", description: "Lobster bisque", dietaryBadges: [] }] },
+        ]));
+        assert.deepEqual(merged.sections.map(section => section.items.map(item => item.description)), [["Tomato"], ["Lobster bisque"]]);
+    });
+});
+
+describe("normalizeMenuDocument", () => {
+    it("keeps the detected menu language as a bare ISO 639 code", () => {
+        assert.equal(normalizeMenuDocument({ language: "es-ES", sections: [] }).language, "es");
+        assert.equal(normalizeMenuDocument({ language: "fil", sections: [] }).language, "fil");
+        assert.equal(normalizeMenuDocument({ language: "Spanish", sections: [] }).language, undefined);
+    });
+
+    it("drops malformed sections and items instead of failing", () => {
+        const normalized = normalizeMenuDocument({
+            sections: [
+                null,
+                { items: ["Soup", { name: "  " }, { name: " Fish Pie ", price: 14, dietaryBadges: ["GF", 3] }] },
+                { name: "Desserts", items: "none" },
+            ],
+            notes: "cash only",
+        });
+        assert.deepEqual(normalized.sections, [
+            { name: "Menu", items: [{ name: "Fish Pie", description: undefined, price: undefined, dietaryBadges: ["GF"] }] },
+        ]);
+        assert.deepEqual(normalized.notes, []);
+        assert.deepEqual(normalizeMenuDocument("not a menu"), { restaurantName: undefined, language: undefined, sections: [], notes: [] });
+    });
+});
+
+describe("findAnalysisResult", () => {
+    const results = [{
+        itemName: "Grilled octopus",
+        originalItemName: "Pulpo a la gallega",
+        safetyLevel: SafetyLevel.Safe,
+        reasoning: "No listed allergens.",
+        identifiedAllergens: [],
+    }];
+
+    it("finds a verdict by its translated or its printed name", () => {
+        assert.equal(findAnalysisResult(results, "grilled octopus"), results[0]);
+        assert.equal(findAnalysisResult(results, "Pulpo a la Gallega"), results[0]);
+        assert.equal(findAnalysisResult(results, "Patatas bravas"), null);
+    });
+});
@@ -0,0 +1,196 @@
+// --- Menu Document Helpers ---
+// The first analysis stage turns whatever the user supplied (text, image, URL)
+// into a MenuDocument. These helpers clean up the model's extraction, render
+// the document back into prompt text for the classification stage, and look
+// items up again for the rule check.
+
+import { isObject } from "../../services/validation";
+import type { AnalysisResult, MenuDocument, MenuItem, MenuSection } from "../../types";
+
+const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asStringArray = (value: unknown): string[] =>
+    Array.isArray(value) ? value.map(asString).filter((entry): entry is string => !!entry) : [];
+
+// Two- or three-letter ISO 639 code, e.g. "es" or "fil".
+const asLanguageCode = (value: unknown): string | undefined => {
+    const code = asString(value)?.toLowerCase().split(/[-_]/)[0];
+    return code && /^[a-z]{2,3}$/.test(code) ? code : undefined;
+};
+
+export const normalizeItemName = (value: string): string =>
+    value.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, ' ').trim();
+
+function normalizeMenuSection(raw: unknown): MenuSection {
+    const section: Record<string, unknown> = isObject(raw) ? raw : {};
+    const items: unknown[] = Array.isArray(section.items) ? section.items : [];
+    return {
+        name: asString(section.name) || 'Menu',
+        items: items.filter(isObject).flatMap((item): MenuItem[] => {
+            const name = asString(item.name);
+            return name ? [{
+                name,
+                description: asString(item.description),
+                price: asString(item.price),
+                dietaryBadges: asStringArray(item.dietaryBadges),
+            }] : [];
+        }),
+    };
+}
+
+/**
+ * Coerces the model's extraction output into a well-formed MenuDocument,
+ * dropping items without a name and empty sections.
+ */
+export function normalizeMenuDocument(raw: unknown): MenuDocument {
+    const menu: Record<string, unknown> = isObject(raw) ? raw : {};
+    const sections: unknown[] = Array.isArray(menu.sections) ? menu.sections : [];
+
+    return {
+        restaurantName: asString(menu.restaurantName),
+        language: asLanguageCode(menu.language),
+        sections: sections.map(normalizeMenuSection).filter(section => section.items.length > 0),
+        notes: asStringArray(menu.notes),
+    };
+}
+
+export const countMenuItems = (menu: MenuDocument): number =>
+    menu.sections.reduce((total, section) => total + section.items.length, 0);
+
+/**
+ * Renders the document as plain text for the classification prompt, one item
+ * per line with its description, printed badges and price.
+ */
+export function renderMenuDocument(menu: MenuDocument): string {
+    const lines: string[] = [];
+    if (menu.restaurantName) lines.push(`Restaurant: ${menu.restaurantName}`, '');
+    if (menu.language) lines.push(`Menu language: ${menu.language}`, '');
+    for (const section of menu.sections) {
+        lines.push(`## ${section.name}`);
+        for (const item of section.items) {
+            const badges = item.dietaryBadges.length > 0 ? ` [${item.dietaryBadges.join(', ')}]` : '';
+            const price = item.price ? ` (${item.price})` : '';
+            lines.push(`- ${item.name}${item.description ? ` — ${item.description}` : ''}${badges}${price}`);
+        }
+        lines.push('');
+    }
+    if (menu.notes.length > 0) {
+        lines.push('Menu notes:', ...menu.notes.map(note => `- ${note}`));
+    }
+    return lines.join('\n').trim();
+}
+
+/**
+ * Finds an item by name, tolerating case and punctuation differences and
+ * the model shortening or lengthening the name slightly.
+ */
+export function findMenuItem(menu: MenuDocument, itemName: string): { item: MenuItem; section: MenuSection } | null {
+    const needle = normalizeItemName(itemName);
+    if (!needle) return null;
+    let partial: { item: MenuItem; section: MenuSection } | null = null;
+    for (const section of menu.sections) {
+        for (const item of section.items) {
+            const name = normalizeItemName(item.name);
+            if (name === needle) return { item, section };
+            if (!partial && (name.includes(needle) || needle.includes(name))) partial = { item, section };
+        }
+    }
+    return partial;
+}
+
+const resultNames = (result: AnalysisResult): string[] =>
+    [result.itemName, result.originalItemName].filter((name): name is string => !!name).map(normalizeItemName);
+
+/** The verdict for `itemName`, by its translated or original name, matched like findMenuItem. */
+export function findAnalysisResult(results: AnalysisResult[], itemName: string): AnalysisResult | null {
+    const needle = normalizeItemName(itemName);
+    if (!needle) return null;
+    return results.find(result => resultNames(result).includes(needle))
+        ?? results.find(result => resultNames(result).some(name => name.includes(needle) || needle.includes(name)))
+        ?? null;
+}
+
+/**
+ * The text the menu printed for an item (name, description and badges), used
+ * by the deterministic rule check.
+ */
+export function getMenuItemText(menu: MenuDocument, itemName: string): string {
+    const match = findMenuItem(menu, itemName);
+    if (!match) return itemName;
+    const { item } = match;
+    return [item.name, item.description, ...item.dietaryBadges].filter(Boolean).join('\n');
+}
+
+/**
+ * Merges a document extracted from several photographed pages: sections with
+ * the same name are combined (a section often continues onto the next page and
+ * its header is repeated), and an item printed more than once in the same
+ * section is kept once, preferring the copy with the most detail.
+ */
+export function dedupeMenuDocument(menu: MenuDocument): MenuDocument {
+    const sections: MenuSection[] = [];
+    const sectionsByName = new Map<string, MenuSection>();
+    // Keyed on section and item name: two sections may each have a "Soup of the Day".
+    const itemsByName = new Map<string, MenuItem>();
+
+    for (const section of menu.sections) {
+        const sectionKey = normalizeItemName(section.name);
+        let merged = sectionsByName.get(sectionKey);
+        if (!merged) {
+            merged = { name: section.name, items: [] };
+            sectionsByName.set(sectionKey, merged);
+            sections.push(merged);
+        }
+        for (const item of section.items) {
+            const itemKey = `${sectionKey}\n${normalizeItemName(item.name)}`;
+            const existing = itemsByName.get(itemKey);
+            if (!existing) {
+                const copy = { ...item, dietaryBadges: [...item.dietaryBadges] };
+                itemsByName.set(itemKey, copy);
+                merged.items.push(copy);
+                continue;
+            }
+            if ((item.description?.length || 0) > (existing.description?.length || 0)) existing.description = item.description;
+            if (!existing.price) existing.price = item.price;
+            for (const badge of item.dietaryBadges) {
+                if (!existing.dietaryBadges.includes(badge)) existing.dietaryBadges.push(badge);
+            }
+        }
+    }
+
+    return {
+        restaurantName: menu.restaurantName,
+        language: menu.language,
+        sections: sections.filter(section => section.items.length > 0),
+        notes: Array.from(new Set(menu.notes)),
+    };
+}
+
+/**
+ * Splits a menu into parts of at most `maxItems` items for classification,
+ * keeping sections together where possible. A long section is split across
+ * parts under the same name. Every part keeps the menu-wide notes.
+ */
+export function chunkMenuDocument(menu: MenuDocument, maxItems: number): MenuDocument[] {
+    const chunks: MenuDocument[] = [];
+    let current: MenuSection[] = [];
+    let currentCount = 0;
+    const flush = () => {
+        if (currentCount === 0) return;
+        chunks.push({ ...menu, sections: current });
+        current = [];
+        currentCount = 0;
+    };
+
+    for (const section of menu.sections) {
+        for (let start = 0; start < section.items.length; start += maxItems) {
+            const items = section.items.slice(start, start + maxItems);
+            if (currentCount + items.length > maxItems) flush();
+            current.push({ name: section.name, items });
+            currentCount += items.length;
+        }
+    }
+    flush();
+    return chunks;
+}
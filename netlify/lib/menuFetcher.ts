@@ -0,0 +1,376 @@
+// --- Menu URL Fetching ---
+// Downloads a restaurant's menu page on the server so the model reads the real
+// page instead of guessing from the URL. Every request (including redirects and
+// followed links) goes through `safeFetch`, which refuses private and internal
+// addresses, caps the response size and gives up after a timeout.
+
+import * as http from "http";
+import * as https from "https";
+import * as dns from "dns";
+import * as net from "net";
+import { isPdfUrl, readPdfMenu } from "./pdfMenu";
+import { MAX_PDF_BYTES } from "../../config";
+import { ApiError, SourceUnreachableError, UnsupportedInputError, ValidationError } from "./errors";
+
+const FETCH_TIMEOUT_MS = 8000;
+const MAX_REDIRECTS = 5;
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+// Linked pages read in addition to the one the user gave us.
+const MAX_MENU_SUBPAGES = 3;
+// Menu text is trimmed to this many characters before it goes into the prompt.
+const MAX_MENU_TEXT_CHARS = 60000;
+// Less text than this after stripping the page chrome is not a menu.
+const MIN_MENU_TEXT_CHARS = 80;
+
+const USER_AGENT = "MenuGuard/1.0 (+menu allergen check)";
+
+export interface FetchedResource {
+    url: string;
+    contentType: string;
+    body: Buffer;
+}
+
+export interface FetchedMenu {
+    /** Pages and documents the text was read from, in order. */
+    sources: string[];
+    text: string;
+    /** A linked PDF without a text layer, for the model to read directly. */
+    scannedPdf: Uint8Array | null;
+}
+
+// --- SSRF Protection ---
+
+const parseIPv4 = (address: string): number[] => address.split('.').map(Number);
+
+function isPrivateIPv4(address: string): boolean {
+    const [a, b] = parseIPv4(address);
+    return a === 0                              // "this" network
+        || a === 10                             // private
+        || a === 127                            // loopback
+        || (a === 100 && b >= 64 && b <= 127)   // carrier-grade NAT
+        || (a === 169 && b === 254)             // link-local, cloud metadata
+        || (a === 172 && b >= 16 && b <= 31)    // private
+        || (a === 192 && b === 168)             // private
+        || (a === 192 && b === 0)               // IETF protocol assignments
+        || (a === 198 && (b === 18 || b === 19)) // benchmarking
+        || a >= 224;                            // multicast and reserved
+}
+
+/** The eight 16-bit groups of an IPv6 address, with a trailing dotted quad converted. */
+function expandIPv6(address: string): number[] {
+    let text = address.toLowerCase().replace(/%.*$/, '');
+    const dotted = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+    if (dotted) {
+        const [a, b, c, d] = dotted.slice(1).map(Number);
+        text = text.slice(0, dotted.index) + `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+    }
+    const [head, tail] = text.split('::');
+    const headGroups = head ? head.split(':') : [];
+    const tailGroups = tail ? tail.split(':') : [];
+    const zeros = tail === undefined ? [] : new Array(8 - headGroups.length - tailGroups.length).fill('0');
+    return [...headGroups, ...zeros, ...tailGroups].map(group => parseInt(group, 16));
+}
+
+// IPv4 address carried in the last 32 bits of an IPv6 address.
+const embeddedIPv4 = (groups: number[]): string =>
+    [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+
+function isPrivateIPv6(address: string): boolean {
+    const groups = expandIPv6(address);
+    const [g0, g1] = groups;
+    // URL parsing turns "::ffff:127.0.0.1" into "::ffff:7f00:1", so both forms are decoded.
+    if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+        return isPrivateIPv4(embeddedIPv4(groups));   // IPv4-mapped and IPv4-compatible (including :: and ::1)
+    }
+    if (g0 === 0x2002) {
+        return isPrivateIPv4([g1 >> 8, g1 & 0xff, groups[2] >> 8, groups[2] & 0xff].join('.')); // 6to4
+    }
+    return (g0 === 0x64 && g1 === 0xff9b)      // NAT64, which reaches any IPv4 address
+        || (g0 & 0xfe00) === 0xfc00            // unique local
+        || (g0 & 0xffc0) === 0xfe80            // link-local
+        || (g0 & 0xff00) === 0xff00;           // multicast
+}
+
+/** True for loopback, private, link-local and other addresses a public menu can't live on. */
+export function isPrivateAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (family === 4) return isPrivateIPv4(address);
+    if (family === 6) return isPrivateIPv6(address);
+    return true;
+}
+
+/**
+ * DNS lookup used for every outgoing connection. Checking the address the
+ * socket actually connects to (rather than resolving once up front) also
+ * defeats DNS rebinding.
+ */
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+        // The address is ignored when an error is passed.
+        if (err) return callback(err, []);
+        const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+        if (blocked || addresses.length === 0) {
+            return callback(new UnsupportedInputError(`Refusing to connect to a private address for ${hostname}.`), []);
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+function assertFetchableUrl(url: URL): void {
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new UnsupportedInputError("Only http and https menu links are supported.");
+    }
+    if (url.username || url.password) {
+        throw new UnsupportedInputError("Menu links with embedded credentials are not supported.");
+    }
+    // Literal IPs never reach the lookup hook, so check them here.
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isPrivateAddress(host)) {
+        throw new UnsupportedInputError("This menu link points to a private network address.");
+    }
+    if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+        throw new UnsupportedInputError("This menu link points to a private network address.");
+    }
+}
+
+function requestOnce(url: URL, maxBytes: number, deadline: number): Promise<{ status: number; location?: string; contentType: string; body: Buffer }> {
+    return new Promise((resolve, reject) => {
+        const client = url.protocol === 'https:' ? https : http;
+        const req = client.request(url, {
+            method: 'GET',
+            lookup: guardedLookup,
+            headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.5' },
+        }, (res) => {
+            const status = res.statusCode || 0;
+            const contentType = String(res.headers['content-type'] || '').toLowerCase();
+            if (status >= 300 && status < 400) {
+                res.resume();
+                return resolve({ status, location: res.headers.location, contentType, body: Buffer.alloc(0) });
+            }
+            const declared = Number(res.headers['content-length']);
+            if (declared > maxBytes) {
+                req.destroy();
+                return reject(new UnsupportedInputError("This menu page is too large to read."));
+            }
+            const chunks: Buffer[] = [];
+            let received = 0;
+            res.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                if (received > maxBytes) {
+                    req.destroy();
+                    return reject(new UnsupportedInputError("This menu page is too large to read."));
+                }
+                chunks.push(chunk);
+            });
+            res.on('end', () => resolve({ status, contentType, body: Buffer.concat(chunks) }));
+            res.on('error', reject);
+        });
+        // One deadline covers the whole redirect chain, including slow bodies.
+        const timer = setTimeout(() => req.destroy(new SourceUnreachableError("The menu page took too long to respond.")), Math.max(deadline - Date.now(), 1));
+        req.on('close', () => clearTimeout(timer));
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+/** Where a redirect leads, refusing destinations the original link could not have pointed to. */
+export function resolveRedirect(location: string, from: URL): URL {
+    let url: URL;
+    try {
+        url = new URL(location, from);
+    } catch {
+        throw new SourceUnreachableError("The menu page redirected to an invalid address.");
+    }
+    assertFetchableUrl(url);
+    return url;
+}
+
+/**
+ * Fetches a public URL, following redirects manually so each hop is checked
+ * against the SSRF rules. Throws user-facing errors.
+ */
+export async function safeFetch(rawUrl: string, maxBytes: number = MAX_HTML_BYTES): Promise<FetchedResource> {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        throw new ValidationError("The menu URL is not valid.");
+    }
+    assertFetchableUrl(url);
+    const deadline = Date.now() + FETCH_TIMEOUT_MS;
+
+    for (let redirects = 0; ; redirects++) {
+        if (Date.now() >= deadline) {
+            throw new SourceUnreachableError("The menu page took too long to respond.");
+        }
+        const response = await requestOnce(url, maxBytes, deadline).catch(err => {
+            if (err instanceof ApiError) throw err;
+            // DNS failures, refused connections and TLS errors.
+            console.warn(`Could not reach ${url.host}:`, err);
+            throw new SourceUnreachableError("The menu page could not be reached. Please check the link.");
+        });
+        if (response.status >= 300 && response.status < 400) {
+            if (!response.location) throw new SourceUnreachableError(`The menu page redirected without a destination (HTTP ${response.status}).`);
+            if (redirects >= MAX_REDIRECTS) throw new SourceUnreachableError("The menu page redirected too many times.");
+            url = resolveRedirect(response.location, url);
+            continue;
+        }
+        if (response.status < 200 || response.status >= 300) {
+            throw new SourceUnreachableError(`The menu page could not be downloaded (HTTP ${response.status}).`);
+        }
+        return { url: url.toString(), contentType: response.contentType, body: response.body };
+    }
+}
+
+// --- HTML Extraction ---
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    eacute: '\u00e9', egrave: '\u00e8', agrave: '\u00e0', ccedil: '\u00e7', uuml: '\u00fc', ouml: '\u00f6', auml: '\u00e4',
+    ndash: '\u2013', mdash: '\u2014', euro: '\u20ac', pound: '\u00a3', rsquo: '\u2019', lsquo: '\u2018', hellip: '\u2026',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code < 0x110000 ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Reduces an HTML page to its readable text: scripts, styles, navigation,
+ * headers, footers and forms are dropped, and block elements become line breaks.
+ */
+export function htmlToText(html: string): string {
+    const withoutChrome = html
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<(script|style|noscript|svg|template|iframe|nav|header|footer|form|button|select)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+        .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+        .replace(/<\/?(p|div|li|ul|ol|h[1-6]|tr|table|section|article|dt|dd|dl)\b[^>]*>/gi, '\n')
+        .replace(/<\/(td|th)\s*>/gi, ' \t ')
+        .replace(/<[^>]+>/g, ' ');
+
+    return decodeEntities(withoutChrome)
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n');
+}
+
+const MENU_LINK_PATTERN = /\b(menus?|menu[-_ ]?card|carte|speisekarte|food|dinner|lunch|brunch|breakfast|drinks)\b/i;
+
+/**
+ * Finds links on a page that probably lead to the menu: anchors whose text or
+ * path mentions a menu, plus PDFs embedded with <embed>, <object> or <iframe>.
+ * Subpages must stay on the same site; PDFs may be hosted elsewhere.
+ */
+export function findMenuLinks(html: string, pageUrl: string): { pages: string[]; pdfs: string[] } {
+    const base = new URL(pageUrl);
+    const pages: string[] = [];
+    const pdfs: string[] = [];
+    const resolve = (href: string): URL | null => {
+        try {
+            const resolved = new URL(decodeEntities(href.trim()), base);
+            resolved.hash = '';
+            return resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved : null;
+        } catch {
+            return null;
+        }
+    };
+    const add = (list: string[], url: URL) => {
+        const value = url.toString();
+        if (value !== base.toString() && !list.includes(value)) list.push(value);
+    };
+
+    const anchorPattern = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a\s*>/gi;
+    for (let match = anchorPattern.exec(html); match; match = anchorPattern.exec(html)) {
+        const [, href, inner] = match;
+        const url = resolve(href);
+        if (!url) continue;
+        const looksLikeMenu = MENU_LINK_PATTERN.test(htmlToText(inner)) || MENU_LINK_PATTERN.test(url.pathname);
+        if (!looksLikeMenu) continue;
+        if (isPdfUrl(url.toString())) add(pdfs, url);
+        else if (url.host === base.host) add(pages, url);
+    }
+
+    const embedPattern = /<(?:embed|iframe)\b[^>]*\bsrc\s*=\s*["']([^"']+\.pdf(?:[?#][^"']*)?)["']|<object\b[^>]*\bdata\s*=\s*["']([^"']+\.pdf(?:[?#][^"']*)?)["']/gi;
+    for (let match = embedPattern.exec(html); match; match = embedPattern.exec(html)) {
+        const url = resolve(match[1] || match[2]);
+        if (url) add(pdfs, url);
+    }
+
+    return { pages, pdfs };
+}
+
+const isPdfResource = (resource: FetchedResource): boolean =>
+    resource.contentType.includes('application/pdf') || isPdfUrl(resource.url);
+
+/**
+ * Reads the menu behind a URL: the page itself, up to a few linked menu
+ * subpages, and the first linked or embedded PDF. Throws when nothing that
+ * looks like a menu could be read, so the model is never asked to guess.
+ */
+export async function readMenuFromUrl(menuUrl: string): Promise<FetchedMenu> {
+    const sources: string[] = [];
+    const sections: string[] = [];
+    let scannedPdf: Uint8Array | null = null;
+
+    const readPdf = async (resource: FetchedResource) => {
+        const pdf = await readPdfMenu(new Uint8Array(resource.body));
+        sources.push(resource.url);
+        if (pdf.kind === 'text') {
+            sections.push(`Source: ${resource.url} (PDF)\n${pdf.text}`);
+        } else if (!scannedPdf) {
+            scannedPdf = new Uint8Array(resource.body);
+        }
+    };
+
+    const main = await safeFetch(menuUrl, Math.max(MAX_HTML_BYTES, MAX_PDF_BYTES));
+    if (isPdfResource(main)) {
+        await readPdf(main);
+    } else {
+        const html = main.body.toString('utf8');
+        const mainText = htmlToText(html);
+        if (mainText) {
+            sources.push(main.url);
+            sections.push(`Source: ${main.url}\n${mainText}`);
+        }
+
+        const links = findMenuLinks(html, main.url);
+        for (const pageUrl of links.pages.slice(0, MAX_MENU_SUBPAGES)) {
+            try {
+                const page = await safeFetch(pageUrl, Math.max(MAX_HTML_BYTES, MAX_PDF_BYTES));
+                if (isPdfResource(page)) {
+                    await readPdf(page);
+                    continue;
+                }
+                const text = htmlToText(page.body.toString('utf8'));
+                if (text) {
+                    sources.push(page.url);
+                    sections.push(`Source: ${page.url}\n${text}`);
+                }
+            } catch (err) {
+                // A broken subpage shouldn't fail the whole menu.
+                console.warn(`Skipping menu subpage ${pageUrl}:`, err);
+            }
+        }
+        const pdfUrl = links.pdfs[0];
+        if (pdfUrl) {
+            try {
+                await readPdf(await safeFetch(pdfUrl, MAX_PDF_BYTES));
+            } catch (err) {
+                console.warn(`Skipping menu PDF ${pdfUrl}:`, err);
+            }
+        }
+    }
+
+    const text = sections.join('\n\n').slice(0, MAX_MENU_TEXT_CHARS);
+    if (text.replace(/\s+/g, '').length < MIN_MENU_TEXT_CHARS && !scannedPdf) {
+        throw new UnsupportedInputError("We could not read a menu on this page. Please paste the menu text or upload photos of it instead.");
+    }
+    return { sources, text, scannedPdf };
+}
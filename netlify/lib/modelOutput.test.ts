@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { UpstreamModelError } from "./errors";
+import { MAX_MODEL_ATTEMPTS, ModelOutputError, withValidatedOutput } from "./modelOutput";
+
+// Accepts objects with a numeric `count`.
+const checkCount = (raw: unknown) => {
+    const count = typeof raw === "object" && raw !== null && "count" in raw ? raw.count : undefined;
+    return typeof count === "number"
+        ? { value: count, issues: [], usable: true }
+        : { value: 0, issues: [{ path: "count", message: "missing" }], usable: false };
+};
+
+describe("withValidatedOutput", () => {
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    it("retries unusable output with the problems as feedback", async () => {
+        const feedback: string[] = [];
+        const replies: unknown[] = [{ total: 3 }, { count: 3 }];
+        const count = await withValidatedOutput("count", async previous => {
+            feedback.push(previous);
+            return replies.shift();
+        }, checkCount);
+        assert.equal(count, 3);
+        assert.equal(feedback[0], "");
+        assert.match(feedback[1], /count: missing/);
+    });
+
+    it("treats malformed JSON as an unusable attempt", async () => {
+        let calls = 0;
+        const count = await withValidatedOutput("count", async () => {
+            calls++;
+            if (calls === 1) return JSON.parse("{\"count\": ");
+            return { count: 1 };
+        }, checkCount);
+        assert.equal(count, 1);
+        assert.equal(calls, 2);
+    });
+
+    it("gives up after the last attempt", async () => {
+        let calls = 0;
+        await assert.rejects(
+            withValidatedOutput("count", async () => { calls++; return {}; }, checkCount),
+            (err: unknown) => err instanceof ModelOutputError && err.code === "model_output_invalid" && err.issues[0].path === "count"
+        );
+        assert.equal(calls, MAX_MODEL_ATTEMPTS);
+    });
+
+    it("does not retry other failures", async () => {
+        let calls = 0;
+        await assert.rejects(
+            withValidatedOutput("count", async () => { calls++; throw new UpstreamModelError(); }, checkCount),
+            UpstreamModelError
+        );
+        assert.equal(calls, 1);
+    });
+});
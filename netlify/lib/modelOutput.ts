@@ -0,0 +1,74 @@
+// --- Model Output Validation ---
+// Structured output is not guaranteed to follow the schema: models drop
+// required fields, invent enum values or return truncated JSON. Each
+// structured call is validated, and when the output is unusable the call is
+// repeated with the validation errors appended, up to MAX_MODEL_ATTEMPTS times.
+
+import { formatValidationIssues, type ValidationIssue } from "../../services/validation";
+import { ApiError } from "./errors";
+
+export const MAX_MODEL_ATTEMPTS = 3;
+
+/** Thrown when the model's output is still unusable after every attempt. */
+export class ModelOutputError extends ApiError {
+    constructor(
+        readonly stage: string,
+        readonly attempts: number,
+        readonly issues: ValidationIssue[]
+    ) {
+        super('model_output_invalid', "The AI returned a response we could not read, even after retrying. Please try again in a moment.");
+        this.name = 'ModelOutputError';
+    }
+}
+
+export interface CheckedOutput<T> {
+    value: T;
+    issues: ValidationIssue[];
+    // False when the output should be thrown away and the call retried.
+    usable: boolean;
+}
+
+/**
+ * Calls `attempt` until `check` accepts its output. `attempt` receives the
+ * previous attempt's problems as prompt text (empty on the first try).
+ * Malformed JSON counts as an unusable attempt; any other error is rethrown.
+ */
+export async function withValidatedOutput<T>(
+    stage: string,
+    attempt: (feedback: string) => Promise<unknown>,
+    check: (raw: unknown) => CheckedOutput<T>
+): Promise<T> {
+    let feedback = '';
+    let issues: ValidationIssue[] = [];
+    for (let attemptNumber = 1; attemptNumber <= MAX_MODEL_ATTEMPTS; attemptNumber++) {
+        let raw: unknown;
+        try {
+            raw = await attempt(feedback);
+        } catch (err) {
+            if (!(err instanceof SyntaxError)) throw err;
+            issues = [{ path: '$', message: `the response was not valid JSON (${err.message})` }];
+            feedback = retryFeedback(issues);
+            console.warn(`Model output for ${stage} was not JSON (attempt ${attemptNumber}).`);
+            continue;
+        }
+        const checked = check(raw);
+        if (checked.usable) {
+            if (checked.issues.length > 0) {
+                console.warn(`Repaired model output for ${stage}:\n${formatValidationIssues(checked.issues)}`);
+            }
+            return checked.value;
+        }
+        issues = checked.issues;
+        feedback = retryFeedback(issues);
+        console.warn(`Unusable model output for ${stage} (attempt ${attemptNumber}):\n${formatValidationIssues(issues)}`);
+    }
+    throw new ModelOutputError(stage, MAX_MODEL_ATTEMPTS, issues);
+}
+
+const MAX_FEEDBACK_ISSUES = 20;
+
+function retryFeedback(issues: ValidationIssue[]): string {
+    const listed = formatValidationIssues(issues.slice(0, MAX_FEEDBACK_ISSUES));
+    const more = issues.length > MAX_FEEDBACK_ISSUES ? `\n(and ${issues.length - MAX_FEEDBACK_ISSUES} more)` : '';
+    return `\n\nYour previous response could not be used because it did not match the schema:\n${listed}${more}\nReturn the complete answer again as JSON that conforms exactly to the schema.`;
+}
@@ -0,0 +1,64 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_PDF_BYTES } from "../../config";
+import { PayloadTooLargeError, UnsupportedInputError } from "./errors";
+import { isPdfUrl, readPdfMenu } from "./pdfMenu";
+
+/** Builds a PDF with one page per entry, each showing its lines in Helvetica; an empty list gives a blank page. */
+function buildPdf(pages: string[][]): Uint8Array {
+    const pageIds = pages.map((_, index) => 4 + index * 2);
+    const objects = [
+        "<< /Type /Catalog /Pages 2 0 R >>",
+        `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    ];
+    pages.forEach((lines, index) => {
+        const content = lines.length > 0
+            ? `BT /F1 12 Tf 72 720 Td 16 TL ${lines.map(line => `(${line}) Tj T*`).join(" ")} ET`
+            : "";
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    let pdf = "%PDF-1.4\n";
+    const offsets = objects.map((object, index) => {
+        const offset = pdf.length;
+        pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")}`;
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(pdf);
+}
+
+const MENU_PAGE = ["STARTERS", "Peanut Noodles - rice noodles, crushed peanuts 12", "Green Salad - lettuce, cucumber, lemon dressing 8"];
+
+describe("readPdfMenu", () => {
+    it("extracts the text layer page by page", async () => {
+        const content = await readPdfMenu(buildPdf([MENU_PAGE, ["DESSERTS", "Lemon Tart - butter pastry, lemon curd, cream 7"]]));
+        assert.equal(content.kind, "text");
+        assert.equal(content.pageCount, 2);
+        const text = content.kind === "text" ? content.text : "";
+        assert.match(text, /--- Page 1 ---\nSTARTERS/);
+        assert.match(text, /crushed peanuts/);
+        assert.match(text, /--- Page 2 ---\nDESSERTS/);
+    });
+
+    it("marks PDFs without a text layer as scanned", async () => {
+        assert.deepEqual(await readPdfMenu(buildPdf([[], []])), { kind: "scanned", pageCount: 2 });
+    });
+
+    it("rejects files that are not PDFs or are too large", async () => {
+        await assert.rejects(readPdfMenu(new TextEncoder().encode("<html>menu</html>")), UnsupportedInputError);
+        await assert.rejects(readPdfMenu(new Uint8Array(MAX_PDF_BYTES + 1)), PayloadTooLargeError);
+    });
+});
+
+describe("isPdfUrl", () => {
+    it("looks at the path only", () => {
+        assert.equal(isPdfUrl("https://example.com/menu.PDF?v=2"), true);
+        assert.equal(isPdfUrl("https://example.com/menu?format=pdf"), false);
+        assert.equal(isPdfUrl("not a url"), false);
+    });
+});
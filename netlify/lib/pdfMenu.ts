@@ -0,0 +1,68 @@
+// --- PDF Menus ---
+// Reads uploaded or linked PDF menus on the server. PDFs exported from a design
+// tool carry a text layer, which is extracted page by page and analyzed like
+// pasted text. Scanned PDFs have no text layer; those are handed to the model
+// as a document so it can read the page images itself.
+
+import { extractText, getDocumentProxy } from "unpdf";
+import { MAX_PDF_BYTES, MAX_PDF_PAGES } from "../../config";
+import { PayloadTooLargeError, UnsupportedInputError } from "./errors";
+
+export type PdfMenuContent =
+    | { kind: 'text'; text: string; pageCount: number }
+    | { kind: 'scanned'; pageCount: number };
+
+// Fewer printable characters per page than this means there is no usable text
+// layer (page numbers or a logo caption only).
+const MIN_TEXT_CHARS_PER_PAGE = 40;
+
+/** True if the URL points at a PDF by its path, e.g. `https://example.com/menu.pdf?v=2`. */
+export function isPdfUrl(url: string): boolean {
+    try {
+        return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+    } catch {
+        return false;
+    }
+}
+
+/** Checks the `%PDF-` magic bytes so a mislabelled upload fails with a clear message. */
+const hasPdfSignature = (bytes: Uint8Array): boolean =>
+    bytes.length > 4 && String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3], bytes[4]) === '%PDF-';
+
+/**
+ * Opens a PDF and returns its text, or marks it as scanned when the pages
+ * carry no text layer. Throws user-facing errors for files that are not PDFs,
+ * are password protected, or have too many pages.
+ */
+export async function readPdfMenu(bytes: Uint8Array): Promise<PdfMenuContent> {
+    if (bytes.length > MAX_PDF_BYTES) {
+        throw new PayloadTooLargeError(`This PDF is too large. Menus up to ${Math.round(MAX_PDF_BYTES / (1024 * 1024))} MB are supported.`);
+    }
+    if (!hasPdfSignature(bytes)) {
+        throw new UnsupportedInputError("This file is not a valid PDF.");
+    }
+
+    let pdf;
+    try {
+        pdf = await getDocumentProxy(bytes);
+    } catch (err) {
+        if (err instanceof Error && err.name === 'PasswordException') {
+            throw new UnsupportedInputError("This PDF is password protected. Please upload an unprotected copy or photos of the menu.");
+        }
+        console.error("Failed to open PDF:", err);
+        throw new UnsupportedInputError("This PDF could not be opened. It may be damaged.");
+    }
+
+    if (pdf.numPages > MAX_PDF_PAGES) {
+        throw new PayloadTooLargeError(`This PDF has ${pdf.numPages} pages. Menus up to ${MAX_PDF_PAGES} pages are supported.`);
+    }
+
+    const { totalPages, text } = await extractText(pdf, { mergePages: false });
+    const printable = text.join('').replace(/\s+/g, '').length;
+    if (printable < MIN_TEXT_CHARS_PER_PAGE * totalPages) {
+        return { kind: 'scanned', pageCount: totalPages };
+    }
+
+    const pages = text.map((pageText, index) => `--- Page ${index + 1} ---\n${pageText.trim()}`);
+    return { kind: 'text', text: pages.join('\n\n'), pageCount: totalPages };
+}
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import handler from "../../functions/api";
+import { findAnalysisResult } from "../menuDocument";
+import { ADVERSARIAL_FIXTURES, GULLIBLE_MOCK_MODEL } from "./adversarialFixtures";
+import { useTestEnv } from "../../../tests/testEnv";
+
+// Each fixture is analyzed by a model that obeys the menu, through the same
+// handler the app calls, as its own guest so the daily limit never applies.
+const analyze = (fixture: typeof ADVERSARIAL_FIXTURES[number], index: number) => handler(new Request("http://localhost/api", {
+    method: "POST",
+    headers: { "x-nf-client-connection-ip": `198.51.100.${index + 1}` },
+    body: JSON.stringify({
+        type: "analyze",
+        data: { allergies: fixture.allergies, allergySeverities: {}, outputLanguage: "en", menuText: fixture.menuText },
+    }),
+}));
+
+describe("adversarial menu fixtures", () => {
+    useTestEnv({ LLM_PROVIDER: "mock", LLM_MODEL: GULLIBLE_MOCK_MODEL, KV_STORE: "memory" });
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    ADVERSARIAL_FIXTURES.forEach((fixture, index) => {
+        it(fixture.name, async () => {
+            const response = await analyze(fixture, index);
+            assert.equal(response.status, 200);
+            const analysis = await response.json();
+
+            const warnings = Array.from(new Set(analysis.securityWarnings.map((warning: { kind: string }) => warning.kind))).sort();
+            assert.deepEqual(warnings, [...fixture.expectedWarnings].sort());
+
+            for (const name of fixture.mustNotBeSafe) {
+                const result = findAnalysisResult(analysis.results, name);
+                assert.ok(result, `"${name}" is missing from the results`);
+                assert.notEqual(result.safetyLevel, "safe", `"${name}" came back safe`);
+            }
+        });
+    });
+});
@@ -0,0 +1,37 @@
+// --- Mock Provider Fixtures ---
+// What the mock provider "reads" from inputs it cannot parse itself (photos,
+// scanned PDFs). Chosen so every allergen path is exercised: stated
+// ingredients, a hidden-ingredient dish, a dietary badge, a kitchen-wide
+// warning and a cross-contact note.
+
+export const SAMPLE_MENU = {
+    restaurantName: "Harbour Kitchen (sample menu)",
+    language: "en",
+    sections: [
+        {
+            name: "Starters",
+            items: [
+                { name: "Tomato Bruschetta", description: "Toasted sourdough, tomato, basil, olive oil", price: "$8", dietaryBadges: ["V"] },
+                { name: "Salt & Pepper Calamari", description: "Fried squid, aioli", price: "$12", dietaryBadges: [] },
+                { name: "Garden Salad", description: "Mixed leaves, cucumber, radish, lemon dressing", price: "$9", dietaryBadges: ["V", "GF"] },
+            ],
+        },
+        {
+            name: "Mains",
+            items: [
+                { name: "Pad Thai", description: "Rice noodles, tofu, bean sprouts", price: "$16", dietaryBadges: [] },
+                { name: "Grilled Salmon", description: "Salmon fillet, butter sauce, new potatoes", price: "$22", dietaryBadges: ["GF"] },
+                { name: "Mushroom Risotto", description: "Arborio rice, mushrooms, parmesan", price: "$18", dietaryBadges: ["V"] },
+                { name: "Steak Frites", description: "Sirloin steak, fries (cooked in the same fryer as the calamari)", price: "$26", dietaryBadges: [] },
+            ],
+        },
+        {
+            name: "Desserts",
+            items: [
+                { name: "Pecan Pie", description: "Pecans, shortcrust pastry, whipped cream", price: "$9", dietaryBadges: [] },
+                { name: "Mango Sorbet", description: "Mango, sugar, lime", price: "$7", dietaryBadges: ["VG", "GF"] },
+            ],
+        },
+    ],
+    notes: ["Our kitchen handles nuts, sesame and gluten. We cannot guarantee any dish is allergen free."],
+};
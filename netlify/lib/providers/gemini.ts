@@ -0,0 +1,89 @@
+// --- Gemini Provider ---
+
+import { FunctionCallingConfigMode, GoogleGenAI, type Part } from "@google/genai";
+import { NotConfiguredError } from "../errors";
+import type { AlternativeRequest, AnalyzeRequest, ChatRequest, ContentPart, LlmProvider, QuestionsRequest, SummarizeRequest } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private client: GoogleGenAI | null = null;
+
+    constructor(readonly model: string = DEFAULT_GEMINI_MODEL, private readonly apiKey: string | undefined = process.env.API_KEY) {}
+
+    // Created on first use so a missing key only fails the requests that need it.
+    private get ai(): GoogleGenAI {
+        if (!this.client) {
+            if (!this.apiKey) {
+                throw new NotConfiguredError("API_KEY environment variable is not set. Set it, or use LLM_PROVIDER=mock to run offline.");
+            }
+            this.client = new GoogleGenAI({ apiKey: this.apiKey });
+        }
+        return this.client;
+    }
+
+    private async generateJson(systemInstruction: string, parts: ContentPart[], responseSchema: object): Promise<unknown> {
+        const response = await this.ai.models.generateContent({
+            model: this.model,
+            contents: { parts },
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema,
+            },
+        });
+        return JSON.parse(response.text?.trim() || '{}');
+    }
+
+    async analyze(request: AnalyzeRequest): Promise<unknown> {
+        const parts = request.stage === 'extract' ? request.parts : [{ text: request.prompt }];
+        return this.generateJson(request.systemInstruction, parts, request.responseSchema);
+    }
+
+    async summarize(request: SummarizeRequest): Promise<string> {
+        const response = await this.ai.models.generateContent({ model: this.model, contents: request.prompt });
+        return response.text || '';
+    }
+
+    async alternative(request: AlternativeRequest): Promise<unknown> {
+        return this.generateJson(request.systemInstruction, [{ text: request.prompt }], request.responseSchema);
+    }
+
+    async questions(request: QuestionsRequest): Promise<unknown> {
+        return this.generateJson(request.systemInstruction, [{ text: request.prompt }], request.responseSchema);
+    }
+
+    async chat(request: ChatRequest): Promise<string> {
+        const history = request.history.map(turn => ({
+            role: turn.role,
+            parts: [{ text: turn.content }],
+        }));
+        const tools = [{
+            functionDeclarations: request.tools.map(tool => ({
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+            })),
+        }];
+        const chat = this.ai.chats.create({ model: this.model, history, config: { systemInstruction: request.systemInstruction, tools } });
+        let response = await chat.sendMessage({ message: request.message });
+
+        for (let round = 1; round <= request.maxToolRounds && response.functionCalls?.length; round++) {
+            const parts: Part[] = [];
+            for (const call of response.functionCalls) {
+                const output = await request.runTool({ name: call.name || '', args: call.args || {} });
+                parts.push({ functionResponse: { id: call.id, name: call.name, response: { ...output } } });
+            }
+            // After the last round the model has to answer in text.
+            const toolConfig = round === request.maxToolRounds
+                ? { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } }
+                : undefined;
+            response = await chat.sendMessage({
+                message: parts,
+                ...(toolConfig && { config: { systemInstruction: request.systemInstruction, tools, toolConfig } }),
+            });
+        }
+        return response.text || '';
+    }
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { NotConfiguredError, UpstreamModelError, ValidationError } from "../errors";
+import { DEFAULT_GEMINI_MODEL } from "./gemini";
+import { createProvider, reportingUpstreamErrors } from "./index";
+import { DEFAULT_MOCK_MODEL } from "./mock";
+import { DEFAULT_OPENAI_MODEL, OpenAiCompatibleProvider, toJsonSchema } from "./openaiCompatible";
+import type { LlmProvider } from "./types";
+
+const summarizeRequest = { prompt: "Summarize.", input: { results: [], allergies: "peanut" } };
+
+describe("createProvider", () => {
+    it("uses Gemini and each provider's default model unless configured otherwise", () => {
+        assert.deepEqual([createProvider({}).name, createProvider({}).model], ["gemini", DEFAULT_GEMINI_MODEL]);
+        assert.deepEqual([createProvider({ LLM_PROVIDER: " OpenAI " }).name, createProvider({ LLM_PROVIDER: "openai" }).model], ["openai", DEFAULT_OPENAI_MODEL]);
+        assert.equal(createProvider({ LLM_PROVIDER: "mock" }).model, DEFAULT_MOCK_MODEL);
+        assert.equal(createProvider({ LLM_PROVIDER: "openai-compatible", LLM_MODEL: "llama3.1" }).model, "llama3.1");
+    });
+
+    it("rejects unknown providers", () => {
+        assert.throws(() => createProvider({ LLM_PROVIDER: "claude" }), NotConfiguredError);
+    });
+
+    it("fails only the calls that need a missing Gemini key", async () => {
+        const provider = createProvider({ LLM_PROVIDER: "gemini" });
+        await assert.rejects(provider.summarize(summarizeRequest), NotConfiguredError);
+    });
+});
+
+describe("reportingUpstreamErrors", () => {
+    beforeEach(() => {
+        mock.method(console, "error", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    const failingWith = (err: Error): LlmProvider => {
+        const provider = createProvider({ LLM_PROVIDER: "mock" });
+        return reportingUpstreamErrors({ ...provider, summarize: () => Promise.reject(err) });
+    };
+
+    it("reports provider failures as upstream model errors", async () => {
+        await assert.rejects(failingWith(new Error("socket hang up")).summarize(summarizeRequest), UpstreamModelError);
+    });
+
+    it("keeps API errors and malformed JSON as they are", async () => {
+        await assert.rejects(failingWith(new ValidationError("Bad input.")).summarize(summarizeRequest), ValidationError);
+        await assert.rejects(failingWith(new SyntaxError("Unexpected token")).summarize(summarizeRequest), SyntaxError);
+    });
+});
+
+describe("OpenAiCompatibleProvider", () => {
+    afterEach(() => mock.restoreAll());
+
+    const replyWith = (content: string, status = 200) =>
+        mock.method(globalThis, "fetch", async () => new Response(
+            status === 200 ? JSON.stringify({ choices: [{ message: { content } }] }) : content,
+            { status }
+        ));
+
+    it("posts to the chat completions endpoint of the configured server", async () => {
+        const fetchMock = replyWith("All clear.");
+        const provider = new OpenAiCompatibleProvider("llama3.1", "http://localhost:11434/v1/", "secret");
+        assert.equal(await provider.summarize(summarizeRequest), "All clear.");
+
+        const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+        assert.equal(url, "http://localhost:11434/v1/chat/completions");
+        assert.equal(new Headers(init.headers).get("authorization"), "Bearer secret");
+        assert.equal(JSON.parse(String(init.body)).model, "llama3.1");
+    });
+
+    it("reads JSON wrapped in a code fence", async () => {
+        replyWith('```json\n{"suggestions": []}\n```');
+        const provider = new OpenAiCompatibleProvider();
+        const output = await provider.alternative({ systemInstruction: "", prompt: "", responseSchema: {}, input: { flagged: [], candidates: [] } });
+        assert.deepEqual(output, { suggestions: [] });
+    });
+
+    it("fails on server errors", async () => {
+        replyWith("overloaded", 503);
+        await assert.rejects(new OpenAiCompatibleProvider().summarize(summarizeRequest), /HTTP 503/);
+    });
+
+    it("treats a reply without text or well-formed tool calls as empty", async () => {
+        mock.method(globalThis, "fetch", async () => new Response(JSON.stringify({
+            choices: [{ message: { content: null, tool_calls: [{ id: "call-1", function: { name: "lookup_verdict" } }] } }],
+        })));
+        await assert.rejects(new OpenAiCompatibleProvider().summarize(summarizeRequest), /empty response/);
+    });
+});
+
+describe("toJsonSchema", () => {
+    it("lowercases Gemini schema types at every level", () => {
+        const schema = { type: "OBJECT", properties: { items: { type: "ARRAY", items: { type: "STRING" } } }, required: ["items"] };
+        assert.deepEqual(toJsonSchema(schema), {
+            type: "object",
+            properties: { items: { type: "array", items: { type: "string" } } },
+            required: ["items"],
+        });
+    });
+});
@@ -0,0 +1,54 @@
+// --- Provider Selection ---
+// Chosen by environment variables:
+//   LLM_PROVIDER  gemini (default) | openai | mock
+//   LLM_MODEL     model name; defaults per provider
+//   LLM_BASE_URL  base URL for the openai provider, e.g. http://localhost:11434/v1
+//   LLM_API_KEY   API key for the openai provider (optional for local servers)
+// The Gemini provider keeps using API_KEY.
+
+import { asUpstreamModelError, NotConfiguredError } from "../errors";
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from "./gemini";
+import { DEFAULT_MOCK_MODEL, MockProvider } from "./mock";
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL, OpenAiCompatibleProvider } from "./openaiCompatible";
+import type { LlmProvider } from "./types";
+
+export type { LlmProvider } from "./types";
+
+export function createProvider(env: Record<string, string | undefined> = process.env): LlmProvider {
+    const name = (env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+    const model = env.LLM_MODEL?.trim() || undefined;
+    switch (name) {
+        case 'gemini':
+            return new GeminiProvider(model || DEFAULT_GEMINI_MODEL, env.API_KEY);
+        case 'openai':
+        case 'openai-compatible':
+            return new OpenAiCompatibleProvider(model || DEFAULT_OPENAI_MODEL, env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL, env.LLM_API_KEY);
+        case 'mock':
+            return new MockProvider(model || DEFAULT_MOCK_MODEL);
+        default:
+            throw new NotConfiguredError(`Unknown LLM_PROVIDER "${name}". Use gemini, openai or mock.`);
+    }
+}
+
+/** Wraps `inner` so its failures reach the API as UpstreamModelError (HTTP 502) instead of 500. */
+export function reportingUpstreamErrors(inner: LlmProvider): LlmProvider {
+    const guard = <T>(call: () => Promise<T>): Promise<T> =>
+        call().catch(err => { throw asUpstreamModelError(err); });
+    return {
+        name: inner.name,
+        model: inner.model,
+        analyze: request => guard(() => inner.analyze(request)),
+        summarize: request => guard(() => inner.summarize(request)),
+        alternative: request => guard(() => inner.alternative(request)),
+        questions: request => guard(() => inner.questions(request)),
+        chat: request => guard(() => inner.chat(request)),
+    };
+}
+
+let provider: LlmProvider | null = null;
+
+/** The configured provider, created on first use. */
+export function getProvider(): LlmProvider {
+    if (!provider) provider = reportingUpstreamErrors(createProvider());
+    return provider;
+}
@@ -0,0 +1,227 @@
+// --- Mock Provider ---
+// A deterministic, offline stand-in for a model. Text menus are parsed line by
+// line, anything else (photos, scans) yields the sample fixture menu, and items
+// are classified with the allergen keyword tables. The same input always gives
+// the same output, so the app can be run and tested without network access.
+// LLM_MODEL=gullible turns it into a model that obeys instructions hidden in
+// menus, for replaying the adversarial fixtures.
+
+import { findAllergenKeywords, getAllergenLabel } from "../../../services/allergens";
+import { findDietConflicts, hasDiets } from "../../../services/diets";
+import { isObject } from "../../../services/validation";
+import { SafetyLevel } from "../../../types";
+import { detectKitchenRiskStatements, SAFETY_RANK } from "../ruleCheck";
+import { scanMenuForInjection } from "../promptSafety";
+import { GULLIBLE_MOCK_MODEL } from "./adversarialFixtures";
+import { SAMPLE_MENU } from "./fixtures";
+import type { AlternativeRequest, AnalyzeRequest, ChatRequest, ChatToolCall, ClassifyMenuRequest, LlmProvider, QuestionsRequest, SummarizeRequest } from "./types";
+
+export const DEFAULT_MOCK_MODEL = 'fixtures';
+
+// "Name - description $12", "Name: description" or "Name".
+const ITEM_LINE = /^[-*•]?\s*([^:–—]+?)(?:\s+[-–—]\s+|:\s+)(.+)$/;
+const PRICE = /\s*\(?([$€£]\s?\d+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?\s?[$€£])\)?\s*$/;
+
+/** True for "## Mains", "Desserts:" and short all-caps headings like "STARTERS". */
+function isHeading(line: string): boolean {
+    if (line.startsWith('#')) return true;
+    if (/:$/.test(line) && line.split(/\s+/).length <= 4) return true;
+    return line.length <= 30 && /[A-Z]/.test(line) && line === line.toUpperCase() && !/\d/.test(line);
+}
+
+/** Parses plain menu text into the extraction schema's shape. */
+export function parseMenuText(text: string) {
+    const sections: { name: string; items: { name: string; description?: string; price?: string; dietaryBadges: string[] }[] }[] = [];
+    const notes: string[] = [];
+    let current: (typeof sections)[number] | null = null;
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        // Page markers and source lines added by the PDF and URL readers.
+        if (!line || /^---.*---$/.test(line) || /^Source:/.test(line) || line.startsWith('```')) continue;
+        if (detectKitchenRiskStatements(line).length > 0) {
+            notes.push(line);
+            continue;
+        }
+        if (isHeading(line)) {
+            current = { name: line.replace(/^#+\s*/, '').replace(/:$/, '').trim(), items: [] };
+            sections.push(current);
+            continue;
+        }
+        if (!current) {
+            current = { name: 'Menu', items: [] };
+            sections.push(current);
+        }
+        const priceMatch = line.match(PRICE);
+        const withoutPrice = priceMatch ? line.slice(0, priceMatch.index).trim() : line;
+        const itemMatch = withoutPrice.match(ITEM_LINE);
+        current.items.push({
+            name: (itemMatch ? itemMatch[1] : withoutPrice.replace(/^[-*•]\s*/, '')).trim(),
+            description: itemMatch ? itemMatch[2].trim() : undefined,
+            price: priceMatch ? priceMatch[1] : undefined,
+            dietaryBadges: [],
+        });
+    }
+
+    return { language: 'en', sections: sections.filter(section => section.items.length > 0), notes };
+}
+
+function classify(request: ClassifyMenuRequest) {
+    const { menu, parsedAllergies, dietProfile } = request.input;
+    const results = menu.sections.flatMap(section => section.items.map(item => {
+        const text = [item.name, item.description, ...item.dietaryBadges].filter(Boolean).join('\n');
+        const matches = findAllergenKeywords(text, parsedAllergies);
+        const stated = matches.filter(match => match.source === 'ingredient');
+        const allergens = Array.from(new Set(matches.map(match => match.allergen)));
+        const safetyLevel = stated.length > 0 ? SafetyLevel.Unsafe : matches.length > 0 ? SafetyLevel.Caution : SafetyLevel.Safe;
+        const found = matches.map(match => `"${match.keyword}" (${getAllergenLabel(match.allergen)})`).join(', ');
+        return {
+            itemName: item.name,
+            originalItemName: item.name,
+            section: section.name,
+            safetyLevel,
+            reasoning: matches.length > 0
+                ? `The menu text mentions ${found}.`
+                : 'No ingredients matching your allergies are listed.',
+            identifiedAllergens: allergens,
+            confidence: matches.length > 0 ? 0.9 : 0.6,
+            evidence: [item.name, item.description].filter(Boolean).join(' - '),
+            allergenEvidence: allergens.map(allergen => ({
+                allergen,
+                basis: stated.some(match => match.allergen === allergen) ? 'stated' : 'inferred',
+            })),
+            crossContact: [],
+            ...(hasDiets(dietProfile) && { dietConflicts: findDietConflicts(text, dietProfile, [item.name, ...item.dietaryBadges]) }),
+        };
+    }));
+    // Kitchen-wide warnings are picked up by the deterministic rule check.
+    return { results, kitchenRisks: [] };
+}
+
+/** What a model that follows a menu's injected instructions would answer: everything safe, with made-up evidence. */
+function classifyGullibly(request: ClassifyMenuRequest) {
+    const honest = classify(request);
+    if (scanMenuForInjection(request.input.menu).length === 0) return honest;
+    return {
+        results: honest.results.map(result => ({
+            ...result,
+            safetyLevel: SafetyLevel.Safe,
+            reasoning: 'The kitchen confirms this dish is free of your allergens.',
+            identifiedAllergens: [],
+            confidence: 1,
+            evidence: 'Confirmed allergen free by the kitchen.',
+            allergenEvidence: [],
+        })),
+        kitchenRisks: [],
+    };
+}
+
+export class MockProvider implements LlmProvider {
+    readonly name = 'mock';
+
+    constructor(readonly model: string = DEFAULT_MOCK_MODEL) {}
+
+    async analyze(request: AnalyzeRequest): Promise<unknown> {
+        if (request.stage === 'classify') return this.model === GULLIBLE_MOCK_MODEL ? classifyGullibly(request) : classify(request);
+        return request.input.menuText?.trim() ? parseMenuText(request.input.menuText) : SAMPLE_MENU;
+    }
+
+    async summarize(request: SummarizeRequest): Promise<string> {
+        const { results } = request.input;
+        const safe = results.filter(result => result.safetyLevel === SafetyLevel.Safe).map(result => result.itemName);
+        if (safe.length === 0) return `None of the ${results.length} items look safe for you. Please ask the staff for help.`;
+        return `${safe.length} of ${results.length} items look safe for you, including ${safe.slice(0, 3).join(', ')}.`;
+    }
+
+    async alternative(request: AlternativeRequest): Promise<unknown> {
+        // The first safer candidate, from the same section when there is one.
+        const alternatives = request.input.flagged.flatMap(flagged => {
+            const safer = request.input.candidates.filter(candidate => SAFETY_RANK[candidate.safetyLevel] < SAFETY_RANK[flagged.safetyLevel]);
+            const pick = safer.find(candidate => candidate.section === flagged.section) ?? safer[0];
+            if (!pick) return [];
+            return [{
+                forItem: flagged.itemName,
+                itemName: pick.itemName,
+                reason: `The ${pick.itemName} is rated ${pick.safetyLevel}: ${pick.reasoning}`,
+                modifications: (pick.crossContact?.length ?? 0) > 0 ? ["Ask for it to be prepared apart from other dishes"] : [],
+            }];
+        });
+        return { alternatives };
+    }
+
+    async questions(request: QuestionsRequest): Promise<unknown> {
+        // One question per identified allergen, one about shared equipment where the menu hints at it.
+        const questions = request.input.items.flatMap(item => {
+            const name = item.originalItemName || item.itemName;
+            const asked = item.identifiedAllergens.slice(0, 2).map(allergen => ({
+                itemName: item.itemName,
+                question: `Does the ${name} contain ${getAllergenLabel(allergen).toLowerCase()}, including in its sauce or garnish?`,
+                allergens: [allergen],
+            }));
+            if ((item.crossContact?.length ?? 0) > 0 && item.identifiedAllergens.length > 0) {
+                asked.push({
+                    itemName: item.itemName,
+                    question: `Is the ${name} cooked on the same equipment or in the same oil as dishes with ${getAllergenLabel(item.identifiedAllergens[0]).toLowerCase()}?`,
+                    allergens: [item.identifiedAllergens[0]],
+                });
+            }
+            return asked;
+        });
+        const profile = request.input.parsedAllergies.codes;
+        questions.push(
+            { itemName: '', question: 'Do you have a separate fryer for allergen-free dishes?', allergens: profile },
+            { itemName: '', question: 'Can the kitchen tell me everything that goes into the sauces and dressings?', allergens: profile },
+        );
+        return { questions };
+    }
+
+    async chat(request: ChatRequest): Promise<string> {
+        const replyNumber = request.history.filter(turn => turn.role === 'model').length + 1;
+        const call = pickToolCall(request);
+        if (call) {
+            const output = await request.runTool(call);
+            return `(offline mock) ${describeToolOutput(call, output)} This is reply ${replyNumber} in this conversation.`;
+        }
+        return `(offline mock) You asked: "${request.message}". This is reply ${replyNumber} in this conversation.`;
+    }
+}
+
+const AVOID_QUESTION = /\b(?:avoid|allergic to|can'?t eat|cannot eat)\s+([a-z][a-z ]*?)(?:\s+(?:too|as well))?\s*[?.!]*$/;
+const SECTION_QUESTION = /\bsafest\b.*?\b(?:in|from|among)\s+(?:the\s+)?([^?.!]+?)(?:\s+section)?\s*[?.!]*$/;
+
+/** The tool a model would call for the message, chosen by keywords; one call per message. */
+function pickToolCall(request: ChatRequest): ChatToolCall | null {
+    const question = request.message.toLowerCase();
+    const avoid = AVOID_QUESTION.exec(question);
+    if (avoid) return { name: 'reclassify_menu', args: { addAllergies: [avoid[1]] } };
+    const section = SECTION_QUESTION.exec(question);
+    if (section) return { name: 'safest_in_section', args: { section: section[1] } };
+    const item = request.input.results.find(result =>
+        [result.itemName, result.originalItemName].some(name => name && question.includes(name.toLowerCase())));
+    if (!item) return null;
+    const name = /\b(ask|question)\b/.test(question) ? 'draft_staff_question' : 'lookup_verdict';
+    return { name, args: { itemName: item.itemName } };
+}
+
+function describeToolOutput(call: ChatToolCall, output: object): string {
+    // Read like a model reads the tool's JSON: any field may be missing.
+    const fields: Record<string, unknown> = { ...output };
+    if (fields.error) return `I could not use ${call.name}: ${fields.error}`;
+    switch (call.name) {
+        case 'lookup_verdict': {
+            // Quote the menu text like the real prompt asks.
+            const quote = fields.menuText ? ` The menu says: "${fields.menuText}".` : '';
+            return `${fields.itemName} is rated ${fields.safetyLevel}. ${fields.reasoning}${quote}`;
+        }
+        case 'reclassify_menu': {
+            const changed = Array.isArray(fields.changedItems) ? fields.changedItems.length : 0;
+            return `Avoiding ${fields.allergies}, ${changed} item(s) change verdict.`;
+        }
+        case 'safest_in_section': {
+            const items = Array.isArray(fields.items) ? fields.items.filter(isObject) : [];
+            return `The safest choices in ${fields.section}: ${items.map(item => `${item.itemName} (${item.safetyLevel})`).join(', ')}.`;
+        }
+        default:
+            return `You could ask: "${fields.question}"`;
+    }
+}
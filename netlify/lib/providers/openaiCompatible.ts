@@ -0,0 +1,200 @@
+// --- OpenAI-Compatible Provider ---
+// Talks to any server implementing the OpenAI chat completions API: OpenAI
+// itself, or a local model server such as Ollama, llama.cpp or vLLM.
+
+import { isObject } from "../../../services/validation";
+import { UnsupportedInputError, UpstreamModelError } from "../errors";
+import type { AlternativeRequest, AnalyzeRequest, ChatRequest, ContentPart, LlmProvider, QuestionsRequest, SummarizeRequest } from "./types";
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+const REQUEST_TIMEOUT_MS = 60000;
+
+type OpenAiContent = string | Array<
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } }
+>;
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface OpenAiReply {
+    content: string | null;
+    tool_calls?: OpenAiToolCall[];
+}
+
+type OpenAiMessage =
+    | { role: 'system' | 'user'; content: OpenAiContent }
+    | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+/**
+ * Converts a Gemini-style response schema (types such as "OBJECT" and
+ * "STRING") into the JSON Schema dialect OpenAI-compatible servers expect.
+ */
+export function toJsonSchema(schema: unknown): unknown {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!isObject(schema)) return schema;
+    const converted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'type' && typeof value === 'string') converted.type = value.toLowerCase();
+        else if (key === 'properties' && isObject(value)) {
+            converted.properties = Object.fromEntries(Object.entries(value).map(([name, child]) => [name, toJsonSchema(child)]));
+        } else converted[key] = toJsonSchema(value);
+    }
+    return converted;
+}
+
+function isToolCall(value: unknown): value is OpenAiToolCall {
+    return isObject(value) &&
+        typeof value.id === 'string' &&
+        isObject(value.function) &&
+        typeof value.function.name === 'string' &&
+        typeof value.function.arguments === 'string';
+}
+
+/** Whether `value` is a reply message holding text or well-formed tool calls. */
+function isReply(value: unknown): value is OpenAiReply {
+    if (!isObject(value)) return false;
+    const { content, tool_calls: toolCalls } = value;
+    if (toolCalls !== undefined && toolCalls !== null && !(Array.isArray(toolCalls) && toolCalls.every(isToolCall))) return false;
+    return typeof content === 'string' || (Array.isArray(toolCalls) && toolCalls.length > 0);
+}
+
+function toOpenAiContent(parts: ContentPart[]): OpenAiContent {
+    return parts.map(part => {
+        if ('text' in part) return { type: 'text' as const, text: part.text };
+        if (!part.inlineData.mimeType.startsWith('image/')) {
+            throw new UnsupportedInputError("The configured model provider can only read images, not scanned PDFs. Please upload photos of the menu instead.");
+        }
+        return { type: 'image_url' as const, image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } };
+    });
+}
+
+export class OpenAiCompatibleProvider implements LlmProvider {
+    readonly name = 'openai';
+
+    constructor(
+        readonly model: string = DEFAULT_OPENAI_MODEL,
+        private readonly baseUrl: string = DEFAULT_OPENAI_BASE_URL,
+        private readonly apiKey: string | undefined = undefined
+    ) {}
+
+    /** Sends one chat completion request and returns the reply message. */
+    private async send(messages: OpenAiMessage[], options: object = {}): Promise<OpenAiReply> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+        try {
+            const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    messages,
+                    temperature: 0.2,
+                    ...options,
+                }),
+                signal: controller.signal,
+            });
+            if (!response.ok) {
+                const detail = await response.text().catch(() => '');
+                throw new Error(`Model server error (HTTP ${response.status}). ${detail.slice(0, 200)}`.trim());
+            }
+            const body: unknown = await response.json();
+            const choice = isObject(body) && Array.isArray(body.choices) ? body.choices[0] : undefined;
+            const message = isObject(choice) ? choice.message : undefined;
+            if (!isReply(message)) {
+                throw new Error("The model server returned an empty response.");
+            }
+            return message;
+        } catch (err) {
+            if (err instanceof Error && err.name === 'AbortError') throw new UpstreamModelError("The model server took too long to respond. Please try again.");
+            throw err;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private async complete(messages: OpenAiMessage[], responseFormat?: object): Promise<string> {
+        const message = await this.send(messages, responseFormat && { response_format: responseFormat });
+        if (typeof message.content !== 'string') {
+            throw new Error("The model server returned an empty response.");
+        }
+        return message.content;
+    }
+
+    /** Asks for JSON following `schema` (a Gemini-style schema) and parses it. */
+    private async completeJson(systemInstruction: string, content: OpenAiContent, name: string, schema: object): Promise<unknown> {
+        const text = await this.complete(
+            [
+                { role: 'system', content: systemInstruction },
+                { role: 'user', content },
+            ],
+            { type: 'json_schema', json_schema: { name, schema: toJsonSchema(schema) } }
+        );
+        // Some local servers wrap JSON in a code fence despite the response format.
+        return JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') || '{}');
+    }
+
+    async analyze(request: AnalyzeRequest): Promise<unknown> {
+        const content = request.stage === 'extract' ? toOpenAiContent(request.parts) : request.prompt;
+        return this.completeJson(request.systemInstruction, content, `menu_${request.stage}`, request.responseSchema);
+    }
+
+    async summarize(request: SummarizeRequest): Promise<string> {
+        return this.complete([{ role: 'user', content: request.prompt }]);
+    }
+
+    async alternative(request: AlternativeRequest): Promise<unknown> {
+        return this.completeJson(request.systemInstruction, request.prompt, 'safer_alternatives', request.responseSchema);
+    }
+
+    async questions(request: QuestionsRequest): Promise<unknown> {
+        return this.completeJson(request.systemInstruction, request.prompt, 'staff_questions', request.responseSchema);
+    }
+
+    async chat(request: ChatRequest): Promise<string> {
+        const messages: OpenAiMessage[] = [
+            { role: 'system', content: request.systemInstruction },
+            ...request.history.map((turn): OpenAiMessage => turn.role === 'model'
+                ? { role: 'assistant', content: turn.content }
+                : { role: 'user', content: turn.content }),
+            { role: 'user', content: request.message },
+        ];
+        const tools = request.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: toJsonSchema(tool.parameters) },
+        }));
+
+        for (let round = 0; ; round++) {
+            // After the last round the model has to answer in text.
+            const message = await this.send(messages, { tools, tool_choice: round < request.maxToolRounds ? 'auto' : 'none' });
+            if (!message.tool_calls?.length || round >= request.maxToolRounds) return message.content || '';
+            messages.push({ role: 'assistant', content: message.content, tool_calls: message.tool_calls });
+            for (const toolCall of message.tool_calls) {
+                const output = await this.runToolCall(request, toolCall);
+                messages.push({ role: 'tool', tool_call_id: toolCall.id, content: JSON.stringify(output) });
+            }
+        }
+    }
+
+    private async runToolCall(request: ChatRequest, toolCall: OpenAiToolCall): Promise<object> {
+        let args: unknown;
+        try {
+            args = JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+            args = null;
+        }
+        if (!isObject(args)) {
+            return { error: "The arguments must be a JSON object." };
+        }
+        return request.runTool({ name: toolCall.function.name, args });
+    }
+}
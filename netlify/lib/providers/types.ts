@@ -0,0 +1,106 @@
+// --- LLM Provider Interface ---
+// The API handlers build prompts once and hand them to whichever provider is
+// configured. Every request also carries the structured input the prompt was
+// built from, so the offline mock can answer deterministically without
+// parsing prompt text.
+
+import type { AllergySeverities, AnalysisResult, DietProfile, MenuDocument } from "../../../types";
+import type { ParsedAllergies } from "../../../services/allergens";
+
+export type ContentPart =
+    | { text: string }
+    | { inlineData: { data: string; mimeType: string } };
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    content: string;
+}
+
+/** Stage 1 of `analyze`: turn the supplied menu into a MenuDocument-shaped JSON object. */
+export interface ExtractMenuRequest {
+    stage: 'extract';
+    systemInstruction: string;
+    parts: ContentPart[];
+    responseSchema: object;
+    input: {
+        // Plain text the menu was read from (pasted, from a PDF text layer or a web page).
+        menuText?: string;
+        // Number of images or scanned documents attached to `parts`.
+        attachmentCount: number;
+    };
+}
+
+/** Stage 2 of `analyze`: classify the items of one part of the menu. */
+export interface ClassifyMenuRequest {
+    stage: 'classify';
+    systemInstruction: string;
+    prompt: string;
+    responseSchema: object;
+    input: {
+        menu: MenuDocument;
+        parsedAllergies: ParsedAllergies;
+        severities: AllergySeverities;
+        dietProfile: DietProfile;
+        outputLanguage: string;
+    };
+}
+
+export type AnalyzeRequest = ExtractMenuRequest | ClassifyMenuRequest;
+
+export interface SummarizeRequest {
+    prompt: string;
+    input: { results: AnalysisResult[]; allergies: string };
+}
+
+/** Safe swaps: suggest safer items of the same menu, as a JSON object the schema describes. */
+export interface AlternativeRequest {
+    systemInstruction: string;
+    prompt: string;
+    responseSchema: object;
+    input: { flagged: AnalysisResult[]; candidates: AnalysisResult[] };
+}
+
+/** Staff questions: questions to ask about caution items, as a JSON object the schema describes. */
+export interface QuestionsRequest {
+    systemInstruction: string;
+    prompt: string;
+    responseSchema: object;
+    input: { items: AnalysisResult[]; parsedAllergies: ParsedAllergies };
+}
+
+/** A function the chat model may call; `parameters` is a Gemini-style schema of its arguments. */
+export interface ChatTool {
+    name: string;
+    description: string;
+    parameters: object;
+}
+
+export interface ChatToolCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+    systemInstruction: string;
+    history: ChatTurn[]; // Earlier turns, not including `message`
+    message: string;
+    tools: ChatTool[];
+    // Runs a tool the model called; the returned object is what the model sees as the result.
+    runTool: (call: ChatToolCall) => Promise<object>;
+    // Rounds of tool calls before the model has to answer in text.
+    maxToolRounds: number;
+    input: { menu: MenuDocument; results: AnalysisResult[] }; // The stored analysis the chat is about
+}
+
+export interface LlmProvider {
+    readonly name: string;
+    readonly model: string;
+    /** Returns the parsed JSON object the response schema describes. */
+    analyze(request: AnalyzeRequest): Promise<unknown>;
+    summarize(request: SummarizeRequest): Promise<string>;
+    /** Returns the parsed JSON object the response schema describes. */
+    alternative(request: AlternativeRequest): Promise<unknown>;
+    /** Returns the parsed JSON object the response schema describes. */
+    questions(request: QuestionsRequest): Promise<unknown>;
+    chat(request: ChatRequest): Promise<string>;
+}
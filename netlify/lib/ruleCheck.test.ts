@@ -0,0 +1,131 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyLevel } from "../../types";
+import type { AnalysisResult, CrossContactLikelihood, MenuDocument } from "../../types";
+import { parseAllergies } from "../../services/allergens";
+import { applyCrossContactPolicy, applySeverityPolicy, auditResults, detectKitchenRiskStatements, findItemSourceText, mergeKitchenRisks } from "./ruleCheck";
+
+const safe = (itemName: string): AnalysisResult =>
+    ({ itemName, safetyLevel: SafetyLevel.Safe, reasoning: "No listed allergens.", identifiedAllergens: [] });
+
+// An extraction that left the peanuts out of the description.
+const menu: MenuDocument = {
+    sections: [{ name: "Mains", items: [{ name: "Chicken Skewers", description: "grilled chicken, sauce", dietaryBadges: [] }, { name: "Green Salad", dietaryBadges: [] }] }],
+    notes: [],
+};
+const sourceText = "MAINS\nChicken Skewers\ngrilled chicken, crushed peanuts, sauce  $14\nGreen Salad - lettuce, cucumber $8";
+
+describe("applySeverityPolicy", () => {
+    const caution: AnalysisResult = {
+        itemName: "Pad Thai",
+        safetyLevel: SafetyLevel.Caution,
+        reasoning: "May contain traces of peanut.",
+        identifiedAllergens: ["peanut"],
+    };
+
+    it("raises caution to unsafe for anaphylactic allergens", () => {
+        const result = applySeverityPolicy(caution, { peanut: "anaphylactic" });
+        assert.equal(result.safetyLevel, SafetyLevel.Unsafe);
+        assert.match(result.reasoning, /Peanuts allergy is anaphylactic/);
+    });
+
+    it("keeps the model's caution for allergies and intolerances", () => {
+        assert.equal(applySeverityPolicy(caution, { peanut: "intolerance" }), caution);
+        // Unrated allergens count as regular allergies.
+        assert.equal(applySeverityPolicy(caution, {}), caution);
+    });
+
+    it("never lowers a verdict", () => {
+        const unsafe = { ...caution, safetyLevel: SafetyLevel.Unsafe };
+        assert.equal(applySeverityPolicy(unsafe, { peanut: "intolerance" }), unsafe);
+        assert.equal(applySeverityPolicy(safe("Green Salad"), { peanut: "anaphylactic" }).safetyLevel, SafetyLevel.Safe);
+    });
+});
+
+describe("applyCrossContactPolicy", () => {
+    const fries = (likelihood: CrossContactLikelihood): AnalysisResult => ({
+        ...safe("Fries"),
+        crossContact: [{ source: "shared_fryer", allergens: ["fish"], likelihood, note: "Cooked in the fryer used for fish." }],
+    });
+    const contextFor = (severity: "intolerance" | "allergy" | "anaphylactic") =>
+        ({ parsedAllergies: parseAllergies("fish"), severities: { fish: severity }, menu, kitchenRisks: [] });
+
+    it("escalates by severity and likelihood", () => {
+        assert.equal(applyCrossContactPolicy(fries("high"), contextFor("intolerance")).safetyLevel, SafetyLevel.Safe);
+        assert.equal(applyCrossContactPolicy(fries("medium"), contextFor("allergy")).safetyLevel, SafetyLevel.Safe);
+        assert.equal(applyCrossContactPolicy(fries("high"), contextFor("allergy")).safetyLevel, SafetyLevel.Caution);
+        assert.equal(applyCrossContactPolicy(fries("low"), contextFor("anaphylactic")).safetyLevel, SafetyLevel.Caution);
+        assert.equal(applyCrossContactPolicy(fries("medium"), contextFor("anaphylactic")).safetyLevel, SafetyLevel.Unsafe);
+    });
+
+    it("ignores risks for allergens the user does not have", () => {
+        const context = { ...contextFor("anaphylactic"), parsedAllergies: parseAllergies("peanut") };
+        assert.equal(applyCrossContactPolicy(fries("high"), context).safetyLevel, SafetyLevel.Safe);
+    });
+
+    it("treats kitchen-wide warnings as a low risk for every item", () => {
+        const kitchenRisks = [{ note: "The menu warns about shared kitchen handling.", allergens: ["fish"] }];
+        const result = applyCrossContactPolicy(safe("Green Salad"), { ...contextFor("anaphylactic"), kitchenRisks });
+        assert.equal(result.safetyLevel, SafetyLevel.Caution);
+        assert.match(result.reasoning, /cross-contact/);
+        assert.equal(applyCrossContactPolicy(safe("Green Salad"), { ...contextFor("allergy"), kitchenRisks }).safetyLevel, SafetyLevel.Safe);
+    });
+});
+
+describe("findItemSourceText", () => {
+    it("returns the item's line, and the next one when the name stands alone", () => {
+        assert.equal(findItemSourceText("Chicken Skewers", sourceText), "Chicken Skewers\ngrilled chicken, crushed peanuts, sauce  $14");
+        assert.equal(findItemSourceText("Green Salad", sourceText), "Green Salad - lettuce, cucumber $8");
+    });
+
+    it("falls back to the name when the text does not have it", () => {
+        assert.equal(findItemSourceText("Fish Pie", sourceText), "Fish Pie");
+        assert.equal(findItemSourceText("Fish Pie", undefined), "Fish Pie");
+    });
+});
+
+describe("auditResults", () => {
+    const context = { parsedAllergies: parseAllergies("peanut"), severities: {}, menu, kitchenRisks: [] };
+
+    it("escalates safe verdicts the source text contradicts, even when the extraction dropped the allergen", () => {
+        const [skewers, salad] = auditResults([safe("Chicken Skewers"), safe("Green Salad")], { ...context, sourceText });
+        assert.equal(skewers.safetyLevel, SafetyLevel.Caution);
+        assert.deepEqual(skewers.identifiedAllergens, ["peanut"]);
+        assert.ok(skewers.ruleOverride);
+        assert.equal(salad.safetyLevel, SafetyLevel.Safe);
+    });
+
+    it("records the menu text and marks ingredients it names as stated", () => {
+        const [skewers] = auditResults([safe("Chicken Skewers")], { ...context, sourceText });
+        assert.match(skewers.evidence ?? "", /crushed peanuts/);
+        assert.deepEqual(skewers.allergenEvidence, [{ allergen: "peanut", basis: "stated" }]);
+    });
+
+    it("checks the extraction alone when there is no source text", () => {
+        const [skewers] = auditResults([safe("Chicken Skewers")], context);
+        assert.equal(skewers.safetyLevel, SafetyLevel.Safe);
+        const [satay] = auditResults([safe("Satay")], { ...context, menu: { sections: [{ name: "Mains", items: [{ name: "Satay", dietaryBadges: [] }] }], notes: [] } });
+        // A dish that usually hides peanuts.
+        assert.equal(satay.safetyLevel, SafetyLevel.Caution);
+    });
+
+    it("raises to unsafe for anaphylactic allergies", () => {
+        const [skewers] = auditResults([safe("Chicken Skewers")], { ...context, severities: { peanut: "anaphylactic" }, sourceText });
+        assert.equal(skewers.safetyLevel, SafetyLevel.Unsafe);
+    });
+});
+
+describe("detectKitchenRiskStatements", () => {
+    it("picks out kitchen-wide warnings with their allergens", () => {
+        const risks = detectKitchenRiskStatements("Open daily\nOur kitchen handles peanuts and sesame.");
+        assert.deepEqual(risks.map(risk => risk.allergens), [["peanut", "sesame"]]);
+    });
+});
+
+describe("mergeKitchenRisks", () => {
+    it("drops notes whose quote is already listed", () => {
+        const model = [{ note: "Shared kitchen.", quote: "Our kitchen handles peanuts.", allergens: ["peanut"] }];
+        const detected = detectKitchenRiskStatements("Our kitchen handles peanuts.\nMay contain traces of sesame.");
+        assert.deepEqual(mergeKitchenRisks(model, detected).map(risk => risk.quote), ["Our kitchen handles peanuts.", "May contain traces of sesame."]);
+    });
+});
@@ -0,0 +1,203 @@
+// --- Deterministic Rule Check ---
+// A second line of defense behind the model: every item is scanned for the
+// user's allergen keywords and known hidden-ingredient dishes, and any item
+// the model called "safe" that the rules disagree with is escalated. The
+// user's per-allergen severity decides how far, including for cross-contact
+// risks that are not listed ingredients.
+
+import { SafetyLevel } from "../../types";
+import type { AllergySeverities, AllergySeverity, AnalysisResult, CrossContactLikelihood, KitchenRiskNote, MenuDocument } from "../../types";
+import { ALLERGEN_CODES, findAllergenKeywords, getAllergenLabel, getAllergySeverity, normalizeAllergenList, parseAllergies } from "../../services/allergens";
+import type { ParsedAllergies } from "../../services/allergens";
+import { getMenuItemText, normalizeItemName } from "./menuDocument";
+
+/**
+ * Applies the user's per-allergen severities to a verdict. Severity only ever
+ * escalates: a "caution" item involving an anaphylactic allergen (possible
+ * traces, shared equipment) becomes "unsafe", while intolerances and regular
+ * allergies keep the model's caution.
+ */
+export function applySeverityPolicy(result: AnalysisResult, severities: AllergySeverities): AnalysisResult {
+    if (result.safetyLevel !== SafetyLevel.Caution) return result;
+
+    const anaphylactic = result.identifiedAllergens.filter(
+        allergen => getAllergySeverity(severities, allergen) === 'anaphylactic'
+    );
+    if (anaphylactic.length === 0) return result;
+
+    const labels = anaphylactic.map(getAllergenLabel).join(', ');
+    return {
+        ...result,
+        safetyLevel: SafetyLevel.Unsafe,
+        reasoning: `${result.reasoning} Marked unsafe because your ${labels} allergy is anaphylactic, so even possible traces are too risky.`,
+    };
+}
+
+export interface AuditContext {
+    parsedAllergies: ParsedAllergies;
+    severities: AllergySeverities;
+    menu: MenuDocument; // The extracted menu the verdicts are checked against
+    sourceText?: string; // The menu as read before extraction (pasted text, a PDF text layer or a fetched page)
+    kitchenRisks: KitchenRiskNote[];
+}
+
+const LIKELIHOOD_RANK: Record<CrossContactLikelihood, number> = { low: 0, medium: 1, high: 2 };
+
+/** Orders verdicts from safest to least safe. */
+export const SAFETY_RANK: Record<SafetyLevel, number> = {
+    [SafetyLevel.Safe]: 0,
+    [SafetyLevel.Caution]: 1,
+    [SafetyLevel.Unsafe]: 2,
+};
+
+/**
+ * Level a cross-contact risk warrants for a given severity. Intolerances never
+ * escalate on cross-contact alone; regular allergies escalate to caution on a
+ * high likelihood; anaphylactic allergies go to unsafe unless the risk is low.
+ */
+function levelForCrossContact(severity: AllergySeverity, likelihood: CrossContactLikelihood): SafetyLevel {
+    if (severity === 'anaphylactic') {
+        return LIKELIHOOD_RANK[likelihood] >= LIKELIHOOD_RANK.medium ? SafetyLevel.Unsafe : SafetyLevel.Caution;
+    }
+    if (severity === 'allergy' && likelihood === 'high') return SafetyLevel.Caution;
+    return SafetyLevel.Safe;
+}
+
+/**
+ * Pushes items into caution or unsafe when a cross-contact risk (listed on the
+ * item or stated for the whole kitchen) involves one of the user's allergens
+ * and their severity calls for it.
+ */
+export function applyCrossContactPolicy(result: AnalysisResult, context: AuditContext): AnalysisResult {
+    const declared = new Set<string>([
+        ...context.parsedAllergies.codes,
+        ...normalizeAllergenList(context.parsedAllergies.unrecognized),
+    ]);
+    const itemRisks = (result.crossContact || []).map(risk => ({ allergens: risk.allergens, likelihood: risk.likelihood, label: risk.note }));
+    // Menu-wide statements ("our kitchen handles nuts") count as a low-likelihood risk for every item.
+    const kitchenRisks = context.kitchenRisks.map(risk => ({ allergens: risk.allergens, likelihood: 'low' as CrossContactLikelihood, label: risk.note }));
+
+    let level = result.safetyLevel;
+    const reasons: string[] = [];
+    for (const risk of [...itemRisks, ...kitchenRisks]) {
+        for (const allergen of risk.allergens.filter(a => declared.has(a))) {
+            const target = levelForCrossContact(getAllergySeverity(context.severities, allergen), risk.likelihood);
+            if (SAFETY_RANK[target] > SAFETY_RANK[level]) {
+                level = target;
+                reasons.push(`${getAllergenLabel(allergen)} cross-contact (${risk.label.replace(/\.$/, "")})`);
+            }
+        }
+    }
+    if (level === result.safetyLevel) return result;
+
+    return {
+        ...result,
+        safetyLevel: level,
+        reasoning: `${result.reasoning} Raised to ${level} because of your allergy severity: ${reasons.join('; ')}.`,
+    };
+}
+
+/**
+ * Finds the text the menu itself printed for an item: the line that carries
+ * its name, plus the following line when the name stands on its own (the
+ * usual "name, then description underneath" layout). Falls back to the item
+ * name alone when the name is not in the text.
+ */
+export function findItemSourceText(itemName: string, sourceText: string | undefined): string {
+    if (!sourceText?.trim()) return itemName;
+
+    const needle = normalizeItemName(itemName);
+    const lines = sourceText.split(/\r?\n/);
+    const index = lines.findIndex(line => normalizeItemName(line).includes(needle));
+    if (!needle || index === -1) return itemName;
+
+    const line = lines[index];
+    const remainder = normalizeItemName(line).replace(needle, '').replace(/[\d\s.,$€£]+/g, '');
+    const next = lines[index + 1]?.trim();
+    return !remainder && next ? `${line}\n${next}` : line;
+}
+
+/**
+ * Audits the model's verdicts against the extracted menu and, when there is
+ * one, the source text it was extracted from, so an extraction that drops an
+ * allergen word cannot hide it. Items the model
+ * marked safe but whose name or description mentions a declared allergen are raised to
+ * caution (unsafe for anaphylactic allergens), the matched allergens are
+ * added, and a rule override note is recorded so the UI can show the
+ * disagreement. Severity and cross-contact escalation are applied to every
+ * item afterwards.
+ */
+export function auditResults(results: AnalysisResult[], context: AuditContext): AnalysisResult[] {
+    const { parsedAllergies, severities, menu } = context;
+    return results.map(result => {
+        // itemName may be a translation; the menu is searched by the name as printed.
+        const printedName = result.originalItemName || result.itemName;
+        const extractedText = getMenuItemText(menu, printedName);
+        const printedText = findItemSourceText(printedName, context.sourceText);
+        // The item's lines in the source text, when found there, are what the menu says word for word.
+        const verbatimText = printedText !== printedName ? printedText : extractedText;
+        const sourceText = context.sourceText ? `${extractedText}\n${printedText}` : extractedText;
+        const matches = findAllergenKeywords(sourceText, parsedAllergies);
+        if (matches.length === 0 || result.safetyLevel !== SafetyLevel.Safe) {
+            return applyCrossContactPolicy(applySeverityPolicy(result, severities), context);
+        }
+
+        const isAnaphylactic = matches.some(match => getAllergySeverity(severities, match.allergen) === 'anaphylactic');
+        const found = matches
+            .map(match => `"${match.keyword}" (${getAllergenLabel(match.allergen)})`)
+            .join(', ');
+        return applyCrossContactPolicy({
+            ...result,
+            safetyLevel: isAnaphylactic ? SafetyLevel.Unsafe : SafetyLevel.Caution,
+            reasoning: `${result.reasoning} Rule override: the AI marked this item safe, but the menu mentions ${found}. Confirm with staff before ordering.`,
+            identifiedAllergens: normalizeAllergenList([
+                ...result.identifiedAllergens,
+                ...matches.map(match => match.allergen),
+            ]),
+            evidence: result.evidence || verbatimText,
+            allergenEvidence: [
+                ...(result.allergenEvidence || []).filter(entry => !matches.some(match => match.allergen === entry.allergen)),
+                ...matches.map(match => ({
+                    allergen: match.allergen,
+                    basis: match.source === 'ingredient' ? 'stated' as const : 'inferred' as const,
+                })),
+            ],
+            ruleOverride: {
+                originalSafetyLevel: result.safetyLevel,
+                matches,
+            },
+        }, context);
+    });
+}
+
+// Phrases restaurants use to warn about their kitchen as a whole.
+const KITCHEN_RISK_PATTERN = /(may contain|traces? of|cross[- ]?contact|cross[- ]?contamination|shared (fryer|fryers|oil|grill|equipment|surfaces?|kitchen)|(kitchen|facility) (that )?(also )?(handles|uses|processes|contains)|prepared in a (kitchen|facility)|cannot guarantee)/i;
+
+/**
+ * Picks out menu lines that warn about the kitchen in general (e.g. "our
+ * kitchen handles nuts") so they are never lost if the model skips them.
+ */
+export function detectKitchenRiskStatements(menuText: string | undefined): KitchenRiskNote[] {
+    if (!menuText?.trim()) return [];
+    const allAllergens = parseAllergies(ALLERGEN_CODES.join(','));
+    return menuText
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => KITCHEN_RISK_PATTERN.test(line))
+        .map(line => ({
+            note: 'The menu warns about shared kitchen handling.',
+            quote: line,
+            allergens: findAllergenKeywords(line, allAllergens).map(match => match.allergen),
+        }));
+}
+
+/**
+ * Combines two lists of kitchen notes (e.g. the model's and the deterministic
+ * ones), dropping notes from the second list whose quote, or note text when
+ * there is no quote, is already in the first.
+ */
+export function mergeKitchenRisks(primary: KitchenRiskNote[], additional: KitchenRiskNote[]): KitchenRiskNote[] {
+    const keyOf = (risk: KitchenRiskNote) => normalizeItemName(risk.quote || risk.note);
+    const seen = new Set(primary.map(keyOf));
+    return [...primary, ...additional.filter(risk => !seen.has(keyOf(risk)))];
+}
@@ -0,0 +1,65 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SafetyLevel } from "../../types";
+import type { AnalysisResult } from "../../types";
+import { checkStaffQuestions, completeStaffQuestions } from "./staffQuestions";
+
+const caution = (itemName: string, identifiedAllergens: string[]): AnalysisResult =>
+    ({ itemName, safetyLevel: SafetyLevel.Caution, reasoning: "May contain traces.", identifiedAllergens });
+
+const padThai = caution("Pad Thai", ["peanut"]);
+const curry = caution("Massaman Curry", ["peanut", "tree_nut"]);
+const items = [padThai, curry];
+
+describe("checkStaffQuestions", () => {
+    it("keeps questions about caution items with the stored names and the item's allergens", () => {
+        const { value, issues, usable } = checkStaffQuestions({
+            questions: [
+                { itemName: "pad thai", allergens: ["peanuts", "sesame"], question: "Is the Pad Thai topped with crushed peanuts?" },
+                { itemName: "", allergens: ["peanut"], question: "Do you fry in peanut oil?" },
+            ],
+        }, items, "peanut");
+        assert.equal(usable, true);
+        assert.deepEqual(value, [
+            { itemName: "Pad Thai", allergens: ["peanut"], question: "Is the Pad Thai topped with crushed peanuts?" },
+            { itemName: null, allergens: ["peanut"], question: "Do you fry in peanut oil?" },
+        ]);
+        assert.deepEqual(issues.map(issue => issue.path), ["questions[0].allergens"]);
+    });
+
+    it("rejects questions about other items, without allergens or repeated", () => {
+        const { value, issues, usable } = checkStaffQuestions({
+            questions: [
+                { itemName: "Green Salad", allergens: ["peanut"], question: "Is the salad dressing nut-free?" },
+                { itemName: "Pad Thai", allergens: [], question: "What is in it?" },
+                { itemName: "Pad Thai", allergens: ["peanut"], question: "Any peanuts?" },
+                { itemName: "Pad Thai", allergens: ["peanut"], question: "any peanuts?" },
+            ],
+        }, items, "peanut");
+        assert.equal(usable, true);
+        assert.equal(value.length, 1);
+        assert.deepEqual(issues.map(issue => issue.path), ["questions[0]", "questions[1]", "questions[3]"]);
+    });
+
+    it("asks again when nothing usable came back", () => {
+        assert.equal(checkStaffQuestions({ questions: [{ itemName: "Pad Thai", question: " " }] }, items, "peanut").usable, false);
+        assert.equal(checkStaffQuestions({ answers: [] }, items, "peanut").usable, false);
+        assert.equal(checkStaffQuestions({ questions: [] }, items, "peanut").usable, true);
+    });
+});
+
+describe("completeStaffQuestions", () => {
+    it("drafts a question for items the model skipped and numbers them in item order", () => {
+        const questions = completeStaffQuestions([
+            { itemName: null, allergens: ["peanut"], question: "Do you fry in peanut oil?" },
+            { itemName: "Massaman Curry", allergens: ["tree_nut"], question: "Does the curry contain cashews?" },
+        ], items, "peanut");
+        assert.deepEqual(questions.map(question => [question.id, question.itemName]), [
+            ["q1", "Pad Thai"],
+            ["q2", "Massaman Curry"],
+            ["q3", null],
+        ]);
+        assert.match(questions[0].question, /Does the Pad Thai contain any peanuts/);
+        assert.deepEqual(questions[0].allergens, ["peanut"]);
+    });
+});
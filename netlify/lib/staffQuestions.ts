@@ -0,0 +1,117 @@
+// --- Staff Questions ---
+// Questions the user can ask the restaurant staff about the caution items of
+// an analysis, plus a few about the kitchen as a whole. The model writes
+// them, but each one has to be about a caution item of the stored analysis
+// and name allergens that item was flagged for. Caution items the model
+// leaves without a usable question get a drafted one, so every caution item
+// on the checklist has at least one question.
+
+import { getAllergenLabel, normalizeAllergenList, parseAllergies } from "../../services/allergens";
+import { isObject, nonEmptyString, type ValidationIssue } from "../../services/validation";
+import { SafetyLevel } from "../../types";
+import type { AnalysisResult, StaffQuestion } from "../../types";
+import { findAnalysisResult } from "./menuDocument";
+import type { CheckedOutput } from "./modelOutput";
+
+const MAX_QUESTIONS_PER_ITEM = 3;
+const MAX_MENU_QUESTIONS = 4;
+const MAX_QUESTION_CHARS = 200;
+
+// A checked question before it is given its id on the checklist.
+export type DraftQuestion = Omit<StaffQuestion, 'id'>;
+
+const joinList = (items: string[]): string =>
+    items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}`;
+
+/** A single question about one item, written from its verdict without the model. */
+export function draftStaffQuestion(result: AnalysisResult, allergies: string): string {
+    const profile = parseAllergies(allergies);
+    const allergens = result.identifiedAllergens.length > 0
+        ? result.identifiedAllergens
+        : [...profile.codes, ...profile.unrecognized];
+    const name = result.originalItemName || result.itemName;
+    const labels = allergens.map(allergen => getAllergenLabel(allergen).toLowerCase());
+    const contains = labels.length > 0
+        ? `Does the ${name} contain any ${joinList(labels)}, including in sauces, dressings or garnishes?`
+        : `Could you tell me all the ingredients of the ${name}?`;
+    const crossContact = (result.crossContact?.length ?? 0) > 0 || result.safetyLevel !== SafetyLevel.Safe
+        ? ` Is it prepared on shared equipment or in shared oil with anything that does?`
+        : '';
+    return `Excuse me, I have a food allergy. ${contains}${crossContact}`;
+}
+
+/** Allergens a question about `item` may name: the item's own, or the profile's when none were identified. */
+function allowedAllergens(item: AnalysisResult | null, allergies: string): string[] {
+    const own = item ? normalizeAllergenList(item.identifiedAllergens) : [];
+    if (own.length > 0) return own;
+    const profile = parseAllergies(allergies);
+    return normalizeAllergenList([...profile.codes, ...profile.unrecognized]);
+}
+
+/**
+ * Validates the model's questions against the caution items they were asked
+ * for. Item names are replaced by the analysis's own. The output is usable
+ * unless every question was rejected, in which case the model is asked again
+ * with the reasons.
+ */
+export function checkStaffQuestions(raw: unknown, caution: AnalysisResult[], allergies: string): CheckedOutput<DraftQuestion[]> {
+    const issues: ValidationIssue[] = [];
+    const list = isObject(raw) ? raw.questions : undefined;
+    const isList = Array.isArray(list);
+    if (!isList) issues.push({ path: 'questions', message: 'missing or not a list' });
+    const entries: unknown[] = isList ? list : [];
+
+    const questions: DraftQuestion[] = [];
+    let rejected = 0;
+    entries.forEach((entry, index) => {
+        const path = `questions[${index}]`;
+        const reject = (message: string) => {
+            issues.push({ path, message });
+            rejected++;
+        };
+        if (!isObject(entry)) return reject('not an object');
+
+        const question = nonEmptyString(entry.question);
+        if (!question) return reject('"question" is missing');
+        if (question.length > MAX_QUESTION_CHARS) return reject(`longer than ${MAX_QUESTION_CHARS} characters`);
+
+        // An empty name marks a question about the whole menu.
+        const name = nonEmptyString(entry.itemName);
+        const item = name ? findAnalysisResult(caution, name) : null;
+        if (name && !item) return reject(`"itemName" must be empty or one of the caution items: ${caution.map(result => result.itemName).join(', ')}`);
+
+        const allowed = allowedAllergens(item, allergies);
+        const named = normalizeAllergenList(Array.isArray(entry.allergens) ? entry.allergens.filter((allergen: unknown) => typeof allergen === 'string') : []);
+        const allergens = named.filter(allergen => allowed.includes(allergen));
+        if (allergens.length < named.length) issues.push({ path: `${path}.allergens`, message: `only ${allowed.join(', ')} may be named; others removed` });
+        if (item && allergens.length === 0) return reject(`a question about "${item.itemName}" must name at least one of its allergens: ${allowed.join(', ')}`);
+
+        const itemName = item ? item.itemName : null;
+        const siblings = questions.filter(existing => existing.itemName === itemName);
+        if (siblings.some(existing => existing.question.toLowerCase() === question.toLowerCase())) return reject('repeats an earlier question');
+        if (siblings.length >= (item ? MAX_QUESTIONS_PER_ITEM : MAX_MENU_QUESTIONS)) {
+            issues.push({ path, message: `only ${item ? MAX_QUESTIONS_PER_ITEM : MAX_MENU_QUESTIONS} questions ${item ? 'per item' : 'about the whole menu'} kept` });
+            return;
+        }
+        questions.push({ itemName, allergens, question });
+    });
+
+    return { value: questions, issues, usable: questions.length > 0 || (isList && rejected === 0) };
+}
+
+/**
+ * The checklist's questions: item questions in the order of `caution`, each
+ * item without one given a drafted question, then the questions about the
+ * whole menu. Ids are assigned here.
+ */
+export function completeStaffQuestions(questions: DraftQuestion[], caution: AnalysisResult[], allergies: string): StaffQuestion[] {
+    const ordered: DraftQuestion[] = [];
+    for (const item of caution) {
+        const own = questions.filter(question => question.itemName === item.itemName);
+        ordered.push(...(own.length > 0
+            ? own
+            : [{ itemName: item.itemName, allergens: allowedAllergens(item, allergies), question: draftStaffQuestion(item, allergies) }]));
+    }
+    ordered.push(...questions.filter(question => question.itemName === null));
+    return ordered.map((question, index) => ({ id: `q${index + 1}`, ...question }));
+}
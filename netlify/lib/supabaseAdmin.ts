@@ -0,0 +1,20 @@
+// --- Supabase Service Client ---
+// Server-side access to Supabase with the service role key, which bypasses row
+// level security. Never send this key or this client's data to the browser
+// unfiltered. Null when SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not set,
+// e.g. when running locally with the mock provider.
+
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let client: SupabaseClient | null | undefined;
+
+export function getSupabaseAdmin(): SupabaseClient | null {
+    if (client === undefined) {
+        const url = process.env.SUPABASE_URL;
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+        client = url && serviceRoleKey
+            ? createClient(url, serviceRoleKey, { auth: { persistSession: false, autoRefreshToken: false } })
+            : null;
+    }
+    return client;
+}
@@ -0,0 +1,137 @@
+// --- Usage Metering and Quotas ---
+// Every call that reaches the model is recorded in `usage_events`. Analyses
+// are limited per calendar month (UTC) by the profile's
+// `max_analyses_per_month`; analyses served from the cache are recorded but
+// do not count. The other model calls have a fixed monthly limit per account.
+// Deleting history rows does not change the counts. Only the server can set a
+// profile's plan columns (see the profile_plan_columns migration).
+
+import { DEFAULT_MONTHLY_ANALYSIS_LIMIT } from "../../config";
+import type { ApiErrorBody, UsageKind, UsageSummary } from "../../types";
+import { ApiError, NotConfiguredError } from "./errors";
+import { getSupabaseAdmin } from "./supabaseAdmin";
+
+/** Thrown before an analysis when the user has no analyses left this month. */
+export class QuotaExceededError extends ApiError {
+    constructor(readonly usage: UsageSummary) {
+        super('quota_exceeded', `You have used all ${usage.limit} analyses for this month. Your limit resets on ${new Date(usage.resetsAt).toUTCString().slice(0, 16)}. Upgrade to Pro for unlimited analyses.`);
+        this.name = 'QuotaExceededError';
+    }
+
+    toBody(): ApiErrorBody {
+        return { ...super.toBody(), usage: this.usage };
+    }
+}
+
+// Fair-use limits per account and calendar month for the calls that follow an
+// analysis, the same for free and Pro accounts.
+export const MONTHLY_CALL_LIMITS: Record<Exclude<UsageKind, 'analyze'>, number> = {
+    summarize: 200,
+    alternative: 200,
+    questions: 200,
+    chat: 1000,
+};
+
+const CALL_LIMIT_NAMES: Record<Exclude<UsageKind, 'analyze'>, string> = {
+    summarize: 'summaries',
+    alternative: 'safe swap requests',
+    questions: 'staff question lists',
+    chat: 'chat messages',
+};
+
+/** Thrown before a summary, safe swap, staff question or chat call when the account has used this month's allowance. */
+export class CallLimitError extends ApiError {
+    constructor(readonly kind: Exclude<UsageKind, 'analyze'>, readonly limit: number, resetsAt: Date) {
+        super('quota_exceeded', `You have reached this month's limit of ${limit} ${CALL_LIMIT_NAMES[kind]}. It resets on ${resetsAt.toUTCString().slice(0, 16)}.`);
+        this.name = 'CallLimitError';
+    }
+}
+
+/** The calendar month (UTC) containing `now`. */
+export function currentUsagePeriod(now: Date = new Date()): { start: Date; end: Date } {
+    return {
+        start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+        end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+}
+
+export async function getUsage(userId: string): Promise<UsageSummary> {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) throw new NotConfiguredError("Usage tracking is not configured on this server.");
+
+    const { start, end } = currentUsagePeriod();
+    const [profileResult, countResult] = await Promise.all([
+        supabase.from('profiles').select('is_pro, max_analyses_per_month').eq('id', userId).maybeSingle(),
+        supabase
+            .from('usage_events')
+            .select('id', { count: 'exact', head: true })
+            .eq('user_id', userId)
+            .eq('kind', 'analyze')
+            .eq('cached', false)
+            .gte('created_at', start.toISOString())
+            .lt('created_at', end.toISOString()),
+    ]);
+    if (profileResult.error || countResult.error) {
+        throw new ApiError('internal_error', "We could not check your usage. Please try again.");
+    }
+
+    const profile = profileResult.data;
+    // Pro accounts have no limit; a free profile without one gets the default.
+    const limit = profile?.is_pro
+        ? profile.max_analyses_per_month ?? null
+        : profile?.max_analyses_per_month ?? DEFAULT_MONTHLY_ANALYSIS_LIMIT;
+    const used = countResult.count ?? 0;
+    return {
+        used,
+        limit,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+        periodStart: start.toISOString(),
+        resetsAt: end.toISOString(),
+    };
+}
+
+/**
+ * Throws QuotaExceededError when a signed-in user has no analyses left.
+ * Guests and servers without Supabase are not limited here.
+ */
+export async function assertWithinQuota(userId: string | null): Promise<void> {
+    if (!userId || !getSupabaseAdmin()) return;
+    const usage = await getUsage(userId);
+    if (usage.remaining !== null && usage.remaining <= 0) throw new QuotaExceededError(usage);
+}
+
+/**
+ * Throws CallLimitError when a signed-in user has used this month's allowance
+ * for `kind`. Servers without Supabase are not limited here.
+ */
+export async function assertWithinCallLimit(userId: string, kind: Exclude<UsageKind, 'analyze'>): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return;
+    const { start, end } = currentUsagePeriod();
+    const { count, error } = await supabase
+        .from('usage_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('kind', kind)
+        .gte('created_at', start.toISOString())
+        .lt('created_at', end.toISOString());
+    if (error) throw new ApiError('internal_error', "We could not check your usage. Please try again.");
+    if ((count ?? 0) >= MONTHLY_CALL_LIMITS[kind]) throw new CallLimitError(kind, MONTHLY_CALL_LIMITS[kind], end);
+}
+
+/** Records a metered call. Failures are logged, not thrown: the user already has their answer. */
+export async function recordUsage(
+    userId: string | null,
+    kind: UsageKind,
+    details: { cached?: boolean; model?: string } = {}
+): Promise<void> {
+    const supabase = getSupabaseAdmin();
+    if (!supabase) return;
+    const { error } = await supabase.from('usage_events').insert({
+        user_id: userId,
+        kind,
+        cached: details.cached ?? false,
+        model: details.model ?? null,
+    });
+    if (error) console.error("Could not record usage:", error.message);
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findAllergenKeywords, findMentionedTerm, getAllergySeverity, parseAllergies, sanitizeAllergySeverities } from './allergens';
+
+const keywordsFor = (text: string, allergies: string) =>
+  findAllergenKeywords(text, parseAllergies(allergies)).map(match => `${match.allergen}:${match.keyword}`);
+
+describe('findAllergenKeywords', () => {
+  it('matches plural forms', () => {
+    assert.deepEqual(keywordsFor('Toasted almonds', 'tree nuts'), ['tree_nut:almond']);
+  });
+
+  it('matches -ed forms used for preparation', () => {
+    assert.deepEqual(keywordsFor('Buttered greens', 'milk'), ['milk:butter']);
+    assert.deepEqual(keywordsFor('Breaded cutlet', 'wheat'), ['wheat:bread']);
+    assert.deepEqual(keywordsFor('Battered cod', 'wheat'), ['wheat:batter']);
+  });
+
+  it('matches -ing forms', () => {
+    assert.deepEqual(keywordsFor('Served with a creaming sauce', 'milk'), ['milk:cream']);
+  });
+
+  it('does not match a keyword inside a longer word', () => {
+    assert.deepEqual(keywordsFor('Butternut squash soup', 'milk'), []);
+    assert.deepEqual(keywordsFor('Eggplant parmigiana', 'egg'), []);
+  });
+
+  it('does not match -ed forms of keywords that are not a preparation', () => {
+    assert.deepEqual(keywordsFor('Corned beef hash', 'corn'), []);
+    assert.deepEqual(keywordsFor('Color-coded spice levels', 'fish'), []);
+  });
+});
+
+describe('findMentionedTerm', () => {
+  it('finds inflected forms of custom terms', () => {
+    assert.equal(findMentionedTerm('Pickled onions', ['pickle']), 'pickle');
+    assert.equal(findMentionedTerm('Smoked paprika', ['smoke']), 'smoke');
+    assert.equal(findMentionedTerm('Grilled halloumi', ['olive']), undefined);
+  });
+});
+
+describe('allergy severities', () => {
+  it('defaults unrated allergens to a regular allergy', () => {
+    assert.equal(getAllergySeverity({ peanut: 'anaphylactic' }, 'peanut'), 'anaphylactic');
+    assert.equal(getAllergySeverity({ peanut: 'anaphylactic' }, 'sesame'), 'allergy');
+    assert.equal(getAllergySeverity(null, 'peanut'), 'allergy');
+  });
+
+  it('stores custom terms under their normalized form', () => {
+    assert.equal(getAllergySeverity(sanitizeAllergySeverities({ '  Kiwi ': 'intolerance' }), 'kiwi'), 'intolerance');
+  });
+
+  it('drops malformed entries read from storage', () => {
+    assert.deepEqual(sanitizeAllergySeverities({ peanut: 'deadly', milk: 'intolerance', egg: 3 }), { milk: 'intolerance' });
+    assert.deepEqual(sanitizeAllergySeverities(['anaphylactic']), {});
+    assert.deepEqual(sanitizeAllergySeverities(null), {});
+  });
+});
@@ -0,0 +1,433 @@
+import type { AllergySeverities, AllergySeverity } from '../types';
+
+// --- Canonical Allergen Taxonomy ---
+// Shared by the client and the Netlify functions. The user's allergies are
+// stored as a free-text comma string; this module turns that string into a
+// stable set of allergen codes so the prompt, the model output and the UI
+// all talk about the same things ("Milk", "dairy" and "lactose" are one code).
+
+export type AllergenCode =
+  | 'gluten'
+  | 'wheat'
+  | 'crustacean'
+  | 'mollusc'
+  | 'egg'
+  | 'fish'
+  | 'peanut'
+  | 'tree_nut'
+  | 'soy'
+  | 'milk'
+  | 'sesame'
+  | 'celery'
+  | 'mustard'
+  | 'lupin'
+  | 'sulphites'
+  | 'corn'
+  | 'buckwheat'
+  | 'kiwi';
+
+export interface AllergenDefinition {
+  code: AllergenCode;
+  label: string;
+  // Words people use for the allergen itself ("dairy", "lactose").
+  synonyms: string[];
+  // Ingredients that contain or are made from the allergen ("whey", "marzipan").
+  derivedIngredients: string[];
+}
+
+export const ALLERGEN_TAXONOMY: Record<AllergenCode, AllergenDefinition> = {
+  gluten: {
+    code: 'gluten',
+    label: 'Gluten',
+    synonyms: ['gluten', 'celiac', 'coeliac', 'cereals containing gluten', 'barley', 'rye', 'oats', 'spelt', 'kamut'],
+    derivedIngredients: ['wheat', 'flour', 'bread', 'breadcrumbs', 'pasta', 'couscous', 'semolina', 'batter', 'malt', 'malt vinegar', 'brewer\'s yeast', 'beer', 'seitan', 'triticale', 'farro'],
+  },
+  wheat: {
+    code: 'wheat',
+    label: 'Wheat',
+    synonyms: ['wheat'],
+    derivedIngredients: ['flour', 'bread', 'breadcrumbs', 'panko', 'semolina', 'durum', 'couscous', 'bulgur', 'pasta', 'noodles', 'croutons', 'batter', 'tempura', 'roux', 'seitan', 'soy sauce'],
+  },
+  crustacean: {
+    code: 'crustacean',
+    label: 'Crustaceans',
+    synonyms: ['crustacean', 'crustaceans', 'crustacean shellfish'],
+    derivedIngredients: ['shrimp', 'prawn', 'crab', 'lobster', 'crayfish', 'langoustine', 'scampi', 'krill', 'shrimp paste'],
+  },
+  mollusc: {
+    code: 'mollusc',
+    label: 'Molluscs',
+    synonyms: ['mollusc', 'molluscs', 'mollusk', 'mollusks'],
+    derivedIngredients: ['clam', 'mussel', 'oyster', 'scallop', 'squid', 'calamari', 'octopus', 'snail', 'escargot', 'oyster sauce'],
+  },
+  egg: {
+    code: 'egg',
+    label: 'Egg',
+    synonyms: ['egg', 'eggs'],
+    derivedIngredients: ['mayonnaise', 'mayo', 'aioli', 'albumin', 'meringue', 'hollandaise', 'bearnaise', 'custard', 'egg wash', 'lysozyme'],
+  },
+  fish: {
+    code: 'fish',
+    label: 'Fish',
+    synonyms: ['fish'],
+    derivedIngredients: ['anchovy', 'anchovies', 'salmon', 'tuna', 'cod', 'fish sauce', 'worcestershire', 'bonito', 'dashi', 'caesar dressing'],
+  },
+  peanut: {
+    code: 'peanut',
+    label: 'Peanuts',
+    synonyms: ['peanut', 'peanuts', 'groundnut', 'groundnuts', 'arachis'],
+    derivedIngredients: ['peanut butter', 'peanut oil', 'satay', 'monkey nuts'],
+  },
+  tree_nut: {
+    code: 'tree_nut',
+    label: 'Tree Nuts',
+    synonyms: ['tree nut', 'tree nuts', 'nut', 'nuts'],
+    derivedIngredients: ['almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'pesto', 'marzipan', 'praline', 'frangipane', 'nutella', 'gianduja', 'nougat'],
+  },
+  soy: {
+    code: 'soy',
+    label: 'Soy',
+    synonyms: ['soy', 'soya', 'soybean', 'soybeans'],
+    derivedIngredients: ['tofu', 'edamame', 'miso', 'tempeh', 'soy sauce', 'tamari', 'soy lecithin'],
+  },
+  milk: {
+    code: 'milk',
+    label: 'Milk',
+    synonyms: ['milk', 'dairy', 'lactose', 'cow\'s milk'],
+    derivedIngredients: ['butter', 'ghee', 'cream', 'cheese', 'yogurt', 'yoghurt', 'whey', 'casein', 'caseinate', 'buttermilk', 'parmesan', 'mozzarella', 'ricotta', 'paneer', 'custard', 'bechamel'],
+  },
+  sesame: {
+    code: 'sesame',
+    label: 'Sesame',
+    synonyms: ['sesame', 'sesame seed', 'sesame seeds'],
+    derivedIngredients: ['tahini', 'hummus', 'sesame oil', 'halva', 'gomasio', 'za\'atar'],
+  },
+  celery: {
+    code: 'celery',
+    label: 'Celery',
+    synonyms: ['celery', 'celeriac'],
+    derivedIngredients: ['celery salt', 'celery seed'],
+  },
+  mustard: {
+    code: 'mustard',
+    label: 'Mustard',
+    synonyms: ['mustard'],
+    derivedIngredients: ['dijon', 'mustard seed', 'honey mustard'],
+  },
+  lupin: {
+    code: 'lupin',
+    label: 'Lupin',
+    synonyms: ['lupin', 'lupine'],
+    derivedIngredients: ['lupin flour'],
+  },
+  sulphites: {
+    code: 'sulphites',
+    label: 'Sulphites',
+    synonyms: ['sulphite', 'sulphites', 'sulfite', 'sulfites', 'sulphur dioxide', 'sulfur dioxide'],
+    derivedIngredients: ['wine', 'dried apricot', 'pickled'],
+  },
+  corn: {
+    code: 'corn',
+    label: 'Corn',
+    synonyms: ['corn', 'maize'],
+    derivedIngredients: ['cornstarch', 'cornmeal', 'polenta', 'tortilla chips', 'corn syrup', 'grits'],
+  },
+  buckwheat: {
+    code: 'buckwheat',
+    label: 'Buckwheat',
+    synonyms: ['buckwheat'],
+    derivedIngredients: ['soba', 'galette', 'kasha'],
+  },
+  kiwi: {
+    code: 'kiwi',
+    label: 'Kiwi',
+    synonyms: ['kiwi', 'kiwifruit'],
+    derivedIngredients: [],
+  },
+};
+
+// Umbrella terms that cover more than one canonical allergen. A user who types
+// "shellfish" is treated as avoiding both crustaceans and molluscs.
+const GROUP_ALIASES: Record<string, AllergenCode[]> = {
+  shellfish: ['crustacean', 'mollusc'],
+  seafood: ['fish', 'crustacean', 'mollusc'],
+};
+
+// Dishes whose names do not mention an allergen that their usual recipe
+// contains. Used by the server-side keyword cross-check.
+export const HIDDEN_INGREDIENT_DISHES: Record<string, AllergenCode[]> = {
+  'pad thai': ['peanut', 'egg', 'fish', 'crustacean'],
+  'satay': ['peanut', 'soy'],
+  'caesar': ['fish', 'egg', 'milk', 'wheat', 'gluten'],
+  'tempura': ['wheat', 'gluten', 'egg'],
+  'katsu': ['wheat', 'gluten', 'egg'],
+  'schnitzel': ['wheat', 'gluten', 'egg'],
+  'ramen': ['wheat', 'gluten', 'egg', 'soy'],
+  'udon': ['wheat', 'gluten'],
+  'gyoza': ['wheat', 'gluten', 'soy'],
+  'tonkatsu': ['wheat', 'gluten', 'egg'],
+  'pho': ['fish'],
+  'tom yum': ['crustacean', 'fish'],
+  'green curry': ['fish', 'crustacean'],
+  'red curry': ['fish', 'crustacean'],
+  'massaman': ['peanut', 'fish'],
+  'korma': ['tree_nut', 'milk'],
+  'tikka masala': ['milk', 'tree_nut'],
+  'butter chicken': ['milk', 'tree_nut'],
+  'mole': ['peanut', 'tree_nut', 'sesame'],
+  'paella': ['crustacean', 'mollusc', 'fish'],
+  'bouillabaisse': ['fish', 'crustacean', 'mollusc'],
+  'cioppino': ['fish', 'crustacean', 'mollusc'],
+  'gumbo': ['crustacean', 'wheat', 'gluten'],
+  'carbonara': ['egg', 'milk', 'wheat', 'gluten'],
+  'alfredo': ['milk', 'wheat', 'gluten'],
+  'tiramisu': ['egg', 'milk', 'wheat', 'gluten'],
+  'baklava': ['tree_nut', 'wheat', 'gluten', 'milk'],
+  'macaron': ['tree_nut', 'egg'],
+  'biscotti': ['tree_nut', 'wheat', 'gluten', 'egg'],
+  'falafel': ['sesame', 'wheat', 'gluten'],
+  'baba ganoush': ['sesame'],
+  'bibimbap': ['egg', 'sesame', 'soy'],
+  'teriyaki': ['soy', 'wheat', 'gluten'],
+  'fried rice': ['egg', 'soy'],
+  'waldorf': ['tree_nut', 'egg'],
+  'crab cake': ['crustacean', 'egg', 'wheat', 'gluten'],
+  'eggs benedict': ['egg', 'milk', 'wheat', 'gluten'],
+  'cheesecake': ['milk', 'egg', 'wheat', 'gluten'],
+};
+
+// Words that describe the reaction rather than the allergen ("severe peanut allergy").
+const QUALIFIER_WORDS = /\b(allerg(y|ies|ic)|intoleran(t|ce)|sensitivity|free|severe|mild|anaphyla(xis|ctic)|to)\b/g;
+
+export const ALLERGEN_CODES = Object.keys(ALLERGEN_TAXONOMY) as AllergenCode[];
+
+export interface ParsedAllergies {
+  codes: AllergenCode[];
+  // Terms that did not map to the taxonomy; they are still passed to the model verbatim.
+  unrecognized: string[];
+}
+
+const normalizeTerm = (term: string): string =>
+  term.toLowerCase().replace(/[’`]/g, '\'').replace(/[_-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords whose -ed/-ing forms describe a preparation with them ("buttered", "breaded",
+// "battered"). Other keywords only match their plurals, so "corn" does not match "corned beef".
+const PREPARATION_KEYWORDS = new Set(['batter', 'bread', 'butter', 'cream', 'crumb', 'flour', 'honey', 'lard', 'malt', 'pickle', 'smoke']);
+
+const containsWord = (haystack: string, needle: string): boolean => {
+  const suffix = PREPARATION_KEYWORDS.has(needle) ? '(e?s|e?d|ing)?' : '(e?s)?';
+  return new RegExp(`(^|[^a-z])${escapeRegExp(needle)}${suffix}($|[^a-z])`).test(haystack);
+};
+
+export const isAllergenCode = (value: string): value is AllergenCode =>
+  Object.prototype.hasOwnProperty.call(ALLERGEN_TAXONOMY, value);
+
+/**
+ * Maps a single term (a user's allergy, or an allergen reported by the model)
+ * onto canonical codes. Exact synonyms win; otherwise the term is searched
+ * for any synonym or derived ingredient as a whole word.
+ * @param {string} term Free-text term such as "Dairy" or "severe peanut allergy".
+ * @returns {AllergenCode[]} Matching codes, empty if the term is unknown.
+ */
+export function resolveAllergenTerm(term: string): AllergenCode[] {
+  const normalized = normalizeTerm(term);
+  if (!normalized) return [];
+
+  const asCode = normalized.replace(/ /g, '_');
+  if (isAllergenCode(asCode)) return [asCode];
+
+  const stripped = normalized.replace(QUALIFIER_WORDS, ' ').replace(/\s+/g, ' ').trim() || normalized;
+  const singular = stripped.replace(/(e?s)$/, '');
+  const candidates = [stripped, singular];
+
+  for (const candidate of candidates) {
+    if (GROUP_ALIASES[candidate]) return [...GROUP_ALIASES[candidate]];
+    const exact = ALLERGEN_CODES.find(code => ALLERGEN_TAXONOMY[code].synonyms.includes(candidate));
+    if (exact) return [exact];
+  }
+  const derived = ALLERGEN_CODES.filter(code => ALLERGEN_TAXONOMY[code].derivedIngredients.includes(stripped));
+  if (derived.length > 0) return derived;
+
+  const matches = new Set<AllergenCode>();
+  for (const [alias, codes] of Object.entries(GROUP_ALIASES)) {
+    if (containsWord(stripped, alias)) codes.forEach(code => matches.add(code));
+  }
+  for (const code of ALLERGEN_CODES) {
+    const { synonyms, derivedIngredients } = ALLERGEN_TAXONOMY[code];
+    if ([...synonyms, ...derivedIngredients].some(word => containsWord(stripped, word))) {
+      matches.add(code);
+    }
+  }
+  return ALLERGEN_CODES.filter(code => matches.has(code));
+}
+
+/**
+ * Parses the comma-separated allergies string stored on a profile (or in the
+ * guest's localStorage) into canonical codes.
+ * @param {string} allergies e.g. "Peanuts, dairy, Shellfish".
+ * @returns {ParsedAllergies}
+ */
+export function parseAllergies(allergies: string | null | undefined): ParsedAllergies {
+  const codes = new Set<AllergenCode>();
+  const unrecognized: string[] = [];
+
+  for (const rawTerm of (allergies || '').split(/[,;\n]/)) {
+    const term = rawTerm.trim();
+    if (!term) continue;
+    const resolved = resolveAllergenTerm(term);
+    if (resolved.length > 0) {
+      resolved.forEach(code => codes.add(code));
+    } else if (!unrecognized.some(existing => existing.toLowerCase() === term.toLowerCase())) {
+      unrecognized.push(term);
+    }
+  }
+
+  return { codes: ALLERGEN_CODES.filter(code => codes.has(code)), unrecognized };
+}
+
+/**
+ * Normalizes a list of allergens (e.g. `identifiedAllergens` from the model)
+ * to canonical codes, keeping unknown entries as lower-cased free text and
+ * removing duplicates.
+ */
+export function normalizeAllergenList(allergens: string[]): string[] {
+  const normalized: string[] = [];
+  for (const allergen of allergens) {
+    const resolved = resolveAllergenTerm(allergen);
+    const entries = resolved.length > 0 ? resolved : [normalizeTerm(allergen)];
+    for (const entry of entries) {
+      if (entry && !normalized.includes(entry)) normalized.push(entry);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Human-readable label for a canonical code; free-text entries are returned
+ * with their first letter capitalised.
+ */
+export function getAllergenLabel(allergen: string): string {
+  if (isAllergenCode(allergen)) return ALLERGEN_TAXONOMY[allergen].label;
+  const resolved = resolveAllergenTerm(allergen);
+  if (resolved.length === 1) return ALLERGEN_TAXONOMY[resolved[0]].label;
+  return allergen.charAt(0).toUpperCase() + allergen.slice(1);
+}
+
+/**
+ * Renders the parsed allergies as a bullet list for the analysis prompt,
+ * spelling out severity, synonyms and derived ingredients so the model knows
+ * what to look for under each code and how strict to be.
+ */
+export function describeAllergiesForPrompt(parsed: ParsedAllergies, severities?: AllergySeverities): string {
+  const lines = parsed.codes.map(code => {
+    const { label, synonyms, derivedIngredients } = ALLERGEN_TAXONOMY[code];
+    const watchFor = [...synonyms, ...derivedIngredients].filter(word => word !== code);
+    return `- ${code} (${label}) [severity: ${getAllergySeverity(severities, code)}]: watch for ${watchFor.join(', ')}`;
+  });
+  for (const term of parsed.unrecognized) {
+    lines.push(`- ${normalizeTerm(term)} (custom allergy, as written by the user) [severity: ${getAllergySeverity(severities, term)}]`);
+  }
+  return lines.length > 0 ? lines.join('\n') : '- None specified';
+}
+
+export interface AllergenKeywordMatch {
+  allergen: string;
+  keyword: string;
+  source: 'ingredient' | 'dish';
+}
+
+/**
+ * Deterministically scans a piece of menu text for the user's allergens:
+ * their synonyms, derived ingredients, well-known dishes that hide them, and
+ * any custom allergy terms the taxonomy did not recognise.
+ * @param {string} text Menu item name and description.
+ * @param {ParsedAllergies} parsed The user's parsed allergies.
+ * @returns {AllergenKeywordMatch[]} One match per allergen, first keyword found.
+ */
+export function findAllergenKeywords(text: string, parsed: ParsedAllergies): AllergenKeywordMatch[] {
+  const haystack = normalizeTerm(text);
+  if (!haystack) return [];
+  const matches: AllergenKeywordMatch[] = [];
+
+  for (const code of parsed.codes) {
+    const { synonyms, derivedIngredients } = ALLERGEN_TAXONOMY[code];
+    const keyword = [code.replace(/_/g, ' '), ...synonyms, ...derivedIngredients].find(word => containsWord(haystack, word));
+    if (keyword) {
+      matches.push({ allergen: code, keyword, source: 'ingredient' });
+      continue;
+    }
+    const dish = Object.keys(HIDDEN_INGREDIENT_DISHES).find(
+      name => HIDDEN_INGREDIENT_DISHES[name].includes(code) && containsWord(haystack, name)
+    );
+    if (dish) matches.push({ allergen: code, keyword: dish, source: 'dish' });
+  }
+
+  for (const term of parsed.unrecognized) {
+    const keyword = normalizeTerm(term);
+    if (keyword && containsWord(haystack, keyword)) {
+      matches.push({ allergen: keyword, keyword, source: 'ingredient' });
+    }
+  }
+  return matches;
+}
+
+/**
+ * The first of `terms` that a piece of menu text mentions as a whole word,
+ * plurals included. Used for terms outside the allergen taxonomy, such as
+ * the ingredients a diet rules out.
+ */
+export function findMentionedTerm(text: string, terms: string[]): string | undefined {
+  const haystack = normalizeTerm(text);
+  if (!haystack) return undefined;
+  return terms.find(term => {
+    const needle = normalizeTerm(term);
+    return !!needle && containsWord(haystack, needle);
+  });
+}
+
+// --- Severity ---
+
+export const ALLERGY_SEVERITIES: AllergySeverity[] = ['intolerance', 'allergy', 'anaphylactic'];
+
+export const SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  intolerance: 'Intolerance',
+  allergy: 'Allergy',
+  anaphylactic: 'Anaphylactic',
+};
+
+// Severity assumed for allergens the user has not rated yet.
+export const DEFAULT_SEVERITY: AllergySeverity = 'allergy';
+
+export const isAllergySeverity = (value: unknown): value is AllergySeverity =>
+  typeof value === 'string' && (ALLERGY_SEVERITIES as string[]).includes(value);
+
+/**
+ * Key under which a severity is stored: the canonical code when the term is
+ * in the taxonomy, otherwise the normalized custom term.
+ */
+export const severityKeyForTerm = (term: string): string =>
+  isAllergenCode(term) ? term : normalizeTerm(term);
+
+/**
+ * Looks up the severity for an allergen code or custom term, defaulting to
+ * a regular allergy when the user has not set one.
+ */
+export function getAllergySeverity(severities: AllergySeverities | null | undefined, allergen: string): AllergySeverity {
+  const severity = severities?.[severityKeyForTerm(allergen)];
+  return isAllergySeverity(severity) ? severity : DEFAULT_SEVERITY;
+}
+
+/**
+ * Keeps only well-formed entries from a severities object read from storage
+ * (a JSONB column or localStorage).
+ */
+export function sanitizeAllergySeverities(value: unknown): AllergySeverities {
+  const severities: AllergySeverities = {};
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return severities;
+  for (const [key, severity] of Object.entries(value)) {
+    if (isAllergySeverity(severity)) severities[severityKeyForTerm(key)] = severity;
+  }
+  return severities;
+}
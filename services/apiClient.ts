@@ -0,0 +1,99 @@
+import { ApiErrorBody, ApiErrorCode, ApiRequest, ApiRequestType, ApiResponse, UsageSummary } from '../types';
+import { getSupabaseClient } from './supabaseClient';
+
+const API_URL = '/.netlify/functions/api';
+
+// The server's codes, plus 'network_error' when the request never got an answer.
+export type ApiRequestErrorCode = ApiErrorCode | 'network_error';
+
+/**
+ * A failed API call. `code` says what went wrong so the UI can react to it,
+ * `retryable` whether sending the same request again may succeed, and
+ * `status` is the HTTP status (0 when the server could not be reached).
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly code: ApiRequestErrorCode,
+    readonly status: number,
+    readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+/** Thrown when the server refuses an analysis because the monthly limit is used up. */
+export class QuotaExceededError extends ApiRequestError {
+  constructor(message: string, readonly usage: UsageSummary) {
+    super(message, 'quota_exceeded', 429, false);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export const isApiRequestError = (error: unknown, code?: ApiRequestErrorCode): error is ApiRequestError =>
+  error instanceof ApiRequestError && (code === undefined || error.code === code);
+
+/** The typed error for an error body, from a response or an analysis stream. */
+export function toApiRequestError(body: Partial<ApiErrorBody> | null, status: number): ApiRequestError {
+  const message = body?.error || `Request failed with status ${status}`;
+  if (body?.code === 'quota_exceeded' && body.usage) return new QuotaExceededError(message, body.usage);
+  // Bodies without a code come from proxies or older deployments; fall back to the status.
+  const code = body?.code || (status >= 500 ? 'internal_error' : 'validation_error');
+  return new ApiRequestError(message, code, status, body?.retryable ?? status >= 500);
+}
+
+/** A request that never got an answer, e.g. because the device is offline. */
+export const networkError = (message: string = 'Could not reach the server. Check your connection and try again.'): ApiRequestError =>
+  new ApiRequestError(message, 'network_error', 0, true);
+
+/**
+ * The Authorization header for the signed-in user, so the server can meter
+ * and limit their usage. Empty for guests.
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  try {
+    const { data } = await getSupabaseClient().auth.getSession();
+    const token = data.session?.access_token;
+    return token ? { Authorization: `Bearer ${token}` } : {};
+  } catch {
+    // Supabase is not initialized yet: treat the request as a guest's.
+    return {};
+  }
+}
+
+/** Turns a non-2xx response into an ApiRequestError, keeping structured details the UI can use. */
+export async function readApiError(response: Response): Promise<ApiRequestError> {
+  let body: ApiErrorBody | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Not a JSON error body.
+  }
+  return toApiRequestError(body, response.status);
+}
+
+// Generic fetch handler for all our backend API calls
+export async function fetchFromApi<T extends ApiRequestType>(body: ApiRequest<T>, signal?: AbortSignal): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(API_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    // Cancelling is not a failure; let the caller recognize the AbortError.
+    if (signal?.aborted) throw error;
+    throw networkError();
+  }
+  if (!response.ok) throw await readApiError(response);
+  return response;
+}
+
+/** Sends one API request and returns its typed JSON response. */
+export async function callApi<T extends ApiRequestType>(body: ApiRequest<T>): Promise<ApiResponse<T>> {
+  const response = await fetchFromApi(body);
+  return response.json();
+}
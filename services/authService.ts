@@ -3,13 +3,21 @@
 // with the live Supabase backend. It uses the official supabase-js
 // client to handle user authentication, profile data, and history.
 
-import { AppUser, AnalysisResult, AnalysisHistoryEntry, AnalysisStatus, AnalysisType, Json, SafetyLevel } from '../types';
+import { AppUser, AllergySeverities, AnalysisResult, DietProfile, MenuDocument, AnalysisHistoryEntry, AnalysisStatus, AnalysisType, Json, SafetyLevel, UsageSummary, VisitChecklist } from '../types';
 import { getSupabaseClient, type Database } from './supabaseClient';
-import { isAnalysisResultArray } from './utils';
+import { isAnalysisResultArray, isMenuDocument, ANALYSIS_RESULT_VERSION } from './utils';
+import { validateAnalysisResults } from './validation';
+import { sanitizeVisitChecklist } from './visitChecklist';
+import { callApi } from './apiClient';
+import { sanitizeAllergySeverities } from './allergens';
+import { formatDietProfile, readDietProfile, sanitizeDietProfile } from './diets';
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage, outputLanguageForLocale } from './languages';
+import { DEFAULT_MONTHLY_ANALYSIS_LIMIT } from '../config';
 
 const GUEST_ALLERGY_KEY = 'menu-guard-guest-allergies';
+const GUEST_SEVERITY_KEY = 'menu-guard-guest-allergy-severities';
+const GUEST_LANGUAGE_KEY = 'menu-guard-guest-output-language';
 const DEFAULT_ALLERGIES = 'Peanuts, Shellfish, Gluten';
-const DEFAULT_ANALYSIS_LIMIT = 5;
 
 // --- Core Auth Functions using modern Supabase v2 syntax ---
 
@@ -69,10 +77,13 @@ export const getUserProfile = async (user: { id: string; email?: string }): Prom
       id: user.id,
       username: usernameFallback,
       allergies: DEFAULT_ALLERGIES,
+      allergy_severities: {},
+      output_language: outputLanguageForLocale(typeof navigator !== 'undefined' ? navigator.language : undefined),
       preferences: '',
+      diet_profile: { regimes: [], dislikes: [] },
       is_pro: false,
       updated_at: new Date().toISOString(),
-      max_analyses_per_month: DEFAULT_ANALYSIS_LIMIT,
+      max_analyses_per_month: DEFAULT_MONTHLY_ANALYSIS_LIMIT,
     };
 
     const { data: newProfile, error: insertError } = await supabase
@@ -92,7 +103,9 @@ export const getUserProfile = async (user: { id: string; email?: string }): Prom
       is_pro: newProfile!.is_pro,
       username: newProfile!.username || usernameFallback,
       allergies: newProfile!.allergies || DEFAULT_ALLERGIES,
-      preferences: newProfile!.preferences,
+      allergySeverities: sanitizeAllergySeverities(newProfile!.allergy_severities),
+      outputLanguage: isOutputLanguage(newProfile!.output_language) ? newProfile!.output_language : DEFAULT_OUTPUT_LANGUAGE,
+      dietProfile: readDietProfile({ dietProfile: newProfile!.diet_profile, preferences: newProfile!.preferences }),
       max_analyses_per_month: newProfile!.max_analyses_per_month,
       analysisHistory: [],
     };
@@ -113,18 +126,25 @@ export const getUserProfile = async (user: { id: string; email?: string }): Prom
   }
   
   const analysisHistory: AnalysisHistoryEntry[] = (history || []).map(dbEntry => {
+    const menu_document = isMenuDocument(dbEntry.menu_document) ? dbEntry.menu_document : null;
+    const visit_checklist = sanitizeVisitChecklist(dbEntry.visit_checklist);
     if (isAnalysisResultArray(dbEntry.result)) {
-      return { ...dbEntry, result: dbEntry.result } as AnalysisHistoryEntry;
-    } else {
-      console.warn('Invalid analysis result format in history item:', dbEntry.id);
-      const safeResult: AnalysisResult[] = [{
-        itemName: 'Data Error',
-        safetyLevel: SafetyLevel.Unsafe,
-        reasoning: 'The result from the database was in an invalid format and could not be displayed.',
-        identifiedAllergens: [],
-      }];
-      return { ...dbEntry, result: safeResult } as AnalysisHistoryEntry;
+      return { ...dbEntry, result: dbEntry.result, menu_document, visit_checklist } as AnalysisHistoryEntry;
     }
+    // Keep whatever items can still be read rather than hiding the whole analysis.
+    const { results, issues } = validateAnalysisResults(dbEntry.result);
+    if (results.length > 0) {
+      console.warn('Repaired analysis result in history item:', dbEntry.id, issues);
+      return { ...dbEntry, result: results, menu_document, visit_checklist } as AnalysisHistoryEntry;
+    }
+    console.warn('Invalid analysis result format in history item:', dbEntry.id);
+    const safeResult: AnalysisResult[] = [{
+      itemName: 'Data Error',
+      safetyLevel: SafetyLevel.Unsafe,
+      reasoning: 'The result from the database was in an invalid format and could not be displayed.',
+      identifiedAllergens: [],
+    }];
+    return { ...dbEntry, result: safeResult, menu_document, visit_checklist } as AnalysisHistoryEntry;
   });
 
   const finalUser: AppUser = {
@@ -133,7 +153,9 @@ export const getUserProfile = async (user: { id: string; email?: string }): Prom
     is_pro: profile!.is_pro,
     username: profile!.username || usernameFallback,
     allergies: profile!.allergies || '',
-    preferences: profile!.preferences,
+    allergySeverities: sanitizeAllergySeverities(profile!.allergy_severities),
+    outputLanguage: isOutputLanguage(profile!.output_language) ? profile!.output_language : DEFAULT_OUTPUT_LANGUAGE,
+    dietProfile: readDietProfile({ dietProfile: profile!.diet_profile, preferences: profile!.preferences }),
     max_analyses_per_month: profile!.max_analyses_per_month,
     analysisHistory,
   };
@@ -141,14 +163,21 @@ export const getUserProfile = async (user: { id: string; email?: string }): Prom
 };
 
 export const updateUser = async (
-  dataToUpdate: Partial<Pick<AppUser, 'username' | 'allergies' | 'preferences'>>
+  dataToUpdate: Partial<Pick<AppUser, 'username' | 'allergies' | 'allergySeverities' | 'outputLanguage' | 'dietProfile'>>
 ): Promise<AppUser> => {
   const supabase = getSupabaseClient();
   const user = supabase.auth.user();
   if (!user) throw new Error("User not authenticated.");
 
+  const { allergySeverities, outputLanguage, dietProfile, ...profileFields } = dataToUpdate;
+  if (outputLanguage !== undefined && !isOutputLanguage(outputLanguage)) {
+    throw new Error(`Unsupported output language: ${outputLanguage}`);
+  }
   const updatePayload: Database['public']['Tables']['profiles']['Update'] = {
-    ...dataToUpdate,
+    ...profileFields,
+    ...(allergySeverities && { allergy_severities: sanitizeAllergySeverities(allergySeverities) }),
+    ...(outputLanguage && { output_language: outputLanguage }),
+    ...(dietProfile && { diet_profile: sanitizeDietProfile(dietProfile) as unknown as Json }),
     updated_at: new Date().toISOString(),
   };
 
@@ -168,18 +197,23 @@ export const updateUser = async (
 export const addAnalysisToHistory = async (
   currentUser: AppUser,
   results: AnalysisResult[],
+  menuDocument: MenuDocument,
   allergies: string,
-  preferences: string,
-  inputText: string
+  dietProfile: DietProfile,
+  inputText: string,
+  fromCache: boolean = false
 ): Promise<AppUser> => {
   const supabase = getSupabaseClient();
   
   const historyData: Database['public']['Tables']['analysis_history']['Insert'] = {
     user_id: currentUser.id,
     result: results as unknown as Json,
+    result_version: ANALYSIS_RESULT_VERSION,
+    menu_document: menuDocument as unknown as Json,
     allergies,
-    preferences,
+    preferences: formatDietProfile(dietProfile),
     input_text: inputText,
+    from_cache: fromCache,
     status: AnalysisStatus.Completed,
     analysis_type: AnalysisType.MenuAnalysis,
   };
@@ -201,6 +235,8 @@ export const addAnalysisToHistory = async (
 
   const newHistoryEntry: AnalysisHistoryEntry = {
     ...newHistoryDbEntry,
+    menu_document: isMenuDocument(newHistoryDbEntry.menu_document) ? newHistoryDbEntry.menu_document : null,
+    visit_checklist: sanitizeVisitChecklist(newHistoryDbEntry.visit_checklist),
     result: isAnalysisResultArray(newHistoryDbEntry.result)
       ? newHistoryDbEntry.result
       : [{
@@ -217,6 +253,28 @@ export const addAnalysisToHistory = async (
   };
 };
 
+/**
+ * Saves the visit checklist (questions asked and the staff's answers) with a
+ * history entry. The analysis itself is left as it was.
+ */
+export const saveVisitChecklist = async (historyId: number, checklist: VisitChecklist): Promise<void> => {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from('analysis_history')
+    .update({ visit_checklist: checklist as unknown as Json })
+    .eq('id', historyId);
+
+  if (error) {
+    console.error("Error saving visit checklist:", error);
+    throw new Error("Could not save your checklist answers. Please try again.");
+  }
+};
+
+// --- Usage ---
+
+/** The signed-in user's analyses this month, as counted by the server. */
+export const getMonthlyUsage = (): Promise<UsageSummary> => callApi({ type: 'usage', data: {} });
+
 export const deleteAnalysisFromHistory = async (historyId: number): Promise<void> => {
   const supabase = getSupabaseClient();
   const { error } = await supabase
@@ -248,6 +306,52 @@ export const loadGuestAllergies = (): string => {
   }
 };
 
+export const saveGuestAllergySeverities = (severities: AllergySeverities): void => {
+  try {
+    localStorage.setItem(GUEST_SEVERITY_KEY, JSON.stringify(severities));
+  } catch (e) {
+    console.warn("Could not save guest allergy severities to localStorage.");
+  }
+};
+
+export const loadGuestAllergySeverities = (): AllergySeverities => {
+  try {
+    const stored = localStorage.getItem(GUEST_SEVERITY_KEY);
+    return stored ? sanitizeAllergySeverities(JSON.parse(stored)) : {};
+  } catch (e) {
+    console.warn("Could not load guest allergy severities from localStorage.");
+    return {};
+  }
+};
+
+export const saveGuestOutputLanguage = (language: string): void => {
+  try {
+    localStorage.setItem(GUEST_LANGUAGE_KEY, language);
+  } catch (e) {
+    console.warn("Could not save guest output language to localStorage.");
+  }
+};
+
+// Guests default to their browser's language when it is supported.
+export const loadGuestOutputLanguage = (): string => {
+  try {
+    const stored = localStorage.getItem(GUEST_LANGUAGE_KEY);
+    if (isOutputLanguage(stored)) return stored;
+  } catch (e) {
+    console.warn("Could not load guest output language from localStorage.");
+  }
+  return outputLanguageForLocale(typeof navigator !== 'undefined' ? navigator.language : undefined);
+};
+
+// --- Chef Card ---
+// The chef card is drawn on the device from the profile already loaded: the
+// signed-in user's, or the guest's saved in this browser. No request is made,
+// so a card can be made while offline.
+export const getChefCardProfile = (user: AppUser | null): { allergies: string; allergySeverities: AllergySeverities; outputLanguage: string } =>
+  user
+    ? { allergies: user.allergies, allergySeverities: user.allergySeverities, outputLanguage: user.outputLanguage }
+    : { allergies: loadGuestAllergies(), allergySeverities: loadGuestAllergySeverities(), outputLanguage: loadGuestOutputLanguage() };
+
 // --- Pro Upgrade Flow ---
 export const initiateProUpgrade = async (): Promise<{ checkoutUrl: string }> => {
   const supabase = getSupabaseClient();
@@ -259,6 +363,9 @@ export const initiateProUpgrade = async (): Promise<{ checkoutUrl: string }> =>
   return { checkoutUrl: simulatedUrl };
 };
 
+// Simulated: the plan columns can only be changed by the server (see the
+// profile_plan_columns migration), so with that migration applied this update
+// is refused until a payment webhook on the server sets them instead.
 export const upgradeToPro = async (): Promise<AppUser> => {
   const supabase = getSupabaseClient();
   const user = supabase.auth.user();
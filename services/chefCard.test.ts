@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { buildChefCard, chefCardToPdf } from './chefCard';
+import { PHRASEBOOK } from './phrasebook';
+
+describe('buildChefCard', () => {
+  it('translates known allergens and keeps custom terms as written', () => {
+    const card = buildChefCard('peanuts, sumac', {}, 'es');
+    assert.equal(card.language, 'es');
+    assert.deepEqual(card.entries.map(entry => [entry.allergen, entry.name, entry.englishName]), [
+      ['peanut', 'Cacahuetes (maní)', 'Peanuts'],
+      ['sumac', 'sumac', 'Sumac'],
+    ]);
+  });
+
+  it('falls back to English and warns strictly about cross-contact for anaphylactic allergies', () => {
+    const card = buildChefCard('peanut', { peanut: 'anaphylactic' }, 'xx');
+    assert.equal(card.language, 'en');
+    assert.equal(card.crossContactNote, PHRASEBOOK.en.strictCrossContact);
+    assert.equal(buildChefCard('peanut', {}, 'en').crossContactNote, PHRASEBOOK.en.crossContact);
+  });
+});
+
+describe('chefCardToPdf', () => {
+  // A stand-in for the rendered canvas; its "JPEG" has bytes above 0x7f, as a real one does.
+  const image = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0xc3, 0xa9, 0xff, 0xd9]);
+  const canvas = {
+    width: 1200,
+    height: 1600,
+    toBlob: (callback: BlobCallback) => callback(new Blob([image], { type: 'image/jpeg' })),
+  } as unknown as HTMLCanvasElement;
+
+  it('points the cross-reference table at every object', async () => {
+    const bytes = new Uint8Array(await (await chefCardToPdf(canvas)).arrayBuffer());
+    // latin1 maps each byte to one character, so string indexes are byte offsets.
+    const pdf = Buffer.from(bytes).toString('latin1');
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)?.[1]);
+    assert.ok(pdf.startsWith('xref\n', startxref));
+    const offsets = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm)?.map(entry => Number(entry.slice(0, 10))) ?? [];
+    assert.equal(offsets.length, 5);
+    offsets.forEach((offset, index) => assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset), `object ${index + 1}`));
+    assert.match(pdf, new RegExp(`/Size ${offsets.length + 1} `));
+
+    // The image stream holds exactly the JPEG's bytes.
+    const imageStart = pdf.indexOf('stream\n', offsets[4]) + 'stream\n'.length;
+    assert.deepEqual(bytes.slice(imageStart, imageStart + image.length), image);
+    assert.ok(pdf.startsWith('\nendstream', imageStart + image.length));
+  });
+
+  it('opens as a one-page PDF', async () => {
+    const document = await getDocumentProxy(new Uint8Array(await (await chefCardToPdf(canvas)).arrayBuffer()));
+    assert.equal((await extractText(document)).totalPages, 1);
+  });
+});
@@ -0,0 +1,267 @@
+// --- Chef Card ---
+// Builds the allergy card a user hands to restaurant staff from their profile
+// and the bundled phrasebook, renders it to a PNG on a canvas and wraps that
+// in a one-page PDF for printing. Nothing here calls the model or the API, so
+// a card can be made offline; the last card per language is also kept in a
+// cache the service worker serves from `/chef-card/`.
+
+import { AllergySeverities, AllergySeverity, ChefCard, ChefCardEntry } from '../types';
+import { getAllergenLabel, getAllergySeverity, parseAllergies, SEVERITY_LABELS } from './allergens';
+import { ALLERGEN_PICTOGRAMS, CUSTOM_ALLERGEN_PICTOGRAM, getPhrases, hasPhrasebook } from './phrasebook';
+import { DEFAULT_OUTPUT_LANGUAGE } from './languages';
+
+// Must match CHEF_CARD_CACHE in sw.js, which keeps this cache across app updates.
+export const CHEF_CARD_CACHE = 'menu-guard-chef-cards';
+
+/**
+ * Builds the card for a comma-separated allergy list. Allergens in the
+ * taxonomy are translated; terms it doesn't know are printed as the user
+ * wrote them, marked with a warning pictogram, so nothing is left off.
+ * @param {string} allergies The profile's allergies, e.g. "Peanuts, dairy".
+ * @param {AllergySeverities} severities The profile's severities.
+ * @param {string} language Card language; English when the phrasebook lacks it.
+ */
+export function buildChefCard(allergies: string, severities: AllergySeverities, language: string): ChefCard {
+  const cardLanguage = hasPhrasebook(language) ? language : DEFAULT_OUTPUT_LANGUAGE;
+  const phrases = getPhrases(cardLanguage);
+  const parsed = parseAllergies(allergies);
+
+  const entry = (allergen: string, pictogram: string, name: string): ChefCardEntry => {
+    const severity = getAllergySeverity(severities, allergen);
+    return {
+      allergen,
+      pictogram,
+      name,
+      englishName: getAllergenLabel(allergen),
+      severity,
+      severityNote: phrases.severityNotes[severity],
+    };
+  };
+
+  const entries = [
+    ...parsed.codes.map(code => entry(code, ALLERGEN_PICTOGRAMS[code], phrases.allergens[code])),
+    ...parsed.unrecognized.map(term => entry(term, CUSTOM_ALLERGEN_PICTOGRAM, term)),
+  ];
+
+  return {
+    language: cardLanguage,
+    title: phrases.title,
+    intro: phrases.intro,
+    entries,
+    crossContactNote: entries.some(item => item.severity === 'anaphylactic') ? phrases.strictCrossContact : phrases.crossContact,
+    closing: phrases.closing,
+  };
+}
+
+// --- Rendering ---
+
+const CARD_WIDTH = 1200;
+const PADDING = 64;
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", "Noto Sans", "Noto Sans CJK JP", "Noto Sans Thai", sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji"';
+
+const SEVERITY_COLORS: Record<AllergySeverity, string> = {
+  intolerance: '#a16207',
+  allergy: '#b91c1c',
+  anaphylactic: '#7f1d1d',
+};
+
+/**
+ * Splits text into pieces a line may break between. Languages such as
+ * Japanese and Thai don't put spaces between words, so this relies on the
+ * runtime's word segmenter and falls back to spaces and single characters.
+ */
+function segmentText(text: string, language: string): string[] {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), part => part.segment);
+  }
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, language: string): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const segment of segmentText(text, language)) {
+    // A single segment wider than the card is broken between characters.
+    const pieces = ctx.measureText(segment).width > maxWidth ? Array.from(segment) : [segment];
+    for (const piece of pieces) {
+      const candidate = line + piece;
+      if (!line || ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+      } else {
+        lines.push(line.trimEnd());
+        line = piece.trimStart();
+      }
+    }
+  }
+  if (line.trim()) lines.push(line.trimEnd());
+  return lines;
+}
+
+/**
+ * Lays out the card top to bottom and returns its height. Run once without
+ * drawing to size the canvas, then again to draw.
+ */
+function layoutCard(ctx: CanvasRenderingContext2D, card: ChefCard, draw: boolean): number {
+  const contentWidth = CARD_WIDTH - PADDING * 2;
+  let y = PADDING;
+
+  const paragraph = (text: string, size: number, options: { weight?: string; color?: string; x?: number; width?: number; lineHeight?: number } = {}) => {
+    const x = options.x ?? PADDING;
+    const lineHeight = Math.round(size * (options.lineHeight ?? 1.35));
+    ctx.font = `${options.weight || 'normal'} ${size}px ${FONT_FAMILY}`;
+    ctx.fillStyle = options.color || '#111827';
+    for (const line of wrapText(ctx, text, options.width ?? contentWidth, card.language)) {
+      if (draw) ctx.fillText(line, x, y);
+      y += lineHeight;
+    }
+  };
+
+  ctx.textBaseline = 'top';
+  if (draw) {
+    ctx.fillStyle = '#b91c1c';
+    ctx.fillRect(0, 0, CARD_WIDTH, 16);
+  }
+  y += 8;
+  paragraph(`⚠️ ${card.title}`, 56, { weight: 'bold' });
+  y += 12;
+  paragraph(card.intro, 32, { color: '#374151' });
+  y += 24;
+
+  const pictogramSize = 64;
+  const textX = PADDING + pictogramSize + 28;
+  const textWidth = CARD_WIDTH - PADDING - textX;
+  for (const entry of card.entries) {
+    if (draw) {
+      ctx.fillStyle = '#e5e7eb';
+      ctx.fillRect(PADDING, y, contentWidth, 2);
+    }
+    y += 20;
+    const entryTop = y;
+    if (draw) {
+      ctx.font = `${pictogramSize}px ${FONT_FAMILY}`;
+      ctx.fillText(entry.pictogram, PADDING, entryTop);
+    }
+    paragraph(entry.name, 44, { weight: 'bold', x: textX, width: textWidth, lineHeight: 1.2 });
+    if (card.language !== DEFAULT_OUTPUT_LANGUAGE && entry.englishName !== entry.name) {
+      paragraph(entry.englishName, 24, { color: '#6b7280', x: textX, width: textWidth });
+    }
+    paragraph(entry.severityNote, 30, { weight: entry.severity === 'anaphylactic' ? 'bold' : 'normal', color: SEVERITY_COLORS[entry.severity], x: textX, width: textWidth });
+    y = Math.max(y, entryTop + pictogramSize) + 16;
+  }
+
+  y += 12;
+  // The box behind the cross-contact note is sized from the wrapped note first.
+  const noteSize = 32;
+  const noteWidth = contentWidth - 48;
+  ctx.font = `bold ${noteSize}px ${FONT_FAMILY}`;
+  const noteHeight = wrapText(ctx, card.crossContactNote, noteWidth, card.language).length * Math.round(noteSize * 1.35);
+  if (draw) {
+    ctx.fillStyle = '#fef2f2';
+    ctx.fillRect(PADDING, y, contentWidth, noteHeight + 48);
+  }
+  y += 24;
+  paragraph(card.crossContactNote, noteSize, { weight: 'bold', x: PADDING + 24, width: noteWidth, color: '#7f1d1d' });
+  y += 24 + 24;
+  paragraph(card.closing, 32);
+  y += 16;
+  paragraph('MenuGuard', 20, { color: '#9ca3af' });
+  return y + PADDING - 20;
+}
+
+/** Draws the card on a new canvas; `scale` trades file size for print sharpness. */
+export function renderChefCard(card: ChefCard, scale = 1): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Your browser cannot draw the card.');
+  const height = layoutCard(ctx, card, false);
+  canvas.width = CARD_WIDTH * scale;
+  canvas.height = Math.ceil(height * scale);
+  // Resizing resets the context, so drawing settings are applied after it.
+  ctx.scale(scale, scale);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, CARD_WIDTH, height);
+  layoutCard(ctx, card, true);
+  return canvas;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the card image.'))), type, quality);
+  });
+
+export const chefCardToPng = (canvas: HTMLCanvasElement): Promise<Blob> => canvasToBlob(canvas, 'image/png');
+
+// --- PDF ---
+
+const A4_WIDTH = 595; // Points
+const A4_HEIGHT = 842;
+const PDF_MARGIN = 40;
+
+/**
+ * Wraps the rendered card in a one-page A4 PDF. The card is embedded as a
+ * JPEG, which PDF can hold as is (DCTDecode), so no PDF library is needed.
+ */
+export async function chefCardToPdf(canvas: HTMLCanvasElement): Promise<Blob> {
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+  const fit = Math.min((A4_WIDTH - PDF_MARGIN * 2) / canvas.width, (A4_HEIGHT - PDF_MARGIN * 2) / canvas.height);
+  const width = canvas.width * fit;
+  const height = canvas.height * fit;
+  const x = (A4_WIDTH - width) / 2;
+  const y = A4_HEIGHT - PDF_MARGIN - height;
+  const content = `q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Card Do Q`;
+
+  // Offsets are in bytes; everything but the image is ASCII.
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Blob) => {
+    parts.push(part);
+    length += typeof part === 'string' ? part.length : part.size;
+  };
+  const object = (body: string) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\nendobj\n`);
+  };
+
+  write('%PDF-1.4\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] /Resources << /XObject << /Card 5 0 R >> >> /Contents 4 0 R >>`);
+  object(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  offsets.push(length);
+  write(`5 0 obj\n<< /Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.size} >>\nstream\n`);
+  write(jpeg);
+  write('\nendstream\nendobj\n');
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  write(offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+  return new Blob(parts, { type: 'application/pdf' });
+}
+
+// --- Offline Cache ---
+
+export const chefCardUrl = (language: string, format: 'png' | 'pdf'): string => `/chef-card/${language}.${format}`;
+
+/**
+ * Keeps the latest card for a language where the service worker serves it
+ * from, so `/chef-card/<language>.png` and `.pdf` open without a connection.
+ * Browsers without the Cache API simply don't get the offline copy.
+ */
+export async function cacheChefCard(language: string, png: Blob, pdf: Blob): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  try {
+    const cache = await caches.open(CHEF_CARD_CACHE);
+    await Promise.all([
+      cache.put(chefCardUrl(language, 'png'), new Response(png, { headers: { 'Content-Type': 'image/png' } })),
+      cache.put(chefCardUrl(language, 'pdf'), new Response(pdf, { headers: { 'Content-Type': 'application/pdf' } })),
+    ]);
+  } catch (e) {
+    console.warn('Could not cache the chef card for offline use.', e);
+  }
+}
+
+/** Summary of the card's entries in English, for the preview's alt text. */
+export const describeChefCard = (card: ChefCard): string =>
+  card.entries.map(entry => `${entry.englishName} (${SEVERITY_LABELS[entry.severity].toLowerCase()})`).join(', ');
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { DietProfile } from '../types';
+import { findDietConflicts } from './diets';
+
+const vegan: DietProfile = { regimes: ['vegan'], dislikes: [] };
+const termsFor = (text: string, profile: DietProfile = vegan) =>
+  findDietConflicts(text, profile).map(conflict => `${conflict.diet}:${conflict.term}`);
+
+describe('findDietConflicts', () => {
+  it('flags animal products for vegans', () => {
+    assert.deepEqual(termsFor('Fettuccine - cream, parmesan'), ['vegan:cream']);
+    assert.deepEqual(termsFor('Buttered greens'), ['vegan:butter']);
+    assert.deepEqual(termsFor('Chicken Katsu - rice'), ['vegan:chicken']);
+  });
+
+  it('does not read cooking verbs as meat', () => {
+    const vegetarian: DietProfile = { regimes: ['vegetarian'], dislikes: [] };
+    assert.deepEqual(termsFor('Stir-fried greens - minced garlic, ginger', vegetarian), []);
+    assert.deepEqual(termsFor('Corned beef hash', vegetarian), ['vegetarian:beef']);
+  });
+
+  it('does not count plant milks and creams as dairy', () => {
+    assert.deepEqual(termsFor('Thai Curry - coconut milk, tofu'), []);
+    assert.deepEqual(termsFor('Porridge - oats, almond milk, berries'), []);
+    assert.deepEqual(termsFor('Latte with oat-milk'), []);
+    assert.deepEqual(termsFor('Crackers - cashew cheese, grapes'), []);
+  });
+
+  it('does not count nut butters as dairy', () => {
+    assert.deepEqual(termsFor('Toast - peanut butter, banana'), []);
+    assert.deepEqual(termsFor('Smoothie - almond butter, dates'), []);
+  });
+
+  it('still flags dairy listed next to a plant milk', () => {
+    assert.deepEqual(termsFor('Curry - coconut milk, paneer'), ['vegan:paneer']);
+  });
+
+  it('ignores ingredients named only to say they are left out', () => {
+    assert.deepEqual(termsFor('Dairy-free chocolate mousse'), []);
+    assert.deepEqual(termsFor('Noodle soup - fish-free stock, tofu'), []);
+    assert.deepEqual(termsFor('Egg free pasta'), []);
+    assert.deepEqual(termsFor('Coriander-free salsa', { regimes: [], dislikes: ['coriander'] }), []);
+  });
+
+  it('skips a diet the item is declared to fit', () => {
+    assert.deepEqual(findDietConflicts('Vegan Burger - cheese, bun', vegan, ['Vegan Burger']), []);
+  });
+});
@@ -0,0 +1,273 @@
+import type { AnalysisResult, DietConflict, DietProfile, DietRegime } from '../types';
+import { MAX_DIET_DISLIKES, MAX_DISLIKE_CHARS } from '../config';
+import { AllergenCode, findAllergenKeywords, findMentionedTerm, getAllergenLabel } from './allergens';
+
+// --- Diet Regimes ---
+// Diets the user follows by choice or belief, kept apart from allergies: an
+// item that does not fit a diet is reported as a diet conflict and can be
+// filtered out, but its safety level is never changed. Shared by the client
+// (profile toggles, results filter) and the Netlify functions (prompt and
+// keyword check).
+
+export interface DietDefinition {
+  regime: DietRegime;
+  label: string;
+  // What the diet rules out, as the model is told.
+  rule: string;
+  // What people call the diet; also how menu badges mark items that fit it.
+  names: string[];
+  // Short badge codes menus print for the diet ("V", "GF").
+  badgeCodes: string[];
+  // Stricter diets whose badge also means an item fits this one (a vegan dish is vegetarian).
+  impliedBy: DietRegime[];
+  // Allergens the diet rules out, matched with the allergen keyword rules (dishes that hide them included).
+  excludedAllergens: AllergenCode[];
+  // Other ingredients the diet rules out.
+  excludedIngredients: string[];
+}
+
+const MEAT = [
+  'meat', 'beef', 'pork', 'chicken', 'lamb', 'mutton', 'veal', 'duck', 'turkey', 'goose', 'venison', 'rabbit', 'goat',
+  'bacon', 'ham', 'sausage', 'chorizo', 'prosciutto', 'salami', 'pancetta', 'guanciale', 'pepperoni', 'steak', 'mince',
+  'meatball', 'brisket', 'foie gras', 'lard', 'gelatin', 'gelatine',
+];
+
+const PORK = ['pork', 'bacon', 'ham', 'prosciutto', 'pancetta', 'guanciale', 'chorizo', 'salami', 'pepperoni', 'lard', 'gelatin', 'gelatine'];
+
+const ALCOHOL = ['wine', 'beer', 'rum', 'sake', 'mirin', 'brandy', 'cognac', 'bourbon', 'whisky', 'whiskey', 'vodka', 'liqueur', 'sherry', 'marsala', 'vermouth'];
+
+export const DIET_TAXONOMY: Record<DietRegime, DietDefinition> = {
+  vegan: {
+    regime: 'vegan',
+    label: 'Vegan',
+    rule: 'no animal products at all: no meat, fish, seafood, dairy, eggs, honey or gelatin',
+    names: ['vegan', 'plant based'],
+    badgeCodes: ['vg', 've'],
+    impliedBy: [],
+    excludedAllergens: ['milk', 'egg', 'fish', 'crustacean', 'mollusc'],
+    excludedIngredients: [...MEAT, 'honey'],
+  },
+  vegetarian: {
+    regime: 'vegetarian',
+    label: 'Vegetarian',
+    rule: 'no meat, fish or seafood, including stocks, gelatin and fish sauce; dairy and eggs are fine',
+    names: ['vegetarian', 'veggie'],
+    badgeCodes: ['v'],
+    impliedBy: ['vegan'],
+    excludedAllergens: ['fish', 'crustacean', 'mollusc'],
+    excludedIngredients: MEAT,
+  },
+  pescatarian: {
+    regime: 'pescatarian',
+    label: 'Pescatarian',
+    rule: 'no meat or poultry, including meat stocks and gelatin; fish, seafood, dairy and eggs are fine',
+    names: ['pescatarian', 'pescetarian'],
+    badgeCodes: [],
+    impliedBy: ['vegan', 'vegetarian'],
+    excludedAllergens: [],
+    excludedIngredients: MEAT,
+  },
+  halal: {
+    regime: 'halal',
+    label: 'Halal',
+    rule: 'no pork or pork products (lard, gelatin), no alcohol in the dish or its sauce, and meat only when the menu says it is halal',
+    names: ['halal'],
+    badgeCodes: [],
+    impliedBy: [],
+    excludedAllergens: [],
+    excludedIngredients: [...PORK, ...ALCOHOL],
+  },
+  kosher: {
+    regime: 'kosher',
+    label: 'Kosher',
+    rule: 'no pork, shellfish or other non-kosher animals, no meat served with dairy, and meat only when the menu says it is kosher',
+    names: ['kosher'],
+    badgeCodes: [],
+    impliedBy: [],
+    excludedAllergens: ['crustacean', 'mollusc'],
+    excludedIngredients: [...PORK, 'rabbit', 'eel', 'catfish'],
+  },
+  low_fodmap: {
+    regime: 'low_fodmap',
+    label: 'Low-FODMAP',
+    rule: 'avoids high-FODMAP foods such as garlic, onion, legumes, some fruits and vegetables, honey, and larger amounts of wheat or lactose',
+    names: ['low fodmap', 'fodmap'],
+    badgeCodes: [],
+    impliedBy: [],
+    excludedAllergens: [],
+    excludedIngredients: [
+      'garlic', 'onion', 'shallot', 'leek', 'honey', 'agave', 'apple', 'pear', 'mango', 'watermelon', 'cherry',
+      'chickpea', 'hummus', 'lentil', 'kidney bean', 'black bean', 'baked beans', 'cauliflower', 'mushroom', 'asparagus', 'artichoke',
+    ],
+  },
+  keto: {
+    regime: 'keto',
+    label: 'Keto',
+    rule: 'very low in carbohydrates: no bread, pasta, rice, potatoes, sugar or other starchy or sweet foods',
+    names: ['keto', 'ketogenic', 'low carb'],
+    badgeCodes: [],
+    impliedBy: [],
+    excludedAllergens: [],
+    excludedIngredients: [
+      'bread', 'bun', 'toast', 'naan', 'pita', 'tortilla', 'pizza', 'pasta', 'spaghetti', 'noodle', 'rice', 'risotto', 'couscous', 'quinoa',
+      'polenta', 'oats', 'porridge', 'potato', 'fries', 'chips', 'croutons', 'breadcrumbs', 'pancake', 'waffle', 'cake', 'sugar',
+      'honey', 'syrup', 'juice', 'banana', 'beans', 'lentil', 'corn',
+    ],
+  },
+  gluten_free: {
+    regime: 'gluten_free',
+    label: 'Gluten-free (by choice)',
+    rule: 'no gluten as an ingredient; chosen rather than medical, so traces and shared equipment are fine',
+    names: ['gluten free', 'no gluten'],
+    badgeCodes: ['gf'],
+    impliedBy: [],
+    excludedAllergens: ['gluten'],
+    excludedIngredients: [],
+  },
+};
+
+export const DIET_REGIMES = Object.keys(DIET_TAXONOMY) as DietRegime[];
+
+export const EMPTY_DIET_PROFILE: DietProfile = { regimes: [], dislikes: [] };
+
+export const isDietRegime = (value: unknown): value is DietRegime =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(DIET_TAXONOMY, value);
+
+export const hasDiets = (profile: DietProfile | null | undefined): boolean =>
+  !!profile && (profile.regimes.length > 0 || profile.dislikes.length > 0);
+
+export const getDietLabel = (diet: DietRegime | 'dislike'): string =>
+  diet === 'dislike' ? 'Dislike' : DIET_TAXONOMY[diet].label;
+
+/** True when an analysis found no diet conflict for the item, or did not check diets at all. */
+export const fitsAllDiets = (result: AnalysisResult): boolean => (result.dietConflicts?.length ?? 0) === 0;
+
+/**
+ * Splits a comma-separated list of dislikes ("coriander, olives") into
+ * terms, dropping duplicates and anything over the limits in config.ts.
+ */
+export function parseDislikes(text: string): string[] {
+  const dislikes: string[] = [];
+  for (const rawTerm of text.split(/[,;\n]/)) {
+    const term = rawTerm.replace(/\s+/g, ' ').trim();
+    if (!term || term.length > MAX_DISLIKE_CHARS) continue;
+    if (dislikes.some(existing => existing.toLowerCase() === term.toLowerCase())) continue;
+    dislikes.push(term);
+  }
+  return dislikes.slice(0, MAX_DIET_DISLIKES);
+}
+
+/**
+ * Reads a diet profile from `profiles.diet_profile` or a request body,
+ * dropping unknown diets and unusable dislikes. Null when the value is not a
+ * diet profile at all.
+ */
+export function sanitizeDietProfile(value: unknown): DietProfile | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  const { regimes, dislikes } = value as Record<string, unknown>;
+  return {
+    regimes: DIET_REGIMES.filter(regime => Array.isArray(regimes) && regimes.includes(regime)),
+    dislikes: Array.isArray(dislikes)
+      ? parseDislikes(dislikes.filter((term): term is string => typeof term === 'string' && !term.includes(',')).join(','))
+      : [],
+  };
+}
+
+/**
+ * Reads diets out of the free-text `preferences` written before diet
+ * profiles existed. Only diets the text names outright are recognised; the
+ * rest is dropped rather than guessed at.
+ */
+export function dietProfileFromPreferences(preferences: string | null | undefined): DietProfile {
+  const text = preferences || '';
+  return {
+    regimes: DIET_REGIMES.filter(regime => findMentionedTerm(text, DIET_TAXONOMY[regime].names)),
+    dislikes: [],
+  };
+}
+
+/**
+ * The diet profile of an `analyze` request or a stored analysis. Clients and
+ * snapshots older than diet profiles only have the free-text `preferences`.
+ */
+export const readDietProfile = (data: { dietProfile?: unknown; preferences?: string | null }): DietProfile =>
+  sanitizeDietProfile(data.dietProfile) ?? dietProfileFromPreferences(data.preferences);
+
+/** "Vegan, Halal; dislikes: coriander, olives", or an empty string for no diets. */
+export function formatDietProfile(profile: DietProfile): string {
+  const parts: string[] = [];
+  if (profile.regimes.length > 0) parts.push(profile.regimes.map(getDietLabel).join(', '));
+  if (profile.dislikes.length > 0) parts.push(`dislikes: ${profile.dislikes.join(', ')}`);
+  return parts.join('; ');
+}
+
+/**
+ * Renders the diet profile as a bullet list for the prompts, spelling out
+ * what each diet rules out so the model applies the same rules as the
+ * keyword check.
+ */
+export function describeDietForPrompt(profile: DietProfile): string {
+  const lines = profile.regimes.map(regime => `- ${regime} (${DIET_TAXONOMY[regime].label}): ${DIET_TAXONOMY[regime].rule}`);
+  if (profile.dislikes.length > 0) lines.push(`- dislike: ${profile.dislikes.join(', ')}`);
+  return lines.length > 0 ? lines.join('\n') : '- None specified';
+}
+
+/**
+ * True when the menu says an item fits `regime`, directly or through a
+ * stricter diet: in one of its badges, or in its name ("Vegan Burger").
+ */
+export function isDeclaredForDiet(regime: DietRegime, labels: string[]): boolean {
+  const regimes = [regime, ...DIET_TAXONOMY[regime].impliedBy];
+  return labels.some(badge => {
+    const code = badge.trim().toLowerCase().replace(/[().]/g, '');
+    return regimes.some(candidate =>
+      DIET_TAXONOMY[candidate].badgeCodes.includes(code) || !!findMentionedTerm(badge, DIET_TAXONOMY[candidate].names)
+    );
+  });
+}
+
+// Plants whose milks, creams, butters and cheeses are named like dairy ("coconut milk", "peanut butter").
+const PLANT_DAIRY_LOOKALIKES = new RegExp(
+  `(^|[^a-z])(${['almond', 'apple', 'cacao', 'cashew', 'cocoa', 'coconut', 'hazelnut', 'hemp', 'macadamia', 'nut', 'oat', 'pea', 'peanut', 'pecan', 'pistachio', 'rice', 'seed', 'sesame', 'shea', 'soy', 'soya', 'sunflower', 'walnut'].join('|')})[\\s-]+(milk|cream|butter|cheese|yogh?urt)s?(?=$|[^a-z])`,
+  'g'
+);
+
+// "Dairy-free", "fish free": the ingredient is named to say it is left out.
+const NEGATED_INGREDIENT = /[a-z]+[- ]free(?=$|[^a-z])/g;
+
+const withoutNegations = (text: string): string => text.toLowerCase().replace(NEGATED_INGREDIENT, ' ');
+
+/**
+ * Deterministically scans a piece of menu text for ingredients the user's
+ * diets rule out and for their dislikes. Listed ingredients are preferred
+ * over dishes that usually hide one. A diet the menu says the item fits is
+ * not checked, so a "vegan cheese" on a dish marked vegan is not flagged.
+ * Plant milks and butters and "-free" wording never count as the ingredient.
+ * @param {string} text Menu item name and description.
+ * @param {DietProfile} profile The user's diets.
+ * @param {string[]} labels The item's name and the dietary badges printed with it.
+ * @returns {DietConflict[]} One conflict per diet and per dislike.
+ */
+export function findDietConflicts(text: string, profile: DietProfile, labels: string[] = []): DietConflict[] {
+  const conflicts: DietConflict[] = [];
+  const scanned = withoutNegations(text);
+  const scannedForDiets = scanned.replace(PLANT_DAIRY_LOOKALIKES, '$1 ');
+  for (const regime of profile.regimes) {
+    if (isDeclaredForDiet(regime, labels)) continue;
+    const { excludedAllergens, excludedIngredients } = DIET_TAXONOMY[regime];
+    const allergenMatches = findAllergenKeywords(scannedForDiets, { codes: excludedAllergens, unrecognized: [] });
+    const keyword = allergenMatches.find(match => match.source === 'ingredient')?.keyword ?? findMentionedTerm(scannedForDiets, excludedIngredients);
+    if (keyword) {
+      conflicts.push({ diet: regime, term: keyword, reason: `The menu mentions "${keyword}".` });
+    } else if (allergenMatches.length > 0) {
+      const { keyword: dish, allergen } = allergenMatches[0];
+      conflicts.push({ diet: regime, term: dish, reason: `"${dish}" is usually made with ${getAllergenLabel(allergen).toLowerCase()}.` });
+    }
+  }
+  for (const dislike of profile.dislikes) {
+    if (findMentionedTerm(scanned, [dislike])) {
+      conflicts.push({ diet: 'dislike', term: dislike, reason: `The menu mentions ${dislike}, which you would rather avoid.` });
+    }
+  }
+  return conflicts;
+}
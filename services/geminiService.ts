@@ -1,4 +1,6 @@
-import { AnalysisResult, ChatMessage } from '../types';
+import { AllergySeverities, AnalysisResult, AnalyzeRequestData, AnalyzeStreamEvent, ApiRequest, ApiResponse, ChatMessage, DietProfile, ImagePayload, MenuAnalysis, MenuDocument, SecurityWarning, StaffQuestion } from '../types';
+import { callApi, fetchFromApi, networkError, toApiRequestError } from './apiClient';
+import { MAX_ALTERNATIVE_ITEMS, MAX_IMAGE_BATCH_BYTES, MAX_MENU_PAGES, MAX_PDF_BYTES } from '../config';
 
 /**
  * Resizes an image file to a max dimension while maintaining aspect ratio,
@@ -51,52 +53,188 @@ const processImageForUpload = (file: File, maxDimension: number = 800): Promise<
     });
 };
 
-// Generic fetch handler for all our backend API calls
-async function fetchFromApi(endpoint: string, body: object) {
-    const response = await fetch(`/.netlify/functions/${endpoint}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
-    });
+const batchSize = (payloads: ImagePayload[]): number =>
+    payloads.reduce((total, payload) => total + payload.data.length, 0);
+
+/**
+ * Resizes every page of a multi-page menu and checks the whole batch against
+ * the upload limit. If the batch is too large at the default size it is
+ * re-encoded once at a smaller size before giving up.
+ * @param {File[]} files The page images, in reading order.
+ * @returns {Promise<ImagePayload[]>}
+ */
+async function processMenuPages(files: File[]): Promise<ImagePayload[]> {
+    if (files.length > MAX_MENU_PAGES) {
+        throw new Error(`A menu can have at most ${MAX_MENU_PAGES} pages. Please remove ${files.length - MAX_MENU_PAGES} of the selected images.`);
+    }
 
-    if (!response.ok) {
+    const encode = async (maxDimension: number) => {
         try {
-            const errorBody = await response.json();
-            throw new Error(errorBody.error || `Request failed with status ${response.status}`);
-        } catch {
-            throw new Error(`Request failed with status ${response.status}`);
+            const processed = await Promise.all(files.map(file => processImageForUpload(file, maxDimension)));
+            return processed.map(image => ({ data: image.base64, mimeType: image.mimeType }));
+        } catch (err) {
+            console.error("Client-side image processing failed:", err);
+            throw new Error("One of the selected images could not be processed. It may be corrupted or in an unsupported format. Please try a different image.");
         }
+    };
+
+    let payloads = await encode(800);
+    if (batchSize(payloads) > MAX_IMAGE_BATCH_BYTES) {
+        payloads = await encode(600);
+    }
+    if (batchSize(payloads) > MAX_IMAGE_BATCH_BYTES) {
+        throw new Error(`These ${files.length} pages are too large to send together. Please remove a page and try again.`);
     }
-    return response.json();
+    return payloads;
+}
+
+export const isPdfFile = (file: File): boolean =>
+    file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+/**
+ * Reads a PDF menu as base64 without decoding it; the server extracts its text.
+ * @param {File} file The PDF selected by the user.
+ * @returns {Promise<{data: string, fileName: string}>}
+ */
+const readPdfForUpload = (file: File): Promise<{ data: string, fileName: string }> => {
+    if (file.size > MAX_PDF_BYTES) {
+        return Promise.reject(new Error(`This PDF is too large. Menus up to ${Math.round(MAX_PDF_BYTES / (1024 * 1024))} MB are supported.`));
+    }
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onerror = () => reject(new Error("Failed to read file."));
+        reader.onload = (readerEvent) => {
+            const result = readerEvent.target?.result;
+            if (typeof result !== 'string') {
+                return reject(new Error("Failed to read file."));
+            }
+            resolve({ data: result.split(',')[1], fileName: file.name });
+        };
+    });
+};
+
+/**
+ * Builds the `analyze` request data, encoding uploaded pages or the PDF.
+ */
+async function buildAnalyzeData(
+    allergies: string,
+    allergySeverities: AllergySeverities,
+    outputLanguage: string,
+    dietProfile: DietProfile,
+    menuText: string,
+    menuFiles: File[],
+    menuUrl: string
+): Promise<AnalyzeRequestData> {
+    const pdfFile = menuFiles.find(isPdfFile);
+    if (pdfFile && menuFiles.length > 1) {
+        throw new Error("A PDF menu must be uploaded on its own. Please remove the other files.");
+    }
+
+    const pdfPayload = pdfFile ? await readPdfForUpload(pdfFile) : undefined;
+    const imagePayloads = !pdfFile && menuFiles.length > 0 ? await processMenuPages(menuFiles) : [];
+
+    return { allergies, allergySeverities, outputLanguage, dietProfile, menuText, imagePayloads, pdfPayload, menuUrl };
 }
 
 /**
  * Analyzes a menu by sending the data to our secure backend function.
+ * Multi-page menus are sent as one request so items spanning pages are merged;
+ * a PDF menu is sent as-is and read on the server.
  */
 export async function analyzeMenu(
     allergies: string,
-    preferences: string,
+    allergySeverities: AllergySeverities,
+    outputLanguage: string,
+    dietProfile: DietProfile,
     menuText: string,
-    menuImage: File | null,
-    menuUrl: string
-): Promise<AnalysisResult[]> {
-    let imagePayload: { data: string, mimeType: string } | null = null;
-    if (menuImage) {
-        try {
-            const processedImage = await processImageForUpload(menuImage);
-            imagePayload = { data: processedImage.base64, mimeType: processedImage.mimeType };
-        } catch (err) {
-            console.error("Client-side image processing failed:", err);
-            throw new Error("The selected image could not be processed. It may be corrupted or in an unsupported format. Please try a different image.");
-        }
+    menuFiles: File[],
+    menuUrl: string,
+    bypassCache: boolean = false
+): Promise<MenuAnalysis> {
+    const data = await buildAnalyzeData(allergies, allergySeverities, outputLanguage, dietProfile, menuText, menuFiles, menuUrl);
+    return callApi({ type: 'analyze', data: { ...data, bypassCache } });
+}
+
+export interface AnalyzeStreamHandlers {
+    onMenu?: (menu: MenuDocument, itemCount: number, securityWarnings: SecurityWarning[]) => void;
+    onResults?: (results: AnalysisResult[]) => void;
+}
+
+/**
+ * Streaming version of `analyzeMenu`. The extracted menu and each batch of
+ * classified items are passed to `handlers` as they arrive; the promise
+ * resolves with the complete analysis only once the server reports it is done.
+ * Aborting `signal` cancels the request and rejects with an `AbortError`.
+ * A menu already analyzed for this profile is served from the server's cache
+ * (marked `cached`) unless `bypassCache` is set.
+ */
+export async function analyzeMenuStream(
+    allergies: string,
+    allergySeverities: AllergySeverities,
+    outputLanguage: string,
+    dietProfile: DietProfile,
+    menuText: string,
+    menuFiles: File[],
+    menuUrl: string,
+    handlers: AnalyzeStreamHandlers,
+    signal?: AbortSignal,
+    bypassCache: boolean = false
+): Promise<MenuAnalysis> {
+    const data = await buildAnalyzeData(allergies, allergySeverities, outputLanguage, dietProfile, menuText, menuFiles, menuUrl);
+    const response = await fetchFromApi({ type: 'analyze', data: { ...data, stream: true, bypassCache } }, signal);
+    if (!response.body) {
+        throw new Error("The server sent an empty response. Please try again.");
     }
 
-    const payload = {
-        type: 'analyze',
-        data: { allergies, preferences, menuText, imagePayload, menuUrl },
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    let menu: MenuDocument | null = null;
+    let securityWarnings: SecurityWarning[] = [];
+    const results: AnalysisResult[] = [];
+
+    const handleLine = (line: string): MenuAnalysis | null => {
+        if (!line.trim()) return null;
+        const event = JSON.parse(line) as AnalyzeStreamEvent;
+        switch (event.type) {
+            case 'menu':
+                menu = event.menu;
+                securityWarnings = event.securityWarnings || [];
+                handlers.onMenu?.(event.menu, event.itemCount, securityWarnings);
+                return null;
+            case 'results':
+                results.push(...event.results);
+                handlers.onResults?.(event.results);
+                return null;
+            case 'done':
+                if (!menu) throw new Error("The analysis finished without a menu.");
+                return { menu, results, kitchenRisks: event.kitchenRisks, cached: event.cached, cachedAt: event.cachedAt, securityWarnings, analysisId: event.analysisId };
+            case 'error':
+                throw toApiRequestError(event, 200);
+            default:
+                return null;
+        }
     };
 
-    return fetchFromApi('api', payload);
+    while (true) {
+        const { value, done } = await reader.read().catch(error => {
+            if (signal?.aborted) throw error;
+            throw networkError("The connection was lost during the analysis. Please try again.");
+        });
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+            const finished = handleLine(line);
+            if (finished) return finished;
+        }
+        if (done) break;
+    }
+
+    const finished = handleLine(buffered);
+    if (finished) return finished;
+    throw networkError("The analysis stopped before it finished. Please try again.");
 }
 
 /**
@@ -105,63 +243,69 @@ export async function analyzeMenu(
 export async function summarizeSafeOptions(
     results: AnalysisResult[],
     allergies: string,
-    preferences: string
+    dietProfile: DietProfile
 ): Promise<string> {
-    const payload = {
+    const payload: ApiRequest<'summarize'> = {
         type: 'summarize',
-        data: { results, allergies, preferences },
+        data: { results, allergies, dietProfile },
     };
-    const response = await fetchFromApi('api', payload);
+    const response = await callApi(payload);
     return response.summary;
 }
 
 /**
- * Finds an alternative by calling the backend function.
+ * Finds safer items on the analyzed menu for flagged items. Long lists are
+ * sent in several calls; items nothing can replace come back in `unavailable`.
  */
-export async function findSafeAlternative(
-    allergies: string,
-    preferences: string,
-    unsafeItemName: string,
-    menuContext: { text?: string; url?: string },
-    safeItems: string[]
-): Promise<string> {
-    const payload = {
-        type: 'alternative',
-        data: { allergies, preferences, unsafeItemName, menuContext, safeItems },
+export async function findSafeAlternatives(
+    analysisId: string,
+    itemNames: string[]
+): Promise<ApiResponse<'alternative'>> {
+    const combined: ApiResponse<'alternative'> = { alternatives: [], unavailable: [] };
+    for (let start = 0; start < itemNames.length; start += MAX_ALTERNATIVE_ITEMS) {
+        const payload: ApiRequest<'alternative'> = {
+            type: 'alternative',
+            data: { analysisId, itemNames: itemNames.slice(start, start + MAX_ALTERNATIVE_ITEMS) },
+        };
+        const response = await callApi(payload);
+        combined.alternatives.push(...response.alternatives);
+        combined.unavailable.push(...response.unavailable);
+    }
+    return combined;
+}
+
+/**
+ * Writes questions to ask the staff about the caution items of an analysis,
+ * and a few about the kitchen as a whole.
+ */
+export async function generateStaffQuestions(analysisId: string): Promise<StaffQuestion[]> {
+    const payload: ApiRequest<'questions'> = {
+        type: 'questions',
+        data: { analysisId },
     };
-    const response = await fetchFromApi('api', payload);
-    return response.alternative;
+    const response = await callApi(payload);
+    return response.questions;
 }
 
 /**
- * Continues a chat conversation by calling the backend function.
+ * Sends one chat message about an analysis and returns the reply. The server
+ * keeps the analysis and the conversation so far, so only the new message is sent.
  */
-export async function continueChat(history: ChatMessage[], message: string): Promise<string> {
-    const payload = {
+// `historyEntryId` lets the server rebuild a signed-in user's session after it expired.
+export async function continueChat(analysisId: string, message: string, historyEntryId?: number): Promise<ChatMessage> {
+    const payload: ApiRequest<'chat'> = {
         type: 'chat',
-        data: { history, message },
+        data: { analysisId, message, ...(historyEntryId !== undefined && { historyEntryId }) },
     };
-    const response = await fetchFromApi('api', payload);
-    return response.reply;
+    const response = await callApi(payload);
+    // Cards for the tools the assistant used are shown with the reply.
+    return { role: 'model', content: response.reply, ...(response.toolCards && { toolCards: response.toolCards }) };
 }
 
-// This function remains on the client as it's just setting up initial state.
-export function startMenuChat(
-    allergies: string,
-    preferences: string,
-    menuAnalysis: AnalysisResult[],
-): ChatMessage[] {
-    const initialAssistantMessageContent = `Of course! I've reviewed the menu based on your allergies and preferences. The analysis is displayed above. What questions do you have? For example, you could ask "Why is the House Burger marked as caution?" or "What are the best vegan options?".`;
-    
-    const initialMessage: ChatMessage = {
-        role: 'model',
-        content: initialAssistantMessageContent,
-    };
-    
-    const primingContext: ChatMessage[] = [
-      { role: 'user', content: `Here is the initial analysis of a menu I provided. My allergies are (${allergies}) and my preferences are (${preferences}). The menu analysis is: ${JSON.stringify(menuAnalysis)}`},
-      initialMessage
-    ];
+// The greeting the chat opens with. It is only shown to the user; the server
+// gives the model the analysis itself.
+export function startMenuChat(): ChatMessage[] {
+    const initialAssistantMessageContent = `Of course! I've reviewed the menu based on your allergies and diets. The analysis is displayed above. What questions do you have? For example, you could ask "Why is the House Burger marked as caution?" or "What are the best vegan options?".`;
 
-    return primingContext;
+    return [{ role: 'model', content: initialAssistantMessageContent }];
 }
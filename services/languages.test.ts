@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getLanguageName, isOutputLanguage, outputLanguageForLocale } from './languages';
+
+describe('outputLanguageForLocale', () => {
+  it('uses the language of the browser locale when it is supported', () => {
+    assert.equal(outputLanguageForLocale('es-MX'), 'es');
+    assert.equal(outputLanguageForLocale('zh_TW'), 'zh');
+  });
+
+  it('falls back to English', () => {
+    assert.equal(outputLanguageForLocale('vi-VN'), 'en');
+    assert.equal(outputLanguageForLocale(undefined), 'en');
+  });
+});
+
+describe('getLanguageName', () => {
+  it('names output languages and other menu languages', () => {
+    assert.equal(getLanguageName('ja'), 'Japanese');
+    assert.equal(getLanguageName('vi'), 'Vietnamese');
+    assert.equal(getLanguageName(undefined), 'Unknown');
+  });
+});
+
+describe('isOutputLanguage', () => {
+  it('accepts only the listed codes', () => {
+    assert.equal(isOutputLanguage('th'), true);
+    assert.equal(isOutputLanguage('vi'), false);
+    assert.equal(isOutputLanguage(7), false);
+  });
+});
@@ -0,0 +1,57 @@
+// --- Output Languages ---
+// Languages results can be written in. Menus can be in any language; item
+// names are translated into the user's output language and the original name
+// is kept next to it so it can be pointed at when ordering.
+
+export interface OutputLanguage {
+  code: string; // ISO 639-1
+  label: string; // English name, used in prompts
+  nativeLabel: string; // Shown in the language picker
+}
+
+export const OUTPUT_LANGUAGES: OutputLanguage[] = [
+  { code: 'en', label: 'English', nativeLabel: 'English' },
+  { code: 'es', label: 'Spanish', nativeLabel: 'Español' },
+  { code: 'fr', label: 'French', nativeLabel: 'Français' },
+  { code: 'de', label: 'German', nativeLabel: 'Deutsch' },
+  { code: 'it', label: 'Italian', nativeLabel: 'Italiano' },
+  { code: 'pt', label: 'Portuguese', nativeLabel: 'Português' },
+  { code: 'nl', label: 'Dutch', nativeLabel: 'Nederlands' },
+  { code: 'ja', label: 'Japanese', nativeLabel: '日本語' },
+  { code: 'zh', label: 'Chinese', nativeLabel: '中文' },
+  { code: 'ko', label: 'Korean', nativeLabel: '한국어' },
+  { code: 'th', label: 'Thai', nativeLabel: 'ไทย' },
+];
+
+export const DEFAULT_OUTPUT_LANGUAGE = 'en';
+
+export const isOutputLanguage = (value: unknown): value is string =>
+  typeof value === 'string' && OUTPUT_LANGUAGES.some(language => language.code === value);
+
+/**
+ * The supported output language closest to a browser locale ("es-MX" -> "es"),
+ * or English when the locale's language isn't supported.
+ */
+export function outputLanguageForLocale(locale: string | undefined): string {
+  const code = (locale || '').toLowerCase().split(/[-_]/)[0];
+  return isOutputLanguage(code) ? code : DEFAULT_OUTPUT_LANGUAGE;
+}
+
+/**
+ * English name of a language code, for prompts and the "menu language" label.
+ * Falls back to the runtime's language names for menu languages outside the
+ * output list (e.g. "vi"), and to the code itself.
+ */
+export function getLanguageName(code: string | undefined): string {
+  if (!code) return 'Unknown';
+  const known = OUTPUT_LANGUAGES.find(language => language.code === code);
+  if (known) return known.label;
+  try {
+    if (typeof Intl.DisplayNames === 'function') {
+      return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code.toUpperCase();
+    }
+  } catch {
+    // Invalid code or no Intl.DisplayNames support.
+  }
+  return code.toUpperCase();
+}
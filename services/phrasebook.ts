@@ -0,0 +1,253 @@
+// --- Chef Card Phrasebook ---
+// Fixed phrases and allergen names for the chef card, in every output
+// language. They are bundled with the app rather than translated by the
+// model, so a card can be made offline and always says the same thing.
+
+import { AllergySeverity } from '../types';
+import { AllergenCode } from './allergens';
+import { DEFAULT_OUTPUT_LANGUAGE } from './languages';
+
+export interface ChefCardPhrases {
+  title: string;
+  intro: string;
+  severityNotes: Record<AllergySeverity, string>;
+  crossContact: string;
+  // Used instead of `crossContact` when any allergy is anaphylactic.
+  strictCrossContact: string;
+  closing: string;
+  allergens: Record<AllergenCode, string>;
+}
+
+export const ALLERGEN_PICTOGRAMS: Record<AllergenCode, string> = {
+  gluten: '🍞',
+  wheat: '🌾',
+  crustacean: '🦐',
+  mollusc: '🦑',
+  egg: '🥚',
+  fish: '🐟',
+  peanut: '🥜',
+  tree_nut: '🌰',
+  soy: '🫘',
+  milk: '🥛',
+  sesame: '🥯',
+  celery: '🥬',
+  mustard: '🌭',
+  lupin: '🌼',
+  sulphites: '🍷',
+  corn: '🌽',
+  buckwheat: '🍜',
+  kiwi: '🥝',
+};
+
+// For terms the taxonomy does not know.
+export const CUSTOM_ALLERGEN_PICTOGRAM = '⚠️';
+
+export const PHRASEBOOK: Record<string, ChefCardPhrases> = {
+  en: {
+    title: 'Food allergy card',
+    intro: 'I have food allergies. Please make sure my meal contains none of the following, including in sauces, stocks and garnishes:',
+    severityNotes: {
+      intolerance: 'Intolerance: avoid as a main ingredient',
+      allergy: 'Allergy: not as an ingredient, and avoid traces where possible',
+      anaphylactic: 'Severe allergy: even a trace can be life-threatening',
+    },
+    crossContact: 'Please prepare my meal with clean utensils and on a clean surface.',
+    strictCrossContact: 'Please use clean utensils, pans and surfaces, and do not fry my food in shared oil.',
+    closing: 'If you are not sure, please tell me. Thank you!',
+    allergens: {
+      gluten: 'Gluten', wheat: 'Wheat', crustacean: 'Crustaceans (shrimp, crab, lobster)', mollusc: 'Molluscs (clams, mussels, squid)',
+      egg: 'Egg', fish: 'Fish', peanut: 'Peanuts', tree_nut: 'Tree nuts', soy: 'Soy', milk: 'Milk',
+      sesame: 'Sesame', celery: 'Celery', mustard: 'Mustard', lupin: 'Lupin', sulphites: 'Sulphites',
+      corn: 'Corn', buckwheat: 'Buckwheat', kiwi: 'Kiwi',
+    },
+  },
+  es: {
+    title: 'Tarjeta de alergias alimentarias',
+    intro: 'Tengo alergias alimentarias. Por favor, asegúrese de que mi comida no contenga ninguno de los siguientes ingredientes, tampoco en salsas, caldos o guarniciones:',
+    severityNotes: {
+      intolerance: 'Intolerancia: evitar como ingrediente principal',
+      allergy: 'Alergia: no como ingrediente, y evitar trazas en lo posible',
+      anaphylactic: 'Alergia grave: incluso una traza puede poner en peligro mi vida',
+    },
+    crossContact: 'Por favor, prepare mi comida con utensilios limpios y sobre una superficie limpia.',
+    strictCrossContact: 'Por favor, use utensilios, sartenes y superficies limpios, y no fría mi comida en aceite compartido.',
+    closing: 'Si no está seguro, por favor dígamelo. ¡Gracias!',
+    allergens: {
+      gluten: 'Gluten', wheat: 'Trigo', crustacean: 'Crustáceos (gambas, cangrejo, langosta)', mollusc: 'Moluscos (almejas, mejillones, calamar)',
+      egg: 'Huevo', fish: 'Pescado', peanut: 'Cacahuetes (maní)', tree_nut: 'Frutos secos', soy: 'Soja', milk: 'Leche',
+      sesame: 'Sésamo', celery: 'Apio', mustard: 'Mostaza', lupin: 'Altramuces', sulphites: 'Sulfitos',
+      corn: 'Maíz', buckwheat: 'Trigo sarraceno', kiwi: 'Kiwi',
+    },
+  },
+  fr: {
+    title: "Carte d'allergies alimentaires",
+    intro: "J'ai des allergies alimentaires. Veuillez vous assurer que mon plat ne contient aucun des ingrédients suivants, y compris dans les sauces, bouillons et garnitures :",
+    severityNotes: {
+      intolerance: 'Intolérance : à éviter comme ingrédient principal',
+      allergy: 'Allergie : pas comme ingrédient, et éviter les traces si possible',
+      anaphylactic: 'Allergie grave : même une trace peut mettre ma vie en danger',
+    },
+    crossContact: 'Merci de préparer mon plat avec des ustensiles propres, sur une surface propre.',
+    strictCrossContact: "Merci d'utiliser des ustensiles, poêles et surfaces propres, et de ne pas frire mon plat dans une huile partagée.",
+    closing: 'En cas de doute, merci de me le dire. Merci beaucoup !',
+    allergens: {
+      gluten: 'Gluten', wheat: 'Blé', crustacean: 'Crustacés (crevettes, crabe, homard)', mollusc: 'Mollusques (palourdes, moules, calmar)',
+      egg: 'Œuf', fish: 'Poisson', peanut: 'Arachides (cacahuètes)', tree_nut: 'Fruits à coque', soy: 'Soja', milk: 'Lait',
+      sesame: 'Sésame', celery: 'Céleri', mustard: 'Moutarde', lupin: 'Lupin', sulphites: 'Sulfites',
+      corn: 'Maïs', buckwheat: 'Sarrasin', kiwi: 'Kiwi',
+    },
+  },
+  de: {
+    title: 'Allergiekarte',
+    intro: 'Ich habe Lebensmittelallergien. Bitte achten Sie darauf, dass mein Essen keine der folgenden Zutaten enthält, auch nicht in Soßen, Brühen oder Beilagen:',
+    severityNotes: {
+      intolerance: 'Unverträglichkeit: nicht als Hauptzutat',
+      allergy: 'Allergie: nicht als Zutat, Spuren möglichst vermeiden',
+      anaphylactic: 'Schwere Allergie: schon Spuren können lebensgefährlich sein',
+    },
+    crossContact: 'Bitte bereiten Sie mein Essen mit sauberen Utensilien auf einer sauberen Fläche zu.',
+    strictCrossContact: 'Bitte verwenden Sie saubere Utensilien, Pfannen und Flächen und frittieren Sie mein Essen nicht in gemeinsam genutztem Öl.',
+    closing: 'Wenn Sie unsicher sind, sagen Sie es mir bitte. Vielen Dank!',
+    allergens: {
+      gluten: 'Gluten', wheat: 'Weizen', crustacean: 'Krebstiere (Garnelen, Krabben, Hummer)', mollusc: 'Weichtiere (Muscheln, Tintenfisch)',
+      egg: 'Ei', fish: 'Fisch', peanut: 'Erdnüsse', tree_nut: 'Schalenfrüchte (Nüsse)', soy: 'Soja', milk: 'Milch',
+      sesame: 'Sesam', celery: 'Sellerie', mustard: 'Senf', lupin: 'Lupinen', sulphites: 'Sulfite',
+      corn: 'Mais', buckwheat: 'Buchweizen', kiwi: 'Kiwi',
+    },
+  },
+  it: {
+    title: 'Scheda allergie alimentari',
+    intro: 'Ho delle allergie alimentari. Vi prego di assicurarvi che il mio piatto non contenga nessuno dei seguenti ingredienti, nemmeno in salse, brodi o guarnizioni:',
+    severityNotes: {
+      intolerance: 'Intolleranza: evitare come ingrediente principale',
+      allergy: 'Allergia: non come ingrediente, ed evitare tracce se possibile',
+      anaphylactic: 'Allergia grave: anche una traccia può essere letale',
+    },
+    crossContact: 'Vi prego di preparare il mio piatto con utensili puliti e su una superficie pulita.',
+    strictCrossContact: 'Vi prego di usare utensili, padelle e superfici puliti e di non friggere il mio cibo in olio usato per altri piatti.',
+    closing: 'Se non siete sicuri, ditemelo per favore. Grazie!',
+    allergens: {
+      gluten: 'Glutine', wheat: 'Frumento', crustacean: 'Crostacei (gamberi, granchio, aragosta)', mollusc: 'Molluschi (vongole, cozze, calamari)',
+      egg: 'Uova', fish: 'Pesce', peanut: 'Arachidi', tree_nut: 'Frutta a guscio', soy: 'Soia', milk: 'Latte',
+      sesame: 'Sesamo', celery: 'Sedano', mustard: 'Senape', lupin: 'Lupini', sulphites: 'Solfiti',
+      corn: 'Mais', buckwheat: 'Grano saraceno', kiwi: 'Kiwi',
+    },
+  },
+  pt: {
+    title: 'Cartão de alergias alimentares',
+    intro: 'Tenho alergias alimentares. Por favor, certifique-se de que a minha refeição não contém nenhum dos seguintes ingredientes, incluindo em molhos, caldos e guarnições:',
+    severityNotes: {
+      intolerance: 'Intolerância: evitar como ingrediente principal',
+      allergy: 'Alergia: não como ingrediente, e evitar vestígios sempre que possível',
+      anaphylactic: 'Alergia grave: mesmo um vestígio pode ser fatal',
+    },
+    crossContact: 'Por favor, prepare a minha refeição com utensílios limpos e numa superfície limpa.',
+    strictCrossContact: 'Por favor, use utensílios, frigideiras e superfícies limpos e não frite a minha comida em óleo partilhado.',
+    closing: 'Se não tiver a certeza, por favor diga-me. Obrigado!',
+    allergens: {
+      gluten: 'Glúten', wheat: 'Trigo', crustacean: 'Crustáceos (camarão, caranguejo, lagosta)', mollusc: 'Moluscos (amêijoas, mexilhões, lulas)',
+      egg: 'Ovo', fish: 'Peixe', peanut: 'Amendoim', tree_nut: 'Frutos de casca rija', soy: 'Soja', milk: 'Leite',
+      sesame: 'Sésamo', celery: 'Aipo', mustard: 'Mostarda', lupin: 'Tremoço', sulphites: 'Sulfitos',
+      corn: 'Milho', buckwheat: 'Trigo-sarraceno', kiwi: 'Kiwi',
+    },
+  },
+  nl: {
+    title: 'Voedselallergiekaart',
+    intro: 'Ik heb voedselallergieën. Zorg er alstublieft voor dat mijn maaltijd niets van het volgende bevat, ook niet in sauzen, bouillons of garnering:',
+    severityNotes: {
+      intolerance: 'Intolerantie: niet als hoofdingrediënt',
+      allergy: 'Allergie: niet als ingrediënt, en sporen zo veel mogelijk vermijden',
+      anaphylactic: 'Ernstige allergie: zelfs een spoor kan levensgevaarlijk zijn',
+    },
+    crossContact: 'Bereid mijn maaltijd alstublieft met schoon keukengerei op een schoon werkvlak.',
+    strictCrossContact: 'Gebruik alstublieft schoon keukengerei, schone pannen en een schoon werkvlak, en frituur mijn eten niet in gedeelde olie.',
+    closing: 'Als u het niet zeker weet, laat het me dan weten. Dank u wel!',
+    allergens: {
+      gluten: 'Gluten', wheat: 'Tarwe', crustacean: 'Schaaldieren (garnalen, krab, kreeft)', mollusc: 'Weekdieren (schelpdieren, mosselen, inktvis)',
+      egg: 'Ei', fish: 'Vis', peanut: 'Pinda\'s', tree_nut: 'Noten', soy: 'Soja', milk: 'Melk',
+      sesame: 'Sesam', celery: 'Selderij', mustard: 'Mosterd', lupin: 'Lupine', sulphites: 'Sulfiet',
+      corn: 'Maïs', buckwheat: 'Boekweit', kiwi: 'Kiwi',
+    },
+  },
+  ja: {
+    title: '食物アレルギーカード',
+    intro: '私は食物アレルギーがあります。ソース、だし、付け合わせも含め、以下の食材を一切使わないでください。',
+    severityNotes: {
+      intolerance: '不耐症：主な材料としては使わないでください',
+      allergy: 'アレルギー：材料として使わず、微量の混入もできるだけ避けてください',
+      anaphylactic: '重度のアレルギー：ごく微量でも命に関わります',
+    },
+    crossContact: '清潔な調理器具と調理台で調理してください。',
+    strictCrossContact: '清潔な調理器具・鍋・調理台を使い、他の料理と共用の油で揚げないでください。',
+    closing: '分からない場合は教えてください。よろしくお願いします。',
+    allergens: {
+      gluten: 'グルテン', wheat: '小麦', crustacean: '甲殻類（えび・かに）', mollusc: '軟体動物（貝・いか・たこ）',
+      egg: '卵', fish: '魚', peanut: '落花生（ピーナッツ）', tree_nut: 'ナッツ類', soy: '大豆', milk: '乳',
+      sesame: 'ごま', celery: 'セロリ', mustard: 'マスタード', lupin: 'ルピナス', sulphites: '亜硫酸塩',
+      corn: 'とうもろこし', buckwheat: 'そば', kiwi: 'キウイ',
+    },
+  },
+  zh: {
+    title: '食物过敏卡',
+    intro: '我有食物过敏。请确保我的餐点不含以下任何成分，包括酱汁、高汤和配菜：',
+    severityNotes: {
+      intolerance: '不耐受：请勿作为主要食材',
+      allergy: '过敏：不得作为成分，并尽量避免微量残留',
+      anaphylactic: '严重过敏：即使微量也可能危及生命',
+    },
+    crossContact: '请使用干净的厨具，并在干净的台面上制作我的餐点。',
+    strictCrossContact: '请使用干净的厨具、锅和台面，不要用与其他食物共用的油煎炸我的食物。',
+    closing: '如果不确定，请告诉我。谢谢！',
+    allergens: {
+      gluten: '麸质', wheat: '小麦', crustacean: '甲壳类（虾、蟹、龙虾）', mollusc: '软体动物（贝类、青口、鱿鱼）',
+      egg: '鸡蛋', fish: '鱼', peanut: '花生', tree_nut: '坚果', soy: '大豆', milk: '牛奶',
+      sesame: '芝麻', celery: '芹菜', mustard: '芥末（芥菜籽）', lupin: '羽扇豆', sulphites: '亚硫酸盐',
+      corn: '玉米', buckwheat: '荞麦', kiwi: '猕猴桃',
+    },
+  },
+  ko: {
+    title: '식품 알레르기 카드',
+    intro: '저는 식품 알레르기가 있습니다. 소스, 육수, 고명을 포함하여 제 음식에 다음 재료가 전혀 들어가지 않도록 해 주세요:',
+    severityNotes: {
+      intolerance: '불내증: 주재료로 사용하지 마세요',
+      allergy: '알레르기: 재료로 사용하지 말고, 미량 혼입도 가능한 한 피해 주세요',
+      anaphylactic: '중증 알레르기: 극소량이라도 생명이 위험할 수 있습니다',
+    },
+    crossContact: '깨끗한 조리 도구와 조리대에서 조리해 주세요.',
+    strictCrossContact: '깨끗한 조리 도구, 팬, 조리대를 사용하고, 다른 음식과 같은 기름에 튀기지 말아 주세요.',
+    closing: '확실하지 않으면 말씀해 주세요. 감사합니다!',
+    allergens: {
+      gluten: '글루텐', wheat: '밀', crustacean: '갑각류(새우, 게, 랍스터)', mollusc: '연체동물(조개, 홍합, 오징어)',
+      egg: '달걀', fish: '생선', peanut: '땅콩', tree_nut: '견과류', soy: '대두', milk: '우유',
+      sesame: '참깨', celery: '셀러리', mustard: '머스터드', lupin: '루핀', sulphites: '아황산염',
+      corn: '옥수수', buckwheat: '메밀', kiwi: '키위',
+    },
+  },
+  th: {
+    title: 'บัตรแจ้งอาการแพ้อาหาร',
+    intro: 'ฉันแพ้อาหาร กรุณาตรวจสอบว่าอาหารของฉันไม่มีส่วนผสมต่อไปนี้ รวมถึงในซอส น้ำซุป และเครื่องเคียง:',
+    severityNotes: {
+      intolerance: 'ไม่ทนต่ออาหาร: ห้ามใช้เป็นส่วนผสมหลัก',
+      allergy: 'แพ้: ห้ามใช้เป็นส่วนผสม และหลีกเลี่ยงการปนเปื้อนเท่าที่ทำได้',
+      anaphylactic: 'แพ้รุนแรง: แม้เพียงเล็กน้อยก็อาจเป็นอันตรายถึงชีวิต',
+    },
+    crossContact: 'กรุณาใช้อุปกรณ์และพื้นที่ที่สะอาดในการเตรียมอาหารของฉัน',
+    strictCrossContact: 'กรุณาใช้อุปกรณ์ กระทะ และพื้นที่ที่สะอาด และอย่าทอดอาหารของฉันในน้ำมันที่ใช้ร่วมกับอาหารอื่น',
+    closing: 'หากไม่แน่ใจ กรุณาบอกฉัน ขอบคุณ!',
+    allergens: {
+      gluten: 'กลูเตน', wheat: 'ข้าวสาลี', crustacean: 'สัตว์น้ำเปลือกแข็ง (กุ้ง ปู กุ้งมังกร)', mollusc: 'หอยและปลาหมึก',
+      egg: 'ไข่', fish: 'ปลา', peanut: 'ถั่วลิสง', tree_nut: 'ถั่วเปลือกแข็ง', soy: 'ถั่วเหลือง', milk: 'นม',
+      sesame: 'งา', celery: 'ขึ้นฉ่าย', mustard: 'มัสตาร์ด', lupin: 'ถั่วลูพิน', sulphites: 'ซัลไฟต์',
+      corn: 'ข้าวโพด', buckwheat: 'บักวีต', kiwi: 'กีวี',
+    },
+  },
+};
+
+export const CHEF_CARD_LANGUAGES = Object.keys(PHRASEBOOK);
+
+export const hasPhrasebook = (language: string | undefined): language is string =>
+  !!language && Object.prototype.hasOwnProperty.call(PHRASEBOOK, language);
+
+/** The phrases for `language`, or English when the phrasebook does not cover it. */
+export const getPhrases = (language: string | undefined): ChefCardPhrases =>
+  PHRASEBOOK[hasPhrasebook(language) ? language : DEFAULT_OUTPUT_LANGUAGE];
@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isAnalysisResultArray } from './utils';
+
+const versionOne = { itemName: 'Pad Thai', safetyLevel: 'caution', reasoning: 'Often made with peanuts.', identifiedAllergens: ['peanut'] };
+
+describe('isAnalysisResultArray', () => {
+  it('accepts history rows saved before confidence and evidence existed', () => {
+    assert.equal(isAnalysisResultArray([versionOne]), true);
+  });
+
+  it('accepts confidence, verbatim evidence and allergen provenance', () => {
+    const result = {
+      ...versionOne,
+      confidence: 0.4,
+      evidence: 'Pad Thai - rice noodles, tamarind',
+      allergenEvidence: [{ allergen: 'peanut', basis: 'inferred' }],
+    };
+    assert.equal(isAnalysisResultArray([result]), true);
+  });
+
+  it('rejects confidence outside 0..1 and unknown provenance', () => {
+    assert.equal(isAnalysisResultArray([{ ...versionOne, confidence: 1.5 }]), false);
+    assert.equal(isAnalysisResultArray([{ ...versionOne, confidence: 'high' }]), false);
+    assert.equal(isAnalysisResultArray([{ ...versionOne, allergenEvidence: [{ allergen: 'peanut', basis: 'guessed' }] }]), false);
+  });
+});
@@ -1,30 +1,56 @@
-import { AnalysisResult, SafetyLevel } from '../types';
+import { AnalysisResult, MenuDocument } from '../types';
+import { isObject, isValidAnalysisResult } from './validation';
+
+// Bumped whenever fields are added to AnalysisResult; stored on each history row.
+// 1: itemName, safetyLevel, reasoning, identifiedAllergens
+// 2: adds confidence, evidence and allergenEvidence
+// 3: adds crossContact
+// 4: adds originalItemName (itemName is translated into the user's output language)
+// 5: adds dietConflicts
+export const ANALYSIS_RESULT_VERSION = 5;
 
 /**
  * A type guard that performs runtime validation to check if 'data'
  * is an array of objects that conform to the AnalysisResult interface.
  * This is crucial for safely handling data from a JSONB column.
+ * Fields added after version 1 are optional so older history rows still pass,
+ * but they are type-checked when present. The per-item rules live in
+ * services/validation.ts, which the server uses for model output too.
  *
  * @param data The unknown data to check, likely from a Supabase JSONB column.
  * @returns True if the data is a valid AnalysisResult[], false otherwise.
  */
 export function isAnalysisResultArray(data: unknown): data is AnalysisResult[] {
-  if (!Array.isArray(data)) {
-    return false;
-  }
+  return Array.isArray(data) && data.every(isValidAnalysisResult);
+}
+
+
+const isMenuItem = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.dietaryBadges);
 
-  // Check if every item in the array is a valid AnalysisResult object.
-  return data.every(item =>
-    typeof item === 'object' &&
-    item !== null &&
-    'itemName' in item &&
-    typeof item.itemName === 'string' &&
-    'safetyLevel' in item &&
-    Object.values(SafetyLevel).includes(item.safetyLevel as SafetyLevel) &&
-    'reasoning' in item &&
-    typeof item.reasoning === 'string' &&
-    'identifiedAllergens' in item &&
-    Array.isArray(item.identifiedAllergens) &&
-    item.identifiedAllergens.every((allergen: unknown) => typeof allergen === 'string')
+const isMenuSection = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.items) &&
+  value.items.every(isMenuItem);
+
+/**
+ * Runtime check for a MenuDocument stored in the `menu_document` JSONB column.
+ * Rows saved before menus were extracted have no document and fail this check.
+ *
+ * @param data The unknown data to check.
+ * @returns True if the data is a valid MenuDocument, false otherwise.
+ */
+export function isMenuDocument(data: unknown): data is MenuDocument {
+  if (!isObject(data)) return false;
+  return (
+    (data.restaurantName === undefined || typeof data.restaurantName === 'string') &&
+    (data.language === undefined || typeof data.language === 'string') &&
+    Array.isArray(data.notes) &&
+    data.notes.every((note: unknown) => typeof note === 'string') &&
+    Array.isArray(data.sections) &&
+    data.sections.every(isMenuSection)
   );
 }
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { repairAnalysisResult, validateAnalysisResults } from './validation';
+
+const item = { itemName: 'Pad Thai', safetyLevel: 'caution', reasoning: 'Often made with peanuts.', identifiedAllergens: ['peanut'] };
+
+describe('repairAnalysisResult', () => {
+  it('passes a well-formed result through untouched', () => {
+    assert.deepEqual(repairAnalysisResult(item), { result: item, issues: [] });
+  });
+
+  it('repairs fields that can be repaired and lists every fix', () => {
+    const { result, issues } = repairAnalysisResult({
+      ...item,
+      safetyLevel: 'Caution',
+      reasoning: ' ',
+      confidence: '1.7',
+      identifiedAllergens: ['peanut', 3],
+      crossContact: [{ source: 'deep_fryer', allergens: ['fish'], likelihood: 'certain', note: 'Shared fryer.' }],
+    });
+    assert.equal(result?.safetyLevel, 'caution');
+    assert.equal(result?.confidence, 1);
+    assert.deepEqual(result?.identifiedAllergens, ['peanut']);
+    assert.deepEqual(result?.crossContact, [{ source: 'other', allergens: ['fish'], likelihood: 'medium', note: 'Shared fryer.' }]);
+    assert.match(result?.reasoning ?? '', /confirm with staff/i);
+    assert.deepEqual(issues.map(issue => issue.path), [
+      'result.safetyLevel',
+      'result.reasoning',
+      'result.confidence',
+      'result.identifiedAllergens',
+      'result.crossContact[0].source',
+      'result.crossContact[0].likelihood',
+    ]);
+  });
+
+  it('drops optional fields of the wrong type', () => {
+    const { result } = repairAnalysisResult({ ...item, evidence: 42, allergenEvidence: 'peanut', confidence: 'high' });
+    assert.deepEqual(result, item);
+  });
+
+  it('drops items without a name or a known verdict', () => {
+    assert.equal(repairAnalysisResult({ ...item, itemName: '' }).result, null);
+    assert.equal(repairAnalysisResult({ ...item, safetyLevel: 'probably fine' }).result, null);
+    assert.equal(repairAnalysisResult('Pad Thai').result, null);
+  });
+});
+
+describe('validateAnalysisResults', () => {
+  it('keeps the usable items and counts the dropped ones', () => {
+    const { results, issues, dropped } = validateAnalysisResults([item, { itemName: 'Soup' }]);
+    assert.deepEqual(results, [item]);
+    assert.equal(dropped, 1);
+    assert.equal(issues[0].path, 'results[1].safetyLevel');
+  });
+
+  it('rejects anything but a list', () => {
+    assert.deepEqual(validateAnalysisResults({ results: [item] }).results, []);
+  });
+});
@@ -0,0 +1,281 @@
+import {
+  AllergenEvidence,
+  AnalysisInputType,
+  AnalysisResult,
+  CrossContactLikelihood,
+  CrossContactRisk,
+  CrossContactSource,
+  DietConflict,
+  IntegrityIssue,
+  IntegrityOverride,
+  RuleMatch,
+  RuleOverride,
+  SafetyLevel,
+} from '../types';
+import { isDietRegime } from './diets';
+
+// --- Analysis Result Validation ---
+// The one definition of a valid AnalysisResult, shared by the Netlify
+// functions (checking fresh model output) and the client (checking rows read
+// back from analysis_history). Malformed optional fields are repaired or
+// dropped; an item without a usable name or verdict is dropped entirely.
+
+export interface ValidationIssue {
+  path: string; // e.g. "results[3].safetyLevel"
+  message: string;
+}
+
+export const CROSS_CONTACT_SOURCES: CrossContactSource[] = [
+  'shared_fryer',
+  'shared_grill',
+  'shared_surface',
+  'shared_utensils',
+  'airborne_flour',
+  'facility',
+  'other',
+];
+
+const LIKELIHOODS: CrossContactLikelihood[] = ['low', 'medium', 'high'];
+const SAFETY_LEVELS = Object.values(SafetyLevel) as string[];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSafetyLevel = (value: unknown): value is SafetyLevel =>
+  typeof value === 'string' && SAFETY_LEVELS.includes(value);
+
+const isCrossContactSource = (value: unknown): value is CrossContactSource =>
+  typeof value === 'string' && (CROSS_CONTACT_SOURCES as string[]).includes(value);
+
+const isLikelihood = (value: unknown): value is CrossContactLikelihood =>
+  typeof value === 'string' && (LIKELIHOODS as string[]).includes(value);
+
+const isRuleMatch = (value: unknown): value is RuleMatch =>
+  isObject(value) &&
+  typeof value.allergen === 'string' &&
+  typeof value.keyword === 'string' &&
+  (value.source === 'ingredient' || value.source === 'dish');
+
+export const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+function repairStringArray(value: unknown, path: string, issues: ValidationIssue[]): string[] {
+  if (value === undefined || value === null) {
+    issues.push({ path, message: 'missing; using an empty list' });
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'not a list; using an empty list' });
+    return [];
+  }
+  const strings = value.filter((entry): entry is string => typeof entry === 'string');
+  if (strings.length !== value.length) issues.push({ path, message: 'non-text entries removed' });
+  return strings;
+}
+
+function repairAllergenEvidence(value: unknown, path: string, issues: ValidationIssue[]): AllergenEvidence[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'not a list; removed' });
+    return undefined;
+  }
+  const entries: AllergenEvidence[] = [];
+  value.forEach((entry, index) => {
+    const allergen = isObject(entry) ? nonEmptyString(entry.allergen) : undefined;
+    if (!isObject(entry) || !allergen) {
+      issues.push({ path: `${path}[${index}]`, message: 'missing allergen; entry removed' });
+      return;
+    }
+    if (entry.basis !== 'stated' && entry.basis !== 'inferred') {
+      issues.push({ path: `${path}[${index}].basis`, message: `"${entry.basis}" is not 'stated' or 'inferred'; treated as 'inferred'` });
+    }
+    entries.push({ allergen, basis: entry.basis === 'stated' ? 'stated' : 'inferred' });
+  });
+  return entries;
+}
+
+function repairCrossContact(value: unknown, path: string, issues: ValidationIssue[]): CrossContactRisk[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'not a list; removed' });
+    return undefined;
+  }
+  const entries: CrossContactRisk[] = [];
+  value.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    const note = isObject(entry) ? nonEmptyString(entry.note) : undefined;
+    if (!isObject(entry) || !note) {
+      issues.push({ path: entryPath, message: 'missing note; entry removed' });
+      return;
+    }
+    const source = isCrossContactSource(entry.source) ? entry.source : 'other';
+    if (source !== entry.source) issues.push({ path: `${entryPath}.source`, message: `unknown source "${entry.source}"; treated as 'other'` });
+    const likelihood = isLikelihood(entry.likelihood) ? entry.likelihood : 'medium';
+    if (likelihood !== entry.likelihood) issues.push({ path: `${entryPath}.likelihood`, message: `unknown likelihood "${entry.likelihood}"; treated as 'medium'` });
+    entries.push({
+      source,
+      allergens: repairStringArray(entry.allergens, `${entryPath}.allergens`, issues),
+      likelihood,
+      note,
+    });
+  });
+  return entries;
+}
+
+function repairRuleOverride(value: unknown, path: string, issues: ValidationIssue[]): RuleOverride | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !isSafetyLevel(value.originalSafetyLevel) || !Array.isArray(value.matches)) {
+    issues.push({ path, message: 'malformed; removed' });
+    return undefined;
+  }
+  const matches = value.matches.filter(isRuleMatch);
+  if (matches.length !== value.matches.length) issues.push({ path: `${path}.matches`, message: 'malformed entries removed' });
+  return { originalSafetyLevel: value.originalSafetyLevel, matches };
+}
+
+const INTEGRITY_ISSUES: IntegrityIssue[] = ['instructions_in_item', 'item_not_on_menu', 'evidence_not_on_menu'];
+
+const isIntegrityIssue = (value: unknown): value is IntegrityIssue =>
+  typeof value === 'string' && (INTEGRITY_ISSUES as string[]).includes(value);
+
+function repairIntegrityOverride(value: unknown, path: string, issues: ValidationIssue[]): IntegrityOverride | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value) || !isSafetyLevel(value.originalSafetyLevel) || !isIntegrityIssue(value.issue)) {
+    issues.push({ path, message: 'malformed; removed' });
+    return undefined;
+  }
+  return { originalSafetyLevel: value.originalSafetyLevel, issue: value.issue };
+}
+
+function repairDietConflicts(value: unknown, path: string, issues: ValidationIssue[]): DietConflict[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'not a list; removed' });
+    return undefined;
+  }
+  const entries: DietConflict[] = [];
+  value.forEach((entry, index) => {
+    const entryPath = `${path}[${index}]`;
+    if (!isObject(entry) || (entry.diet !== 'dislike' && !isDietRegime(entry.diet))) {
+      issues.push({ path: `${entryPath}.diet`, message: `"${isObject(entry) ? entry.diet : entry}" is not one of the user's diets or 'dislike'; entry removed` });
+      return;
+    }
+    const reason = nonEmptyString(entry.reason);
+    if (!reason) {
+      issues.push({ path: `${entryPath}.reason`, message: 'missing; entry removed' });
+      return;
+    }
+    const term = nonEmptyString(entry.term);
+    entries.push({ diet: entry.diet, reason, ...(term && { term }) });
+  });
+  return entries;
+}
+
+/**
+ * Checks one result and repairs what can be repaired. Returns null for items
+ * without a name or a recognizable safety level; every fix and drop is listed
+ * in `issues`.
+ */
+export function repairAnalysisResult(value: unknown, path: string = 'result'): { result: AnalysisResult | null; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(value)) {
+    return { result: null, issues: [{ path, message: 'not an object; item dropped' }] };
+  }
+
+  const itemName = nonEmptyString(value.itemName);
+  if (!itemName) {
+    return { result: null, issues: [{ path: `${path}.itemName`, message: 'missing; item dropped' }] };
+  }
+
+  const level = typeof value.safetyLevel === 'string' ? value.safetyLevel.trim().toLowerCase() : '';
+  if (!isSafetyLevel(level)) {
+    return { result: null, issues: [{ path: `${path}.safetyLevel`, message: `"${value.safetyLevel}" is not safe, caution or unsafe; item dropped` }] };
+  }
+  if (level !== value.safetyLevel) issues.push({ path: `${path}.safetyLevel`, message: 'normalized to lower case' });
+
+  let reasoning = typeof value.reasoning === 'string' ? value.reasoning : '';
+  if (!reasoning.trim()) {
+    issues.push({ path: `${path}.reasoning`, message: 'missing; placeholder used' });
+    reasoning = 'No explanation was given for this verdict. Please confirm with staff.';
+  }
+
+  let confidence: number | undefined;
+  if (value.confidence !== undefined) {
+    const numeric = typeof value.confidence === 'string' ? Number(value.confidence) : value.confidence;
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric)) {
+      issues.push({ path: `${path}.confidence`, message: 'not a number; removed' });
+    } else {
+      confidence = Math.min(1, Math.max(0, numeric));
+      if (confidence !== value.confidence) issues.push({ path: `${path}.confidence`, message: 'clamped to 0..1' });
+    }
+  }
+
+  const optionalString = (field: string): string | undefined => {
+    if (value[field] === undefined) return undefined;
+    if (typeof value[field] !== 'string') {
+      issues.push({ path: `${path}.${field}`, message: 'not text; removed' });
+      return undefined;
+    }
+    return value[field].trim() || undefined;
+  };
+
+  const identifiedAllergens = repairStringArray(value.identifiedAllergens, `${path}.identifiedAllergens`, issues);
+  const section = optionalString('section');
+  const originalItemName = optionalString('originalItemName');
+  const evidence = optionalString('evidence');
+  const allergenEvidence = repairAllergenEvidence(value.allergenEvidence, `${path}.allergenEvidence`, issues);
+  const crossContact = repairCrossContact(value.crossContact, `${path}.crossContact`, issues);
+  const ruleOverride = repairRuleOverride(value.ruleOverride, `${path}.ruleOverride`, issues);
+  const integrityOverride = repairIntegrityOverride(value.integrityOverride, `${path}.integrityOverride`, issues);
+  const dietConflicts = repairDietConflicts(value.dietConflicts, `${path}.dietConflicts`, issues);
+
+  // Optional fields are left out rather than set to undefined.
+  const result: AnalysisResult = {
+    itemName,
+    safetyLevel: level,
+    reasoning,
+    identifiedAllergens,
+    ...(section !== undefined && { section }),
+    ...(originalItemName !== undefined && { originalItemName }),
+    ...(confidence !== undefined && { confidence }),
+    ...(evidence !== undefined && { evidence }),
+    ...(allergenEvidence !== undefined && { allergenEvidence }),
+    ...(crossContact !== undefined && { crossContact }),
+    ...(ruleOverride !== undefined && { ruleOverride }),
+    ...(integrityOverride !== undefined && { integrityOverride }),
+    ...(dietConflicts !== undefined && { dietConflicts }),
+  };
+  return { result, issues };
+}
+
+/**
+ * Validates a list of results, keeping every item that could be repaired.
+ * `dropped` counts items that had to be removed.
+ */
+export function validateAnalysisResults(value: unknown, path: string = 'results'): { results: AnalysisResult[]; issues: ValidationIssue[]; dropped: number } {
+  if (!Array.isArray(value)) {
+    return { results: [], issues: [{ path, message: 'not a list' }], dropped: 0 };
+  }
+  const results: AnalysisResult[] = [];
+  const issues: ValidationIssue[] = [];
+  value.forEach((entry, index) => {
+    const repaired = repairAnalysisResult(entry, `${path}[${index}]`);
+    issues.push(...repaired.issues);
+    if (repaired.result) results.push(repaired.result);
+  });
+  return { results, issues, dropped: value.length - results.length };
+}
+
+/** True only for a result that needs no repair at all. */
+export function isValidAnalysisResult(value: unknown): value is AnalysisResult {
+  const { result, issues } = repairAnalysisResult(value);
+  return result !== null && issues.length === 0;
+}
+
+export const formatValidationIssues = (issues: ValidationIssue[]): string =>
+  issues.map(issue => `${issue.path}: ${issue.message}`).join('\n');
+
+const ANALYSIS_INPUT_TYPES: string[] = ['url', 'image', 'pdf', 'text'];
+
+export const isAnalysisInputType = (value: unknown): value is Exclude<AnalysisInputType, null> =>
+  typeof value === 'string' && ANALYSIS_INPUT_TYPES.includes(value);
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SafetyLevel } from '../types';
+import type { AnalysisResult } from '../types';
+import { createVisitChecklist, getVisitSafetyLevel, sanitizeVisitChecklist, updateChecklistEntry } from './visitChecklist';
+
+const padThai: AnalysisResult = { itemName: 'Pad Thai', safetyLevel: SafetyLevel.Caution, reasoning: 'May contain peanuts.', identifiedAllergens: ['peanut'] };
+
+const checklist = createVisitChecklist([
+  { id: 'q1', itemName: 'Pad Thai', allergens: ['peanut'], question: 'Any peanuts in the sauce?' },
+  { id: 'q2', itemName: 'Pad Thai', allergens: ['peanut'], question: 'Is it fried in peanut oil?' },
+]);
+
+describe('getVisitSafetyLevel', () => {
+  it('shows a caution item as safe only once every question was answered fine', () => {
+    const oneAnswer = updateChecklistEntry(checklist, 'q1', { answer: 'safe' });
+    assert.equal(getVisitSafetyLevel(padThai, oneAnswer), SafetyLevel.Caution);
+    assert.equal(getVisitSafetyLevel(padThai, updateChecklistEntry(oneAnswer, 'q2', { answer: 'safe' })), SafetyLevel.Safe);
+  });
+
+  it('shows a caution item as unsafe when the staff say it contains the allergen', () => {
+    assert.equal(getVisitSafetyLevel(padThai, updateChecklistEntry(checklist, 'q2', { answer: 'contains' })), SafetyLevel.Unsafe);
+  });
+
+  it('never clears an unsafe item', () => {
+    const cleared = updateChecklistEntry(updateChecklistEntry(checklist, 'q1', { answer: 'safe' }), 'q2', { answer: 'safe' });
+    assert.equal(getVisitSafetyLevel({ ...padThai, safetyLevel: SafetyLevel.Unsafe }, cleared), SafetyLevel.Unsafe);
+  });
+});
+
+describe('updateChecklistEntry', () => {
+  it('ticks a question off when an answer is recorded', () => {
+    const updated = updateChecklistEntry(checklist, 'q1', { answer: 'unsure', note: 'Chef is checking' });
+    assert.deepEqual(updated.entries[0], { ...checklist.entries[0], asked: true, answer: 'unsure', note: 'Chef is checking' });
+    assert.equal(updated.entries[1], checklist.entries[1]);
+  });
+});
+
+describe('sanitizeVisitChecklist', () => {
+  it('drops malformed and duplicate entries read from storage', () => {
+    const stored = sanitizeVisitChecklist({
+      entries: [
+        { id: 'q1', itemName: 'Pad Thai', allergens: ['peanut', 4], question: 'Any peanuts?', asked: 'yes', answer: 'maybe' },
+        { id: 'q1', question: 'Duplicate id' },
+        { id: 'q2', question: '' },
+      ],
+    });
+    assert.deepEqual(stored, {
+      entries: [{ id: 'q1', itemName: 'Pad Thai', allergens: ['peanut'], question: 'Any peanuts?', asked: false }],
+      updatedAt: new Date(0).toISOString(),
+    });
+    assert.equal(sanitizeVisitChecklist({ entries: [] }), null);
+    assert.equal(sanitizeVisitChecklist('checklist'), null);
+  });
+});
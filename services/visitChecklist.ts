@@ -0,0 +1,84 @@
+import { AnalysisResult, ChecklistEntry, SafetyLevel, StaffAnswer, StaffQuestion, VisitChecklist } from '../types';
+import { isObject, nonEmptyString } from './validation';
+
+// --- Visit Checklist ---
+// Questions for the staff about caution items, ticked off at the table with
+// what the staff answered. The answers only change what the results screen
+// shows for this visit: a caution item the staff cleared is shown as safe,
+// one they said contains the allergen as unsafe. The stored analysis and its
+// verdicts are never changed.
+
+export const STAFF_ANSWERS: StaffAnswer[] = ['safe', 'contains', 'unsure'];
+
+export const STAFF_ANSWER_LABELS: Record<StaffAnswer, string> = {
+  safe: "It's fine",
+  contains: 'Contains it',
+  unsure: 'Not sure',
+};
+
+const isStaffAnswer = (value: unknown): value is StaffAnswer =>
+  typeof value === 'string' && (STAFF_ANSWERS as string[]).includes(value);
+
+export const createVisitChecklist = (questions: StaffQuestion[]): VisitChecklist => ({
+  entries: questions.map(question => ({ ...question, asked: false })),
+  updatedAt: new Date().toISOString(),
+});
+
+// What the user can change on an entry; the question itself is fixed.
+export type ChecklistEntryChange = Partial<Pick<ChecklistEntry, 'asked' | 'answer' | 'note'>>;
+
+/** Changes one entry. Recording an answer also ticks the question off. */
+export function updateChecklistEntry(checklist: VisitChecklist, id: string, change: ChecklistEntryChange): VisitChecklist {
+  return {
+    entries: checklist.entries.map(entry => {
+      if (entry.id !== id) return entry;
+      const updated = { ...entry, ...change };
+      if (change.answer) updated.asked = true;
+      return updated;
+    }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export const entriesForItem = (checklist: VisitChecklist | null | undefined, itemName: string | null): ChecklistEntry[] =>
+  checklist?.entries.filter(entry => entry.itemName === itemName) ?? [];
+
+/**
+ * The verdict to show for an item on this visit. Only caution items move:
+ * any "contains it" answer makes the item unsafe, and it is shown as safe
+ * only once every question about it was answered "it's fine". Unsafe items
+ * stay unsafe whatever the staff say.
+ */
+export function getVisitSafetyLevel(item: AnalysisResult, checklist: VisitChecklist | null | undefined): SafetyLevel {
+  if (item.safetyLevel !== SafetyLevel.Caution) return item.safetyLevel;
+  const entries = entriesForItem(checklist, item.itemName);
+  if (entries.some(entry => entry.answer === 'contains')) return SafetyLevel.Unsafe;
+  if (entries.length > 0 && entries.every(entry => entry.answer === 'safe')) return SafetyLevel.Safe;
+  return SafetyLevel.Caution;
+}
+
+/**
+ * Reads a checklist back from `analysis_history.visit_checklist`, dropping
+ * malformed entries. Null when there is no usable checklist.
+ */
+export function sanitizeVisitChecklist(value: unknown): VisitChecklist | null {
+  if (!isObject(value) || !Array.isArray(value.entries)) return null;
+  const entries: ChecklistEntry[] = [];
+  for (const raw of value.entries) {
+    if (!isObject(raw)) continue;
+    const id = nonEmptyString(raw.id);
+    const question = nonEmptyString(raw.question);
+    if (!id || !question || entries.some(entry => entry.id === id)) continue;
+    entries.push({
+      id,
+      itemName: nonEmptyString(raw.itemName) ?? null,
+      allergens: Array.isArray(raw.allergens) ? raw.allergens.filter((allergen: unknown): allergen is string => typeof allergen === 'string') : [],
+      question,
+      asked: raw.asked === true,
+      ...(isStaffAnswer(raw.answer) && { answer: raw.answer }),
+      ...(nonEmptyString(raw.note) && { note: nonEmptyString(raw.note) }),
+    });
+  }
+  if (entries.length === 0) return null;
+  return { entries, updatedAt: nonEmptyString(value.updatedAt) ?? new Date(0).toISOString() };
+}
@@ -0,0 +1,5 @@
+-- Per-allergen severity for each profile.
+-- Keys are canonical allergen codes (see services/allergens.ts) or, for custom
+-- allergies, the lower-cased term; values are 'intolerance', 'allergy' or 'anaphylactic'.
+alter table public.profiles
+  add column if not exists allergy_severities jsonb not null default '{}'::jsonb;
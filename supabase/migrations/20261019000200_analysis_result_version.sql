@@ -0,0 +1,4 @@
+-- Version of the AnalysisResult shape stored in analysis_history.result.
+-- Rows written before versioning hold version 1 results (no confidence/evidence fields).
+alter table public.analysis_history
+  add column if not exists result_version smallint not null default 1;
@@ -0,0 +1,5 @@
+-- Structured menu (sections, items, descriptions, prices, badges) extracted
+-- before classification, so history entries can be re-analyzed without
+-- re-reading the original image or URL. Null for rows written before extraction.
+alter table public.analysis_history
+  add column if not exists menu_document jsonb;
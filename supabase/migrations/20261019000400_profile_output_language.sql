@@ -0,0 +1,4 @@
+-- Language analysis results are written in (ISO 639-1, see services/languages.ts).
+-- Menu item names are translated into it; the original name is kept in the result.
+alter table public.profiles
+  add column if not exists output_language text not null default 'en';
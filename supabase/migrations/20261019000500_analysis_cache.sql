@@ -0,0 +1,20 @@
+-- Server-side key-value store (netlify/lib/kvStore.ts), used for the analysis
+-- cache. Only the Netlify functions use it, with the service role key, so row
+-- level security is enabled with no policies: clients cannot read or write it.
+create table if not exists public.kv_store (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamp with time zone,
+  updated_at timestamp with time zone not null default now()
+);
+
+alter table public.kv_store enable row level security;
+
+create index if not exists kv_store_expires_at_idx
+  on public.kv_store (expires_at)
+  where expires_at is not null;
+
+-- Analyses served from the cache are kept in history but do not count toward
+-- the monthly analysis limit.
+alter table public.analysis_history
+  add column if not exists from_cache boolean not null default false;
@@ -0,0 +1,22 @@
+-- One row per model call made by the Netlify functions (netlify/lib/usage.ts).
+-- The monthly analysis limit counts this table instead of analysis_history, so
+-- deleting history does not reset it. Guests are recorded with a null user_id.
+create table if not exists public.usage_events (
+  id bigint generated always as identity primary key,
+  user_id uuid references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('analyze', 'summarize', 'alternative', 'chat')),
+  cached boolean not null default false, -- Served from the analysis cache; not counted
+  model text,
+  created_at timestamp with time zone not null default now()
+);
+
+create index if not exists usage_events_user_kind_created_idx
+  on public.usage_events (user_id, kind, created_at);
+
+-- Written and read only by the functions with the service role key; users can
+-- see their own events but never insert, change or delete them.
+alter table public.usage_events enable row level security;
+
+create policy "Users can read their own usage"
+  on public.usage_events for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,12 @@
+-- Questions for the staff about caution items, with the answers the user
+-- recorded at the restaurant (VisitChecklist in types.ts). Null until the
+-- user generates questions for an analysis.
+alter table public.analysis_history
+  add column if not exists visit_checklist jsonb;
+
+-- Writing the questions is a metered model call of its own.
+alter table public.usage_events
+  drop constraint if exists usage_events_kind_check;
+alter table public.usage_events
+  add constraint usage_events_kind_check
+  check (kind in ('analyze', 'summarize', 'alternative', 'questions', 'chat'));
@@ -0,0 +1,6 @@
+-- Structured diets for each profile (DietProfile in types.ts):
+-- { "regimes": ["vegan", "halal"], "dislikes": ["coriander"] }. Regimes are the
+-- codes in services/diets.ts. Null for profiles that have not saved diets yet;
+-- the client then reads diets named in the older free-text `preferences`.
+alter table public.profiles
+  add column if not exists diet_profile jsonb;
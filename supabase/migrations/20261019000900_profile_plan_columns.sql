@@ -0,0 +1,29 @@
+-- The plan columns decide the server's monthly analysis limit
+-- (netlify/lib/usage.ts), so only the server may set them. Requests made with a
+-- user's own session run as the `authenticated` (or `anon`) role: their inserts
+-- get a free plan, and their updates cannot change it. The service role, the
+-- dashboard and security definer functions are not affected.
+create or replace function public.protect_profile_plan()
+returns trigger
+language plpgsql
+as $$
+begin
+  if current_user not in ('authenticated', 'anon') then
+    return new;
+  end if;
+  if tg_op = 'INSERT' then
+    new.is_pro := false;
+    new.max_analyses_per_month := null;
+  elsif new.is_pro is distinct from old.is_pro
+     or new.max_analyses_per_month is distinct from old.max_analyses_per_month then
+    raise exception 'The plan of a profile can only be changed by the server.'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_profile_plan on public.profiles;
+create trigger protect_profile_plan
+  before insert or update on public.profiles
+  for each row execute function public.protect_profile_plan();
@@ -1,4 +1,7 @@
 const CACHE_NAME = 'menu-guard-v3'; // Increment version to force update
+// Chef cards the app generated, stored by services/chefCard.ts. Kept across
+// version updates so a card stays available offline.
+const CHEF_CARD_CACHE = 'menu-guard-chef-cards';
 // This list should include all the core files needed for the app to run.
 const URLS_TO_CACHE = [
     '/',
@@ -50,6 +53,15 @@ self.addEventListener('fetch', (event) => {
         return;
     }
 
+    // Chef cards only exist in their cache; there is nothing to fetch.
+    if (url.origin === self.location.origin && url.pathname.startsWith('/chef-card/')) {
+        event.respondWith(
+            caches.open(CHEF_CARD_CACHE)
+                .then((cache) => cache.match(event.request))
+                .then((response) => response || new Response('No chef card has been made in this language yet.', { status: 404 }))
+        );
+        return;
+    }
 
     event.respondWith(
         caches.match(event.request)
@@ -85,7 +97,7 @@ self.addEventListener('fetch', (event) => {
 
 // Activate event: clean up old caches
 self.addEventListener('activate', (event) => {
-    const cacheWhitelist = [CACHE_NAME];
+    const cacheWhitelist = [CACHE_NAME, CHEF_CARD_CACHE];
     event.waitUntil(
         caches.keys().then((cacheNames) => {
             return Promise.all(
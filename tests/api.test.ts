@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import handler from "../netlify/functions/api";
+import { signJwt } from "../netlify/lib/jwt";
+import { GUEST_DAILY_LIMITS } from "../netlify/lib/guestPolicy";
+import { MAX_IMAGE_BATCH_BYTES } from "../config";
+import { isAnalysisResultArray, isMenuDocument } from "../services/utils";
+import type { ApiErrorBody, ApiResponse } from "../types";
+import { useTestEnv } from "./testEnv";
+
+// Runs offline against the mock model and the in-memory store.
+const SECRET = "test-secret";
+
+const post = (type: string, data: object, options: { ip: string; token?: string }) => handler(new Request("http://localhost/api", {
+    method: "POST",
+    headers: {
+        "x-nf-client-connection-ip": options.ip,
+        ...(options.token ? { authorization: `Bearer ${options.token}` } : {}),
+    },
+    body: JSON.stringify({ type, data }),
+}));
+
+const tokenFor = (sub: string) =>
+    signJwt({ sub, exp: Math.floor(Date.now() / 1000) + 3600, aud: "authenticated" }, SECRET);
+
+const analyzeData = (menuText: string) =>
+    ({ allergies: "peanut", allergySeverities: {}, outputLanguage: "en", menuText });
+const summarizeData = { results: [], allergies: "peanut", dietProfile: { regimes: [], dislikes: [] } };
+
+describe("api authentication and guest policy", () => {
+    useTestEnv({ LLM_PROVIDER: "mock", KV_STORE: "memory", SUPABASE_JWT_SECRET: SECRET });
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+        mock.method(console, "error", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    it("limits guests per IP address and day", async () => {
+        for (let call = 0; call < GUEST_DAILY_LIMITS.summarize; call++) {
+            assert.equal((await post("summarize", summarizeData, { ip: "198.51.100.1" })).status, 200);
+        }
+        const limited = await post("summarize", summarizeData, { ip: "198.51.100.1" });
+        assert.equal(limited.status, 429);
+        assert.equal((await limited.json()).code, "guest_limit_reached");
+        // Another guest has their own allowance.
+        assert.equal((await post("summarize", summarizeData, { ip: "198.51.100.2" })).status, 200);
+    });
+
+    it("does not apply the guest limits to signed-in users", async () => {
+        const token = tokenFor("user-1");
+        for (let call = 0; call <= GUEST_DAILY_LIMITS.summarize; call++) {
+            assert.equal((await post("summarize", summarizeData, { ip: "198.51.100.3", token })).status, 200);
+        }
+    });
+
+    it("rejects an invalid token instead of treating the caller as a guest", async () => {
+        const response = await post("summarize", summarizeData, { ip: "198.51.100.4", token: tokenFor("user-1") + "x" });
+        assert.equal(response.status, 401);
+        assert.equal((await response.json()).code, "unauthorized");
+    });
+
+    it("serves guests cached analyses without counting them", async () => {
+        const ip = "198.51.100.5";
+        const menu = "MAINS\nPeanut Noodles - peanuts, rice noodles $12\nGreen Salad - lettuce, cucumber $8";
+        const first = await (await post("analyze", analyzeData(menu), { ip })).json();
+        assert.equal(first.cached, false);
+        const again = await post("analyze", { ...analyzeData(menu), bypassCache: true }, { ip });
+        assert.equal((await again.json()).cached, true);
+
+        for (let menuNumber = 1; menuNumber < GUEST_DAILY_LIMITS.analyze; menuNumber++) {
+            assert.equal((await post("analyze", analyzeData(`${menu}\nSoup ${menuNumber} - leek, potato $6`), { ip })).status, 200);
+        }
+        const limited = await post("analyze", analyzeData(`${menu}\nBread Roll - wheat $2`), { ip });
+        assert.equal(limited.status, 429);
+    });
+});
+
+describe("api menu photo checks", () => {
+    useTestEnv({ LLM_PROVIDER: "mock", KV_STORE: "memory" });
+    beforeEach(() => {
+        mock.method(console, "error", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    const analyzeImages = (imagePayloads: { data: string; mimeType: string }[]) =>
+        post("analyze", { allergies: "peanut", allergySeverities: {}, outputLanguage: "en", imagePayloads }, { ip: "198.51.100.20" });
+
+    it("rejects image types the providers do not read", async () => {
+        for (const mimeType of ["text/html", "image/svg+xml", "application/pdf"]) {
+            const response = await analyzeImages([{ data: "aGVsbG8=", mimeType }]);
+            assert.equal(response.status, 400, mimeType);
+            assert.equal((await response.json()).code, "validation_error");
+        }
+    });
+
+    it("rejects image data that is not base64", async () => {
+        const response = await analyzeImages([{ data: "not base64!", mimeType: "image/jpeg" }]);
+        assert.equal(response.status, 400);
+    });
+
+    it("rejects images above the size limit before calling the model", async () => {
+        const response = await analyzeImages([{ data: "A".repeat(MAX_IMAGE_BATCH_BYTES + 4), mimeType: "image/png" }]);
+        assert.equal(response.status, 413);
+    });
+});
+
+describe("api chat sessions", () => {
+    useTestEnv({ LLM_PROVIDER: "mock", KV_STORE: "memory", SUPABASE_JWT_SECRET: SECRET, SUPABASE_URL: "", SUPABASE_SERVICE_ROLE_KEY: "" });
+    beforeEach(() => {
+        mock.method(console, "warn", () => {});
+        mock.method(console, "error", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    it("answers questions about a stored analysis", async () => {
+        const ip = "198.51.100.30";
+        const menu = "MAINS\nPeanut Noodles - peanuts, rice noodles $12\nGreen Salad - lettuce, cucumber $8";
+        const { analysisId } = await (await post("analyze", analyzeData(menu), { ip })).json();
+        const response = await post("chat", { analysisId, message: "Is the salad safe?" }, { ip });
+        assert.equal(response.status, 200);
+        assert.equal(typeof (await response.json()).reply, "string");
+    });
+
+    it("reports a chat whose analysis is gone as expired", async () => {
+        const analysisId = "3f1c2a9e-8b7d-4c6e-9a5f-0d1e2f3a4b5c";
+        const guest = await post("chat", { analysisId, message: "Is the salad safe?" }, { ip: "198.51.100.31" });
+        assert.equal(guest.status, 404);
+        assert.equal((await guest.json()).code, "not_found");
+
+        // Without Supabase access the history entry cannot be read back either.
+        const token = tokenFor("user-1");
+        const signedIn = await post("chat", { analysisId, message: "Is the salad safe?", historyEntryId: 7 }, { ip: "198.51.100.31", token });
+        assert.equal(signedIn.status, 404);
+        assert.equal((await signedIn.json()).code, "not_found");
+    });
+});
+
+describe("api request contract", () => {
+    useTestEnv({ LLM_PROVIDER: "mock", KV_STORE: "memory" });
+    beforeEach(() => {
+        mock.method(console, "error", () => {});
+    });
+    afterEach(() => mock.restoreAll());
+
+    const send = (body: string, method = "POST") => handler(new Request("http://localhost/api", {
+        method,
+        headers: { "x-nf-client-connection-ip": "198.51.100.40" },
+        ...(method === "POST" && { body }),
+    }));
+
+    it("rejects bodies that are not a typed request", async () => {
+        const bodies = [
+            "not json",
+            "null",
+            JSON.stringify({ type: "analyze" }),
+            JSON.stringify({ type: "chat", data: ["hello"] }),
+            JSON.stringify({ type: "translate", data: {} }),
+        ];
+        for (const body of bodies) {
+            const response = await send(body);
+            assert.equal(response.status, 400, body);
+            const error: ApiErrorBody = await response.json();
+            assert.equal(error.code, "validation_error");
+            assert.equal(error.retryable, false);
+        }
+        assert.equal((await send("", "GET")).status, 405);
+    });
+
+    it("answers analyze with the shared MenuAnalysis shape", async () => {
+        const response = await post("analyze", analyzeData("MAINS\nPeanut Noodles - peanuts, rice noodles $12"), { ip: "198.51.100.41" });
+        const analysis: ApiResponse<"analyze"> = await response.json();
+        assert.ok(isMenuDocument(analysis.menu));
+        assert.ok(isAnalysisResultArray(analysis.results));
+        assert.equal(analysis.results[0].safetyLevel, "unsafe");
+    });
+});
@@ -0,0 +1,21 @@
+// --- Test Environment ---
+// Sets environment variables for the tests of one file and puts the previous
+// values back afterwards, so settings such as LLM_PROVIDER=mock never leak.
+
+import { after, before } from "node:test";
+
+export function useTestEnv(values: Record<string, string>): void {
+    const saved: Record<string, string | undefined> = {};
+    before(() => {
+        for (const [name, value] of Object.entries(values)) {
+            saved[name] = process.env[name];
+            process.env[name] = value;
+        }
+    });
+    after(() => {
+        for (const [name, value] of Object.entries(saved)) {
+            if (value === undefined) delete process.env[name];
+            else process.env[name] = value;
+        }
+    });
+}
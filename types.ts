@@ -15,10 +15,160 @@ export enum SafetyLevel {
 }
 
 export interface AnalysisResult {
-  itemName: string;
+  itemName: string; // In the user's output language
   safetyLevel: SafetyLevel;
   reasoning: string;
   identifiedAllergens: string[];
+  section?: string; // Name of the MenuSection the item was listed under
+  // The fields below were added later; history entries saved before them do not have them.
+  originalItemName?: string; // The name exactly as printed on the menu, before translation
+  confidence?: number; // 0 (guess) to 1 (explicitly stated on the menu)
+  evidence?: string; // Verbatim menu text the verdict is based on
+  allergenEvidence?: AllergenEvidence[];
+  crossContact?: CrossContactRisk[]; // Preparation risks, kept separate from listed ingredients
+  ruleOverride?: RuleOverride; // Set by the server when the keyword cross-check escalated the model's verdict
+  integrityOverride?: IntegrityOverride; // Set by the server when a "safe" verdict contradicted the menu's own text
+  dietConflicts?: DietConflict[]; // Set only when the profile has diets; empty when the item fits them all
+}
+
+// Whether an identified allergen is printed on the menu or assumed from the usual recipe
+export interface AllergenEvidence {
+  allergen: string;
+  basis: 'stated' | 'inferred';
+}
+
+export type CrossContactSource =
+  | 'shared_fryer'
+  | 'shared_grill'
+  | 'shared_surface'
+  | 'shared_utensils'
+  | 'airborne_flour'
+  | 'facility'
+  | 'other';
+
+export type CrossContactLikelihood = 'low' | 'medium' | 'high';
+
+// A way an allergen can reach an item without being one of its ingredients
+export interface CrossContactRisk {
+  source: CrossContactSource;
+  allergens: string[];
+  likelihood: CrossContactLikelihood;
+  note: string;
+}
+
+// A warning the menu gives about the kitchen as a whole ("our kitchen handles nuts")
+export interface KitchenRiskNote {
+  note: string;
+  allergens: string[];
+  quote?: string; // Verbatim menu text, when the menu states it
+}
+
+// --- Structured menu extracted before classification ---
+export interface MenuItem {
+  name: string;
+  description?: string;
+  price?: string; // As printed, including currency
+  dietaryBadges: string[]; // Labels printed on the menu, e.g. "V", "GF", "Contains nuts"
+}
+
+export interface MenuSection {
+  name: string;
+  items: MenuItem[];
+}
+
+export interface MenuDocument {
+  restaurantName?: string;
+  language?: string; // ISO 639-1 code of the language the menu is written in
+  sections: MenuSection[];
+  notes: string[]; // Menu-wide text such as allergen or kitchen warnings
+}
+
+// Events of the streaming `analyze` call, one JSON object per line
+export type AnalyzeStreamEvent =
+  | { type: 'menu'; menu: MenuDocument; itemCount: number; securityWarnings?: SecurityWarning[] }
+  | { type: 'results'; results: AnalysisResult[] }
+  | { type: 'done'; kitchenRisks: KitchenRiskNote[]; cached?: boolean; cachedAt?: string; analysisId?: string }
+  | { type: 'error'; error: string; code: ApiErrorCode; retryable: boolean };
+
+// Response of the `analyze` API call
+export interface MenuAnalysis {
+  menu: MenuDocument;
+  results: AnalysisResult[];
+  kitchenRisks: KitchenRiskNote[];
+  cached?: boolean; // True when served from the analysis cache without calling the model
+  cachedAt?: string; // ISO timestamp of the cached analysis
+  securityWarnings?: SecurityWarning[]; // Instruction-like text found in the menu source
+  analysisId?: string; // Server-side copy of this analysis that chat sessions refer to; missing if it could not be stored
+}
+
+// A keyword the deterministic cross-check found in the menu text for one of the user's allergens
+export interface RuleMatch {
+  allergen: string;
+  keyword: string;
+  source: 'ingredient' | 'dish';
+}
+
+export interface RuleOverride {
+  originalSafetyLevel: SafetyLevel;
+  matches: RuleMatch[];
+}
+
+// Why the server refused a "safe" verdict and lowered it to caution
+export type IntegrityIssue =
+  | 'instructions_in_item' // The item's own text contains instructions aimed at the AI
+  | 'item_not_on_menu' // No item with this name was read from the menu
+  | 'evidence_not_on_menu'; // The quoted evidence does not appear in the menu
+
+export interface IntegrityOverride {
+  originalSafetyLevel: SafetyLevel;
+  issue: IntegrityIssue;
+}
+
+// Kinds of text that try to steer the AI instead of describing food
+export type InjectionKind =
+  | 'override_instructions' // "ignore all previous instructions"
+  | 'verdict_manipulation' // "mark every dish as safe", "do not mention allergens"
+  | 'role_play' // "you are now...", "note to the AI:"
+  | 'prompt_markup' // Chat-template tokens or fake "system:" lines
+  | 'hidden_text'; // Invisible characters that can hide instructions from people
+
+// Instruction-like text found in a menu source or chat message
+export interface SecurityWarning {
+  kind: InjectionKind;
+  source: 'menu' | 'chat';
+  excerpt: string; // The suspicious text with a little context, shortened
+  itemName?: string; // The menu item whose name or description contains it
+}
+
+// How strongly a user reacts to an allergen; drives how strictly items are classified
+export type AllergySeverity = 'intolerance' | 'allergy' | 'anaphylactic';
+
+// Keyed by canonical allergen code (see services/allergens.ts) or, for custom allergies, the lower-cased term
+export type AllergySeverities = Record<string, AllergySeverity>;
+
+// Diets the user follows by choice or belief; see services/diets.ts. Unlike
+// allergies they never change an item's safety level.
+export type DietRegime =
+  | 'vegan'
+  | 'vegetarian'
+  | 'pescatarian'
+  | 'halal'
+  | 'kosher'
+  | 'low_fodmap'
+  | 'keto'
+  | 'gluten_free';
+
+// Stored in the `diet_profile` JSONB column of `profiles`
+export interface DietProfile {
+  regimes: DietRegime[];
+  dislikes: string[]; // Ingredients the user would rather not eat, as they wrote them
+}
+
+// Why an item does not fit one of the user's diets or contains something they dislike
+export interface DietConflict {
+  diet: DietRegime | 'dislike';
+  reason: string;
+  term?: string; // The ingredient behind the conflict; for 'dislike', the user's own term
 }
 
 // Aligned with the `analysis_history` table in supabase_schema.sql
@@ -35,7 +185,7 @@ export enum AnalysisType {
 }
 
 // New type to track the input source for better error messaging
-export type AnalysisInputType = 'url' | 'image' | 'text' | null;
+export type AnalysisInputType = 'url' | 'image' | 'pdf' | 'text' | null;
 
 // New type for a single history entry, aligned with the `analysis_history` table
 export interface AnalysisHistoryEntry {
@@ -46,8 +196,12 @@ export interface AnalysisHistoryEntry {
   analysis_type: AnalysisType;
   input_text: string;
   result: AnalysisResult[]; // from result JSONB
+  result_version: number; // ANALYSIS_RESULT_VERSION at the time the row was written
+  menu_document: MenuDocument | null; // Extracted menu, so re-analysis and chat need not re-read the source
+  from_cache: boolean; // Served from the analysis cache; does not count toward the monthly limit
   allergies: string;
-  preferences: string;
+  preferences: string; // The diet profile at the time, as text (see formatDietProfile)
+  visit_checklist: VisitChecklist | null; // Questions asked at the restaurant and the staff's answers
 }
 
 // ✅ Renamed from User to AppUser to avoid conflict
@@ -58,11 +212,21 @@ export interface AppUser {
   is_pro: boolean | null;
   username: string;
   allergies: string;
-  preferences?: string | null;
+  allergySeverities: AllergySeverities; // from the `allergy_severities` JSONB column
+  outputLanguage: string; // ISO 639-1 code results are written in, from `output_language`
+  dietProfile: DietProfile; // from `diet_profile`, or read from the older free-text `preferences`
   max_analyses_per_month?: number | null;
   analysisHistory: AnalysisHistoryEntry[]; // History can be joined from the `analysis_history` table.
 }
 
+// A named allergy profile (e.g. one per family member) the user can switch between
+export interface Profile {
+  id: string;
+  name: string;
+  allergies: string;
+  is_active: boolean;
+}
+
 // Type for a restaurant found via Google Places API
 export interface Restaurant {
   place_id: string;
@@ -82,6 +246,44 @@ export type ChatRole = 'user' | 'model';
 export interface ChatMessage {
   role: ChatRole;
   content: string;
+  toolCards?: ChatToolCard[]; // Results of the tools the assistant used for this reply
+}
+
+// Tools the chat assistant can call on the server
+export type ChatToolName = 'lookup_verdict' | 'reclassify_menu' | 'safest_in_section' | 'draft_staff_question';
+
+// An item whose verdict differs after re-classifying with a changed allergy list
+export interface VerdictChange {
+  itemName: string;
+  before: SafetyLevel;
+  after: SafetyLevel;
+}
+
+// A tool result as shown in the chat, next to the reply that used it
+export type ChatToolCard =
+  | { tool: 'lookup_verdict'; results: AnalysisResult[] }
+  // A what-if: the stored analysis and the profile are left unchanged
+  | { tool: 'reclassify_menu'; allergies: string; results: AnalysisResult[]; changes: VerdictChange[] }
+  | { tool: 'safest_in_section'; section: string; results: AnalysisResult[] } // Safest first
+  | { tool: 'draft_staff_question'; itemName: string; question: string };
+
+// The allergy card a user hands to restaurant staff, in one language
+export interface ChefCardEntry {
+  allergen: string; // Allergen code, or the user's own term when it is not in the taxonomy
+  pictogram: string;
+  name: string; // In the card's language; terms outside the taxonomy are kept as written
+  englishName: string; // So the user can check what the card says
+  severity: AllergySeverity;
+  severityNote: string; // What the severity means for the kitchen, in the card's language
+}
+
+export interface ChefCard {
+  language: string; // ISO 639-1
+  title: string;
+  intro: string;
+  entries: ChefCardEntry[];
+  crossContactNote: string; // Stricter when any entry is anaphylactic
+  closing: string;
 }
 
 // New type for Google Search grounding sources
@@ -89,3 +291,150 @@ export interface GroundingSource {
   uri: string;
   title: string;
 }
+
+// --- API Contracts ---
+// The `data` each request `type` sends to the `api` Netlify function, and the
+// JSON body it answers with. Both the client and the function use these, so a
+// change on one side fails the build on the other.
+
+export interface ImagePayload {
+  data: string; // base64, without the data: URL prefix
+  mimeType: string;
+}
+
+export interface AnalyzeRequestData {
+  allergies: string;
+  allergySeverities: AllergySeverities;
+  outputLanguage: string;
+  dietProfile?: DietProfile;
+  preferences?: string; // Free-text diets sent by clients older than diet profiles
+  menuText?: string;
+  menuUrl?: string;
+  imagePayloads?: ImagePayload[];
+  imagePayload?: ImagePayload; // Sent by clients older than multi-page uploads
+  pdfPayload?: { data: string; fileName: string };
+  stream?: boolean; // Answer with AnalyzeStreamEvent lines instead of one MenuAnalysis
+  bypassCache?: boolean; // Re-run the analysis even if this menu and profile are cached
+}
+
+export interface SummarizeRequestData {
+  results: AnalysisResult[];
+  allergies: string;
+  dietProfile: DietProfile;
+}
+
+// Suggestions are made from, and checked against, the stored analysis. Items
+// nothing on the menu can safely replace come back in `unavailable`.
+export interface AlternativeRequestData {
+  analysisId: string; // From MenuAnalysis.analysisId
+  itemNames: string[]; // Unsafe or caution items by AnalysisResult.itemName; several are answered in one call
+}
+
+// A safer item from the same menu for an unsafe or caution item
+export interface SaferAlternative {
+  forItem: string; // AnalysisResult.itemName of the flagged item
+  itemName: string; // AnalysisResult.itemName of the suggestion, always an item of the analyzed menu
+  safetyLevel: SafetyLevel; // The suggestion's own verdict, always safer than the flagged item's
+  reason: string;
+  modifications: string[]; // What to ask for when ordering, e.g. "dressing on the side"
+}
+
+// Questions are written for the caution items of the stored analysis.
+export interface QuestionsRequestData {
+  analysisId: string; // From MenuAnalysis.analysisId
+}
+
+// A question for the restaurant staff, from the `questions` call
+export interface StaffQuestion {
+  id: string; // Unique within one checklist
+  itemName: string | null; // AnalysisResult.itemName of a caution item; null for questions about the whole menu
+  allergens: string[]; // Allergen codes the question is about, from the item's identifiedAllergens
+  question: string;
+}
+
+// What the staff said, as the user records it: the item is fine, it does
+// contain the allergen, or the staff could not say.
+export type StaffAnswer = 'safe' | 'contains' | 'unsure';
+
+export interface ChecklistEntry extends StaffQuestion {
+  asked: boolean;
+  answer?: StaffAnswer;
+  note?: string; // The staff's answer in the user's words
+}
+
+// The questions for one visit, with the answers so far. Saved with the
+// history entry in `visit_checklist`; answers change an item's displayed
+// verdict for this visit only, never the stored analysis.
+export interface VisitChecklist {
+  entries: ChecklistEntry[];
+  updatedAt: string; // ISO timestamp
+}
+
+// The conversation itself is kept on the server, tied to the analysis.
+export interface ChatRequestData {
+  analysisId: string; // From MenuAnalysis.analysisId
+  message: string; // Only the new message
+  historyEntryId?: number; // The saved history entry of the analysis, to rebuild an expired session
+}
+
+export interface PlacesRequestData {
+  latitude: number;
+  longitude: number;
+}
+
+// Model calls that are metered in `usage_events`
+export type UsageKind = 'analyze' | 'summarize' | 'alternative' | 'questions' | 'chat';
+
+// The signed-in user's analyses in the current calendar month (UTC)
+export interface UsageSummary {
+  used: number; // Analyses that called the model; cached analyses are free
+  limit: number | null; // null for Pro accounts without a limit
+  remaining: number | null;
+  periodStart: string; // ISO timestamp
+  resetsAt: string; // ISO timestamp when `used` goes back to 0
+}
+
+export interface ApiContracts {
+  analyze: { request: AnalyzeRequestData; response: MenuAnalysis };
+  summarize: { request: SummarizeRequestData; response: { summary: string } };
+  alternative: { request: AlternativeRequestData; response: { alternatives: SaferAlternative[]; unavailable: string[] } };
+  questions: { request: QuestionsRequestData; response: { questions: StaffQuestion[] } };
+  chat: { request: ChatRequestData; response: { reply: string; toolCards?: ChatToolCard[] } };
+  places: { request: PlacesRequestData; response: Restaurant[] };
+  usage: { request: Record<string, never>; response: UsageSummary };
+}
+
+export type ApiRequestType = keyof ApiContracts;
+
+// The request body, e.g. { type: 'chat', data: ChatRequestData }
+export type ApiRequest<T extends ApiRequestType = ApiRequestType> = {
+  [K in T]: { type: K; data: ApiContracts[K]['request'] };
+}[T];
+
+export type ApiResponse<T extends ApiRequestType> = ApiContracts[T]['response'];
+
+// Stable, machine-readable error codes. The HTTP status of each is set by
+// the function (netlify/lib/errors.ts); the client branches on the code.
+export type ApiErrorCode =
+  | 'validation_error' // 400: the request body is malformed or missing a field
+  | 'unauthorized' // 401: the access token is invalid or expired, or the call needs an account
+  | 'not_found' // 404: the analysis a chat refers to has expired or belongs to someone else
+  | 'method_not_allowed' // 405
+  | 'payload_too_large' // 413: too many pages, or images or a PDF that are too big
+  | 'unsupported_input' // 422: a menu link, PDF or scan we cannot read
+  | 'quota_exceeded' // 429: the account's monthly analyses (or model calls of that kind) are used up
+  | 'guest_limit_reached' // 429: the guest allowance for today is used up
+  | 'internal_error' // 500
+  | 'model_failed' // 502: the model provider failed or timed out
+  | 'model_output_invalid' // 502: the model's output stayed unusable after retries
+  | 'places_failed' // 502: the Google Places API failed
+  | 'source_unreachable' // 502: the menu page could not be downloaded
+  | 'not_configured'; // 503: the server is missing a key this call needs
+
+// Body of every non-2xx response
+export interface ApiErrorBody {
+  error: string; // A message that can be shown to the user
+  code: ApiErrorCode;
+  retryable: boolean; // Whether the same request may succeed if sent again
+  usage?: UsageSummary; // With code 'quota_exceeded' when the analyses are used up
+}